@@ -0,0 +1,119 @@
+/**
+ * @description The interface of the stores used to cache rpc responses. Any implementation
+ *   (an in-memory map, redis, localStorage) can be provided through the `cache` module option.
+ *   `get` resolves with `undefined` when the key is missing or expired.
+ */
+export interface Cache {
+  get: (key: string) => any | Promise<any>;
+  set: (key: string, value: any, ttl?: number) => void | Promise<void>;
+}
+
+export interface CacheOptions {
+  store?: Cache;
+  headTtl?: number;
+}
+
+export interface CachePolicy {
+  key: string;
+  ttl?: number;
+}
+
+interface CacheEntry {
+  value: string;
+  expires?: number;
+}
+
+const BLOCK_HASH_PATH = /^\/chains\/[^/]+\/blocks\/B[1-9A-HJ-NP-Za-km-z]{50}(\/|$)/;
+const HEAD_PATH = /^\/chains\/[^/]+\/blocks\/head([~-]\d+)?(\/|$)/;
+const CONTRACT_ENTRYPOINTS_PATH = /^\/chains\/([^/]+)\/blocks\/[^/]+\/context\/contracts\/(KT1[1-9A-HJ-NP-Za-km-z]{33})\/entrypoints$/;
+
+/**
+ * @description Determines whether the response of a GET request can be cached, and for how long
+ * @param {string} path The RPC path of the request
+ * @param {number} headTtl How long responses for paths relative to the head are cached (in ms)
+ * @returns {Object|null} The cache key and time to live (forever when undefined) of the response,
+ *   or null when the response must not be cached
+ */
+export const cachePolicy = (
+  path: string,
+  headTtl: number,
+): CachePolicy | null => {
+  // The entrypoints of a contract never change, whatever the block they are read at. Its script
+  // also holds its storage, and is only cached as any other path of its block.
+  const entrypoints = path.match(CONTRACT_ENTRYPOINTS_PATH);
+  if (entrypoints) {
+    const [, chain, address] = entrypoints;
+    return { key: `/chains/${chain}/contracts/${address}/entrypoints` };
+  }
+
+  if (BLOCK_HASH_PATH.test(path)) {
+    return { key: path };
+  }
+
+  if (headTtl > 0 && HEAD_PATH.test(path)) {
+    return { key: path, ttl: headTtl };
+  }
+
+  return null;
+};
+
+/**
+ * @description The default cache, an in-memory store evicting the least recently used entries.
+ *   Values are stored serialized so that callers cannot mutate cached responses.
+ * @param {number} [maxEntries=1000] The maximum number of entries to keep
+ * @example
+ * const tezos = new Sotez('https://127.0.0.1:8732', 'main', {
+ *   cache: { store: new LRUCache(5000) },
+ * });
+ */
+export class LRUCache implements Cache {
+  private entries: Map<string, CacheEntry> = new Map();
+
+  constructor(public maxEntries: number = 1000) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get = (key: string): any => {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+
+    if (entry.expires !== undefined && entry.expires <= Date.now()) {
+      return undefined;
+    }
+
+    // Move the entry to the most recently used position
+    this.entries.set(key, entry);
+    return JSON.parse(entry.value);
+  };
+
+  set = (key: string, value: any, ttl?: number): void => {
+    if (value === undefined) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value: JSON.stringify(value),
+      expires: ttl !== undefined ? Date.now() + ttl : undefined,
+    });
+
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  };
+
+  delete = (key: string): void => {
+    this.entries.delete(key);
+  };
+
+  clear = (): void => {
+    this.entries.clear();
+  };
+}
@@ -277,6 +277,89 @@ const forgeOpTags: { [key: string]: { [key: string]: number } } = {
     origination: 109,
     delegation: 110,
   },
+  // From Granada, only the kinds whose encoding is supported are listed
+  '010': {
+    endorsement: 0,
+    seed_nonce_revelation: 1,
+    double_endorsement_evidence: 2,
+    activate_account: 4,
+    proposals: 5,
+    ballot: 6,
+    endorsement_with_slot: 10,
+    reveal: 107,
+    transaction: 108,
+    origination: 109,
+    delegation: 110,
+  },
+  '011': {
+    endorsement: 0,
+    seed_nonce_revelation: 1,
+    double_endorsement_evidence: 2,
+    activate_account: 4,
+    proposals: 5,
+    ballot: 6,
+    endorsement_with_slot: 10,
+    reveal: 107,
+    transaction: 108,
+    origination: 109,
+    delegation: 110,
+    register_global_constant: 111,
+  },
+  '012': {
+    seed_nonce_revelation: 1,
+    activate_account: 4,
+    proposals: 5,
+    ballot: 6,
+    reveal: 107,
+    transaction: 108,
+    origination: 109,
+    delegation: 110,
+    register_global_constant: 111,
+    set_deposits_limit: 112,
+  },
+  '013': {
+    seed_nonce_revelation: 1,
+    activate_account: 4,
+    proposals: 5,
+    ballot: 6,
+    reveal: 107,
+    transaction: 108,
+    origination: 109,
+    delegation: 110,
+    register_global_constant: 111,
+    set_deposits_limit: 112,
+    transfer_ticket: 158,
+  },
+  '014': {
+    seed_nonce_revelation: 1,
+    activate_account: 4,
+    proposals: 5,
+    ballot: 6,
+    reveal: 107,
+    transaction: 108,
+    origination: 109,
+    delegation: 110,
+    register_global_constant: 111,
+    set_deposits_limit: 112,
+    increase_paid_storage: 113,
+    transfer_ticket: 158,
+  },
+  '015': {
+    seed_nonce_revelation: 1,
+    activate_account: 4,
+    proposals: 5,
+    ballot: 6,
+    drain_delegate: 9,
+    reveal: 107,
+    transaction: 108,
+    origination: 109,
+    delegation: 110,
+    register_global_constant: 111,
+    set_deposits_limit: 112,
+    increase_paid_storage: 113,
+    update_consensus_key: 114,
+    transfer_ticket: 158,
+  },
 };
 
 /* eslint-disable */
@@ -320,6 +403,12 @@ export const protocols = {
   '008a': 'PtEdoTezd3RHSC31mpxxo1npxFjoWWcFgQtxapi51Z8TLu6v6Uq',
   '008': 'PtEdo2ZkT9oKpimTah6x2embF25oss54njMuPzkJTEi5RqfdZFA',
   '009': 'PsFLorenaUUuikDWvMDr6fGBRG8kt3e3D3fHoXK1j1BFRxeSH4i',
+  '010': 'PtGRANADsDU8R9daYKAgWnQYAJ64omN1o3KMGVCykShA97vQbvV',
+  '011': 'PtHangz2aRngywmSRGGvrcTyMbbdpWdpFKuS4uMWxg2RaH9i1qx',
+  '012': 'Psithaca2MLRFYargivpo7YvUr7wUDqyxrdhC5CQq78mRvimz6A',
+  '013': 'PtJakart2xVj7pYXJBXrqHgd82rdkLey5ZeeGikgSPHAJWUDBP4w',
+  '014': 'PtKathmankSpLLDALzWw7CGD2j2MtyveTwboEYokqUCP4a1LxMg',
+  '015': 'PtLimaPtLMwfNinJi9rCfDPWea8dFgTZ1MeJ9f1m2SRic6ayiwW',
 };
 
 export default {
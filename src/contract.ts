@@ -1,6 +1,7 @@
 import { ParameterSchema, Schema, Semantic } from '@taquito/michelson-encoder';
 import { BigNumber } from 'bignumber.js';
 import { encodeExpr } from './utility';
+import { BlockOptions, resolveBlock } from './tez-core';
 
 interface RpcParams {
   to: string;
@@ -58,6 +59,7 @@ interface SendParams {
   storageLimit?: number;
   gasLimit?: number;
   amount?: number;
+  signal?: AbortSignal;
 }
 
 const DEFAULT_SMART_CONTRACT_METHOD_NAME = 'default';
@@ -87,27 +89,38 @@ class BigMapAbstraction {
     private id: BigNumber,
     private schema: Schema,
     private client: any,
+    private block?: string | number,
   ) {}
 
-  async get(keyToEncode: string): Promise<any> {
+  async get(keyToEncode: string, options: BlockOptions = {}): Promise<any> {
+    // Read big maps at the block of the storage they were retrieved from, unless overridden
+    const block = options.block ?? this.block;
     const encoded = this.schema.EncodeBigMapKey(keyToEncode);
-    const { packed } = await this.client.packData(encoded.key, encoded.type);
+    const { packed } = await this.client.packData(
+      encoded.key,
+      encoded.type,
+      options,
+    );
     const encodedExpr = encodeExpr(packed);
     const bigMapValue = await this.client.query(
-      `/chains/${
-        this.client.chain
-      }/blocks/head/context/big_maps/${this.id.toString()}/${encodedExpr}`,
+      `/chains/${this.client.chain}/blocks/${resolveBlock(
+        block,
+      )}/context/big_maps/${this.id.toString()}/${encodedExpr}`,
+      undefined,
+      undefined,
+      options,
     );
     return this.schema.ExecuteOnBigMapValue(
       bigMapValue,
-      smartContractAbstractionSemantic(this.client),
+      smartContractAbstractionSemantic(this.client, block),
     );
   }
 }
 
-const smartContractAbstractionSemantic: (client: any) => Semantic = (
+const smartContractAbstractionSemantic: (
   client: any,
-) => ({
+  block?: string | number,
+) => Semantic = (client: any, block?: string | number) => ({
   // Provide a specific abstraction for BigMaps
   big_map: (val: Micheline, code: Micheline): any => {
     if (!val || !('int' in val) || val.int === undefined) {
@@ -115,7 +128,7 @@ const smartContractAbstractionSemantic: (client: any) => Semantic = (
       return {};
     }
     const schema = new Schema(code);
-    return new BigMapAbstraction(new BigNumber(val.int), schema, client);
+    return new BigMapAbstraction(new BigNumber(val.int), schema, client, block);
   },
 });
 
@@ -124,6 +137,8 @@ const smartContractAbstractionSemantic: (client: any) => Semantic = (
  * @class Contract
  * @param {Object} client Initialized Sotez client
  * @param {string} address Contract address
+ * @param {Object} [options] The query options used to load the contract
+ * @param {string|number} [options.block='head'] The block to load the contract at
  * @example
  * const contract = new Contract(sotez, 'KT1MKm4ynxPSzRjw26jPSJbaMFTqTc4dVPdK');
  */
@@ -138,23 +153,37 @@ export class Contract {
 
   loaded: Promise<boolean>;
 
-  constructor(public client: any, readonly address: string) {
-    this.loaded = this._init(address);
+  constructor(
+    public client: any,
+    readonly address: string,
+    options: BlockOptions = {},
+  ) {
+    this.loaded = this._init(address, options);
   }
 
-  _init = async (address: string): Promise<boolean> => {
+  _init = async (
+    address: string,
+    options: BlockOptions = {},
+  ): Promise<boolean> => {
+    const block = resolveBlock(options.block);
     const contractPromises = [];
     contractPromises.push(
       this.client.query(
-        `/chains/${this.client.chain}/blocks/head/context/contracts/${this.address}`,
+        `/chains/${this.client.chain}/blocks/${block}/context/contracts/${this.address}/script`,
+        undefined,
+        undefined,
+        options,
       ),
     );
     contractPromises.push(
       this.client.query(
-        `/chains/${this.client.chain}/blocks/head/context/contracts/${this.address}/entrypoints`,
+        `/chains/${this.client.chain}/blocks/${block}/context/contracts/${this.address}/entrypoints`,
+        undefined,
+        undefined,
+        options,
       ),
     );
-    const [{ script }, { entrypoints }] = await Promise.all(contractPromises);
+    const [script, { entrypoints }] = await Promise.all(contractPromises);
     this.schema = Schema.fromRPCResponse({ script });
     this.parameterSchema = ParameterSchema.fromRPCResponse({ script });
     this.entrypoints = entrypoints;
@@ -239,27 +268,42 @@ export class Contract {
 
   /**
    * @description Return a friendly representation of the smart contract storage
+   * @param {Object} [options] The query options
+   * @param {string|number} [options.block='head'] The block to read the storage at. The big maps
+   *   of the storage are read at the same block.
    * @returns {Promise} The contract storage
    */
-  storage = async (): Promise<any> => {
+  storage = async (options: BlockOptions = {}): Promise<any> => {
     await this.loaded;
     const contractStorage = await this.client.query(
-      `/chains/${this.client.chain}/blocks/head/context/contracts/${this.address}/storage`,
+      `/chains/${this.client.chain}/blocks/${resolveBlock(
+        options.block,
+      )}/context/contracts/${this.address}/storage`,
+      undefined,
+      undefined,
+      options,
     );
     return this.schema.Execute(
       contractStorage,
-      smartContractAbstractionSemantic(this.client),
+      smartContractAbstractionSemantic(this.client, options.block),
     );
   };
 
   /**
    * @description Return the contract balance
+   * @param {Object} [options] The query options
+   * @param {string|number} [options.block='head'] The block to read the balance at
    * @returns {Promise<string>} The contract balance
    */
-  balance = async (): Promise<string> => {
+  balance = async (options: BlockOptions = {}): Promise<string> => {
     await this.loaded;
     return this.client.query(
-      `/chains/${this.client.chain}/blocks/head/context/contracts/${this.address}/balance`,
+      `/chains/${this.client.chain}/blocks/${resolveBlock(
+        options.block,
+      )}/context/contracts/${this.address}/balance`,
+      undefined,
+      undefined,
+      options,
     );
   };
 }
@@ -306,7 +350,9 @@ export class ContractMethod {
    * @returns {Promise} The operation hash of the transfer
    */
   send(params: Partial<SendParams> = {}): Promise<any> {
-    return this.client.transfer(this.toTransferParams(params));
+    return this.client.transfer(this.toTransferParams(params), {
+      signal: params.signal,
+    });
   }
 
   toTransferParams({
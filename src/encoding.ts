@@ -0,0 +1,680 @@
+import { BigNumber } from 'bignumber.js';
+import {
+  buf2hex,
+  b58cdecode,
+  b58cencode,
+  hex2buf,
+  textDecode,
+  textEncode,
+} from './utility';
+import { prefix, forgeMappings } from './constants';
+
+export type Micheline =
+  | {
+      entrypoint: string;
+      value:
+        | {
+            prim: string;
+            args?: MichelineArray;
+            annots?: string[];
+          }
+        | { bytes: string }
+        | { int: string }
+        | { string: string }
+        | { address: string }
+        | { contract: string }
+        | { key: string }
+        | { key_hash: string }
+        | { signature: string }
+        | MichelineArray;
+    }
+  | {
+      prim: string;
+      args?: MichelineArray;
+      annots?: string[];
+    }
+  | { bytes: string }
+  | { int: string }
+  | { string: string }
+  | { address: string }
+  | { contract: string }
+  | { key: string }
+  | { key_hash: string }
+  | { signature: string }
+  | MichelineArray;
+
+export type MichelineArray = Array<Micheline>;
+
+/**
+ * @description Convert bytes from Int32
+ * @param {number} num Number to convert to bytes
+ * @returns {Object} The converted number
+ */
+export const toBytesInt32 = (num: number): any => {
+  // @ts-ignore
+  num = parseInt(num, 10);
+  const arr = new Uint8Array([
+    (num & 0xff000000) >> 24,
+    (num & 0x00ff0000) >> 16,
+    (num & 0x0000ff00) >> 8,
+    num & 0x000000ff,
+  ]);
+  return arr.buffer;
+};
+
+/**
+ * @description Convert hex from Int32
+ * @param {number} num Number to convert to hex
+ * @returns {string} The converted number
+ */
+export const toBytesInt32Hex = (num: number): string => {
+  const forgedBuffer = new Uint8Array(toBytesInt32(num));
+  return buf2hex(forgedBuffer);
+};
+
+/**
+ * @description Convert bytes from Int16
+ * @param {number} num Number to convert to bytes
+ * @returns {Object} The converted number
+ */
+export const toBytesInt16 = (num: number): any => {
+  // @ts-ignore
+  num = parseInt(num, 10);
+  const arr = new Uint8Array([(num & 0xff00) >> 8, num & 0x00ff]);
+  return arr.buffer;
+};
+
+/**
+ * @description Convert hex from Int16
+ * @param {number} num Number to convert to hex
+ * @returns {string} The converted number
+ */
+export const toBytesInt16Hex = (num: number): string => {
+  const forgedBuffer = new Uint8Array(toBytesInt16(num));
+  return buf2hex(forgedBuffer);
+};
+
+/**
+ * @description Forge boolean
+ * @param {boolean} boolArg Boolean value to convert
+ * @returns {string} The converted boolean
+ */
+export const bool = (boolArg: boolean): string => (boolArg ? 'ff' : '00');
+
+/**
+ * @description Forge script bytes
+ * @param {Object} scriptArg Script to forge
+ * @param {string} scriptArg.code Script code
+ * @param {string} scriptArg.storage Script storage
+ * @returns {string} Forged script bytes
+ */
+export const script = (scriptArg: {
+  code: Micheline;
+  storage: Micheline;
+}): string => {
+  const t1 = encodeRawBytes(scriptArg.code).toLowerCase();
+  const t2 = encodeRawBytes(scriptArg.storage).toLowerCase();
+  return (
+    toBytesInt32Hex(t1.length / 2) + t1 + toBytesInt32Hex(t2.length / 2) + t2
+  );
+};
+
+/**
+ * @description Forge Micheline bytes prefixed with their length
+ * @param {Object} value Micheline to forge
+ * @returns {string} Forged Micheline bytes
+ */
+export const micheline = (value: Micheline): string => {
+  const t = encodeRawBytes(value).toLowerCase();
+  return toBytesInt32Hex(t.length / 2) + t;
+};
+
+/**
+ * @description Forge public key hash bytes
+ * @param {string} pkh Public key hash to forge
+ * @returns {string} Forged public key hash bytes
+ */
+export const publicKeyHash = (pkh: string): string => {
+  const t = parseInt(pkh.substr(2, 1), 10);
+  const fpkh = [`0${t - 1}`];
+  const forgedBuffer = new Uint8Array(
+    b58cdecode(pkh, prefix[pkh.substring(0, 3)]),
+  );
+  fpkh.push(buf2hex(forgedBuffer));
+  return fpkh.join('');
+};
+
+/**
+ * @description Forge address bytes
+ * @param {string} addressArg Address to forge
+ * @returns {string} Forged address bytes
+ */
+export const address = (addressArg: string): string => {
+  const fa: string[] = [];
+
+  if (addressArg.substring(0, 1) === 'K') {
+    fa.push('01');
+    const forgedBuffer = new Uint8Array(b58cdecode(addressArg, prefix.KT));
+    fa.push(buf2hex(forgedBuffer));
+    fa.push('00');
+  } else {
+    fa.push('00');
+    fa.push(publicKeyHash(addressArg));
+  }
+  return fa.join('');
+};
+
+/**
+ * @description Forge zarith bytes
+ * @param {number} n Zarith to forge
+ * @returns {string} Forged zarith bytes
+ */
+export const zarith = (n: string): string => {
+  const fn: string[] = [];
+  let nn = new BigNumber(n, 10);
+  if (nn.isNaN()) {
+    throw new TypeError(`Error forging zarith ${n}`);
+  }
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    if (nn.lt(128)) {
+      if (nn.lt(16)) fn.push('0');
+      fn.push(nn.toString(16));
+      break;
+    } else {
+      let b = nn.mod(128);
+      nn = nn.minus(b);
+      nn = nn.dividedBy(128);
+      b = b.plus(128);
+      fn.push(b.toString(16));
+    }
+  }
+  return fn.join('');
+};
+
+/**
+ * @description Forge signed zarith bytes. The first byte holds the sign and the 6 lowest bits.
+ * @param {string} n Signed zarith to forge
+ * @returns {string} Forged signed zarith bytes
+ */
+export const signedZarith = (n: string): string => {
+  const nn = new BigNumber(n, 10);
+  if (nn.isNaN()) {
+    throw new TypeError(`Error forging signed zarith ${n}`);
+  }
+  const abs = nn.abs();
+  const low = abs.mod(64);
+  const rest = abs.minus(low).dividedBy(64);
+  let first = low.toNumber() | (nn.isNegative() ? 0x40 : 0);
+
+  if (rest.isZero()) {
+    return first.toString(16).padStart(2, '0');
+  }
+
+  first |= 0x80;
+  return first.toString(16).padStart(2, '0') + zarith(rest.toString(10));
+};
+
+/**
+ * @description Forge public key bytes
+ * @param {number} pk Public key to forge
+ * @returns {string} Forged public key bytes
+ */
+export const publicKey = (pk: string): string => {
+  const fpk: string[] = [];
+  const keyPrefix = pk.substring(0, 2);
+
+  if (keyPrefix === 'ed') {
+    fpk.push('00');
+  }
+
+  if (keyPrefix === 'sp') {
+    fpk.push('01');
+  }
+
+  if (keyPrefix === 'p2') {
+    fpk.push('02');
+  }
+
+  const forgedBuffer = new Uint8Array(
+    b58cdecode(pk, prefix[pk.substring(0, 4)]),
+  );
+  fpk.push(buf2hex(forgedBuffer));
+  return fpk.join('');
+};
+
+/**
+ * @description Forge signature bytes
+ * @param {string} sig Signature to forge
+ * @returns {string} Forged signature bytes
+ */
+export const signature = (sig: string): string => {
+  const sigPrefix = ['edsig', 'spsig', 'p2sig', 'sig'].find((p) =>
+    sig.startsWith(p),
+  );
+
+  if (!sigPrefix) {
+    throw new Error(`Invalid signature: ${sig}`);
+  }
+
+  return buf2hex(new Uint8Array(b58cdecode(sig, prefix[sigPrefix])));
+};
+
+/**
+ * @description Decode raw bytes
+ * @param {string} bytes The bytes to decode
+ * @returns {Object} Decoded raw bytes
+ */
+export const decodeRawBytes = (bytes: string): Micheline => {
+  bytes = bytes.toUpperCase();
+
+  let index = 0;
+  const read = (len: number) => {
+    const readBytes = bytes.slice(index, index + len);
+    index += len;
+    return readBytes;
+  };
+
+  const rec = (): any => {
+    const b = read(2);
+    const prim = forgeMappings.primMapping[b];
+
+    if (prim instanceof Object) {
+      const forgeOp = forgeMappings.opMapping[read(2)];
+      const args = [...Array(prim.len)];
+      const result: {
+        prim: string;
+        args?: (string | number | boolean)[];
+        annots?: string[];
+      } = {
+        prim: forgeOp,
+        args: args.map(() => rec()),
+        annots: undefined,
+      };
+      if (!prim.len) {
+        delete result.args;
+      }
+      if (prim.annots) {
+        const annotsLen = parseInt(read(8), 16) * 2;
+        const stringHexLst = read(annotsLen).match(/[\dA-F]{2}/g);
+        if (stringHexLst) {
+          const stringBytes = new Uint8Array(
+            stringHexLst.map((x) => parseInt(x, 16)),
+          );
+          const stringResult = textDecode(stringBytes);
+          result.annots = stringResult.split(' ');
+        }
+      } else {
+        delete result.annots;
+      }
+      return result;
+    }
+
+    if (b === '0A') {
+      const len = read(8);
+      const intLen = parseInt(len, 16) * 2;
+      const data = read(intLen);
+      return { bytes: data };
+    }
+
+    if (b === '01') {
+      const len = read(8);
+      const intLen = parseInt(len, 16) * 2;
+      const data = read(intLen);
+
+      const matchResult = data.match(/[\dA-F]{2}/g);
+      if (matchResult instanceof Array) {
+        const stringRaw = new Uint8Array(
+          matchResult.map((x) => parseInt(x, 16)),
+        );
+        return { string: textDecode(stringRaw) };
+      }
+
+      throw new Error('Input bytes error');
+    }
+
+    if (b === '00') {
+      const firstBytes = parseInt(read(2), 16).toString(2).padStart(8, '0');
+      // const isPositive = firstBytes[1] === '0';
+      const validBytes = [firstBytes.slice(2)];
+      let checknext = firstBytes[0] === '1';
+
+      while (checknext) {
+        const bytesCheck = parseInt(read(2), 16).toString(2).padStart(8, '0');
+        validBytes.push(bytesCheck.slice(1));
+        checknext = bytesCheck[0] === '1';
+      }
+
+      const num = new BigNumber(validBytes.reverse().join(''), 2);
+      return { int: num.toString() };
+    }
+
+    if (b === '02') {
+      const len = read(8);
+      const intLen = parseInt(len, 16) * 2;
+      // const data = read(intLen);
+      const limit = index + intLen;
+
+      const seqLst = [];
+      while (limit > index) {
+        seqLst.push(rec());
+      }
+      return seqLst;
+    }
+    throw new Error(`Invalid raw bytes: Byte:${b} Index:${index}`);
+  };
+
+  return rec();
+};
+
+/**
+ * @description Encode raw bytes
+ * @param {Object} input The value to encode
+ * @returns {string} Encoded value as bytes
+ */
+export const encodeRawBytes = (input: Micheline): string => {
+  const rec = (inputArg: Micheline): string => {
+    const result: string[] = [];
+
+    if (inputArg instanceof Array) {
+      result.push('02');
+      const bytes = inputArg.map((x) => rec(x)).join('');
+      const len = bytes.length / 2;
+      result.push(len.toString(16).padStart(8, '0'));
+      result.push(bytes);
+    } else if (inputArg instanceof Object) {
+      if ('prim' in inputArg) {
+        if (inputArg.prim === 'LAMBDA') {
+          result.push('09');
+          result.push(forgeMappings.opMappingReverse[inputArg.prim]);
+          if (inputArg.args) {
+            const innerResult: string[] = [];
+            inputArg.args.forEach((arg) => {
+              innerResult.push(rec(arg));
+            });
+            const len = innerResult.join('').length / 2;
+            result.push(len.toString(16).padStart(8, '0'));
+            innerResult.forEach((x) => result.push(x));
+          }
+          const annotsBytes = inputArg.annots
+            ? inputArg.annots
+                .map((x) => buf2hex(new Uint8Array(textEncode(x))))
+                .join('20')
+            : '';
+          result.push((annotsBytes.length / 2).toString(16).padStart(8, '0'));
+          if (annotsBytes) {
+            result.push(annotsBytes);
+          }
+        } else {
+          const argsLen = inputArg.args ? inputArg.args.length : 0;
+          result.push(
+            forgeMappings.primMappingReverse[argsLen][`${!!inputArg.annots}`],
+          );
+          result.push(forgeMappings.opMappingReverse[inputArg.prim]);
+          if (inputArg.args) {
+            inputArg.args.forEach((arg: any) => result.push(rec(arg)));
+          }
+          if (inputArg.annots) {
+            const annotsBytes = inputArg.annots
+              .map((x: any) => {
+                const forgedBuffer = new Uint8Array(textEncode(x));
+                return buf2hex(forgedBuffer);
+              })
+              .join('20');
+            result.push((annotsBytes.length / 2).toString(16).padStart(8, '0'));
+            result.push(annotsBytes);
+          }
+        }
+      } else if ('bytes' in inputArg) {
+        const len = inputArg.bytes.length / 2;
+        result.push('0A');
+        result.push(len.toString(16).padStart(8, '0'));
+        result.push(inputArg.bytes);
+      } else if ('int' in inputArg) {
+        const num = new BigNumber(inputArg.int, 10);
+        const positiveMark = num.toString(2)[0] === '-' ? '1' : '0';
+        const binary = num.toString(2).replace('-', '');
+        const pad =
+          // eslint-disable-next-line no-nested-ternary
+          binary.length <= 6
+            ? 6
+            : (binary.length - 6) % 7
+            ? binary.length + 7 - ((binary.length - 6) % 7)
+            : binary.length;
+
+        const splitted = binary.padStart(pad, '0').match(/\d{6,7}/g) || [];
+        const reversed = splitted.reverse();
+
+        reversed[0] = positiveMark + reversed[0];
+
+        const numHex = reversed
+          .map((x: string, i: number) =>
+            parseInt((i === reversed.length - 1 ? '0' : '1') + x, 2)
+              .toString(16)
+              .padStart(2, '0'),
+          )
+          .join('');
+
+        result.push('00');
+        result.push(numHex);
+      } else if ('string' in inputArg) {
+        const stringBytes = textEncode(inputArg.string);
+        const stringHex = [].slice
+          .call(stringBytes)
+          .map((x: any) => x.toString(16).padStart(2, '0'))
+          .join('');
+        const len = stringBytes.length;
+        result.push('01');
+        result.push(len.toString(16).padStart(8, '0'));
+        result.push(stringHex);
+      }
+    }
+    return result.join('');
+  };
+
+  return rec(input).toUpperCase();
+};
+
+/**
+ * @description A cursor over forged bytes, used to decode them field by field
+ * @param {string} bytes The forged bytes
+ * @example
+ * const reader = new BytesReader('ff00');
+ * decodeBool(reader); // true
+ * reader.remaining; // 1
+ */
+export class BytesReader {
+  index = 0;
+
+  constructor(public bytes: string) {
+    this.bytes = bytes.toLowerCase();
+  }
+
+  /**
+   * @description The number of bytes left to read
+   * @returns {number} The number of bytes
+   */
+  get remaining(): number {
+    return (this.bytes.length - this.index) / 2;
+  }
+
+  /**
+   * @description Reads the next bytes
+   * @param {number} length The number of bytes to read
+   * @returns {string} The bytes as hex
+   */
+  read = (length: number): string => {
+    if (length > this.remaining) {
+      throw new Error(`Unexpected end of bytes at index ${this.index / 2}`);
+    }
+
+    const bytes = this.bytes.slice(this.index, this.index + length * 2);
+    this.index += length * 2;
+    return bytes;
+  };
+}
+
+/**
+ * @description Decode an Int32
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {number} The decoded number
+ */
+export const decodeInt32 = (reader: BytesReader): number =>
+  parseInt(reader.read(4), 16);
+
+/**
+ * @description Decode an Int16
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {number} The decoded number
+ */
+export const decodeInt16 = (reader: BytesReader): number =>
+  parseInt(reader.read(2), 16);
+
+/**
+ * @description Decode a boolean
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {boolean} The decoded boolean
+ */
+export const decodeBool = (reader: BytesReader): boolean => {
+  const byte = reader.read(1);
+
+  if (byte !== 'ff' && byte !== '00') {
+    throw new Error(`Invalid boolean: ${byte}`);
+  }
+
+  return byte === 'ff';
+};
+
+/**
+ * @description Decode zarith bytes
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {string} The decoded number
+ */
+export const decodeZarith = (reader: BytesReader): string => {
+  let n = new BigNumber(0);
+  let shift = new BigNumber(1);
+  let byte: number;
+
+  do {
+    byte = parseInt(reader.read(1), 16);
+    n = n.plus(shift.multipliedBy(byte & 0x7f));
+    shift = shift.multipliedBy(128);
+  } while (byte & 0x80);
+
+  return n.toString(10);
+};
+
+/**
+ * @description Decode signed zarith bytes
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {string} The decoded number
+ */
+export const decodeSignedZarith = (reader: BytesReader): string => {
+  const first = parseInt(reader.read(1), 16);
+  let n = new BigNumber(first & 0x3f);
+
+  if (first & 0x80) {
+    n = n.plus(new BigNumber(decodeZarith(reader)).multipliedBy(64));
+  }
+
+  return (first & 0x40 ? n.negated() : n).toString(10);
+};
+
+/**
+ * @description Decode public key hash bytes
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {string} The decoded public key hash
+ */
+export const decodePublicKeyHash = (reader: BytesReader): string => {
+  const tag = reader.read(1);
+  const pkhPrefix = ({ '00': 'tz1', '01': 'tz2', '02': 'tz3' } as {
+    [tag: string]: string;
+  })[tag];
+
+  if (!pkhPrefix) {
+    throw new Error(`Invalid public key hash tag: ${tag}`);
+  }
+
+  return b58cencode(hex2buf(reader.read(20)), prefix[pkhPrefix]);
+};
+
+/**
+ * @description Decode address bytes
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {string} The decoded address
+ */
+export const decodeAddress = (reader: BytesReader): string => {
+  const tag = reader.read(1);
+
+  if (tag === '00') {
+    return decodePublicKeyHash(reader);
+  }
+
+  if (tag === '01') {
+    const contract = b58cencode(hex2buf(reader.read(20)), prefix.KT);
+    reader.read(1);
+    return contract;
+  }
+
+  throw new Error(`Invalid address tag: ${tag}`);
+};
+
+/**
+ * @description Decode public key bytes
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {string} The decoded public key
+ */
+export const decodePublicKey = (reader: BytesReader): string => {
+  const tag = reader.read(1);
+
+  if (tag === '00') {
+    return b58cencode(hex2buf(reader.read(32)), prefix.edpk);
+  }
+
+  if (tag === '01') {
+    return b58cencode(hex2buf(reader.read(33)), prefix.sppk);
+  }
+
+  if (tag === '02') {
+    return b58cencode(hex2buf(reader.read(33)), prefix.p2pk);
+  }
+
+  throw new Error(`Invalid public key tag: ${tag}`);
+};
+
+/**
+ * @description Decode Micheline bytes prefixed with their length
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {Object} The decoded Micheline
+ */
+export const decodeMicheline = (reader: BytesReader): Micheline =>
+  decodeRawBytes(reader.read(decodeInt32(reader)));
+
+/**
+ * @description Decode script bytes
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {Object} The decoded code and storage
+ */
+export const decodeScript = (
+  reader: BytesReader,
+): { code: Micheline; storage: Micheline } => {
+  const code = decodeMicheline(reader);
+  const storage = decodeMicheline(reader);
+  return { code, storage };
+};
+
+/**
+ * @description Decode signature bytes
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {string} The decoded signature, with the generic prefix
+ */
+export const decodeSignature = (reader: BytesReader): string =>
+  b58cencode(hex2buf(reader.read(64)), prefix.sig);
+
+/**
+ * @description Reads bytes prefixed with their length
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {Object} A reader of the prefixed bytes
+ */
+export const decodeDynamic = (reader: BytesReader): BytesReader =>
+  new BytesReader(reader.read(decodeInt32(reader)));
@@ -0,0 +1,111 @@
+import { Key } from './key';
+import { forge } from './forge';
+import { magicBytes } from './constants';
+import { InvalidEnvelopeError } from './errors';
+
+export const ENVELOPE_VERSION = 1;
+
+/**
+ * @description A prepared operation which can be saved as JSON, signed offline and injected later
+ */
+export interface UnsignedEnvelope {
+  /** The version of the envelope format */
+  version: number;
+  /** The id of the chain the operation is meant for */
+  chainId: string;
+  /** The protocol the operation was forged for */
+  protocol: string;
+  /** The hash of the block the operation is branched on */
+  branch: string;
+  /** The level of the branch */
+  branchLevel: number;
+  /** The last level at which the operation can be included */
+  expiresAt: number;
+  /** The address signing the operation */
+  source: string;
+  /** The forged operation bytes */
+  opbytes: string;
+  /** The operation object */
+  opOb: {
+    branch: string;
+    contents: any[];
+    protocol: string;
+  };
+}
+
+export interface SignedEnvelope extends UnsignedEnvelope {
+  /** The signature of the forged bytes */
+  signature: string;
+}
+
+/**
+ * @description Checks that an envelope has every field of the supported version
+ * @param {Object} envelope The envelope, usually parsed from JSON
+ */
+export const validateEnvelope = (envelope: UnsignedEnvelope): void => {
+  if (!envelope || typeof envelope !== 'object') {
+    throw new InvalidEnvelopeError('The envelope is not an object');
+  }
+
+  if (envelope.version !== ENVELOPE_VERSION) {
+    throw new InvalidEnvelopeError(
+      `Unsupported envelope version: ${envelope.version}`,
+    );
+  }
+
+  const fields: { [field: string]: any } = envelope;
+  const missing = [
+    ...['chainId', 'protocol', 'branch', 'source', 'opbytes'].filter(
+      (field) => typeof fields[field] !== 'string',
+    ),
+    ...['branchLevel', 'expiresAt'].filter(
+      (field) => typeof fields[field] !== 'number',
+    ),
+  ];
+
+  if (missing.length) {
+    throw new InvalidEnvelopeError(
+      `The envelope is missing ${missing.join(', ')}`,
+    );
+  }
+
+  if (
+    !envelope.opOb ||
+    envelope.opOb.branch !== envelope.branch ||
+    !Array.isArray(envelope.opOb.contents)
+  ) {
+    throw new InvalidEnvelopeError(
+      'The operation object does not match the envelope',
+    );
+  }
+};
+
+/**
+ * @description Signs an envelope, after checking that its bytes are the forged operation object
+ *   so that what is signed is what was reviewed. Signing needs no connection to a node.
+ * @param {Object} envelope The unsigned envelope
+ * @param {Object} key The key of the source
+ * @returns {Promise} The signed envelope
+ * @example
+ * const key = new Key({ key: 'edsk...' });
+ * await key.ready;
+ * const signed = await signEnvelope(JSON.parse(unsigned), key);
+ */
+export const signEnvelope = async (
+  envelope: UnsignedEnvelope,
+  key: Key,
+): Promise<SignedEnvelope> => {
+  validateEnvelope(envelope);
+
+  const { opbytes } = await forge(envelope.opOb, 0, envelope.protocol);
+
+  if (opbytes !== envelope.opbytes.toLowerCase()) {
+    throw new InvalidEnvelopeError(
+      'The forged bytes do not match the operation object',
+    );
+  }
+
+  const { prefixSig } = await key.sign(envelope.opbytes, magicBytes.generic);
+
+  return { ...envelope, signature: prefixSig };
+};
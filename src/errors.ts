@@ -0,0 +1,389 @@
+import { mic2arr } from './utility';
+
+/**
+ * @description The base class of the errors thrown by Sotez
+ * @class SotezError
+ * @param {string} message The error message
+ */
+export class SotezError extends Error {
+  constructor(message: string) {
+    super(message);
+    // Restore the prototype chain, lost when extending built-ins with an ES5 target
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'SotezError';
+  }
+}
+
+/**
+ * @description Thrown when a request is cancelled through its AbortSignal
+ * @class RequestAbortedError
+ * @param {string} [path] The RPC path of the aborted request
+ */
+export class RequestAbortedError extends SotezError {
+  constructor(public path?: string) {
+    super(path ? `Request aborted: ${path}` : 'Request aborted');
+    this.name = 'RequestAbortedError';
+  }
+}
+
+/**
+ * @description Thrown when a request does not complete in time
+ * @class RequestTimeoutError
+ * @param {number} timeout The timeout which elapsed (in ms)
+ * @param {string} [path] The RPC path of the request
+ */
+export class RequestTimeoutError extends SotezError {
+  constructor(public timeout: number, public path?: string) {
+    super(
+      path
+        ? `Request timed out after ${timeout}ms: ${path}`
+        : `Request timed out after ${timeout}ms`,
+    );
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/**
+ * @description Thrown when the transport fails to send a request or to receive its response,
+ *   ie. on a network failure
+ * @class TransportError
+ * @param {*} cause The error thrown by the transport
+ * @param {string} [path] The RPC path of the request
+ */
+export class TransportError extends SotezError {
+  constructor(public cause: any, public path?: string) {
+    super(
+      `Request failed${path ? `: ${path}` : ''}: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+    );
+    this.name = 'TransportError';
+  }
+}
+
+/**
+ * @description Thrown by the replay transport when no recorded response matches a request
+ * @class UnrecordedRequestError
+ * @param {string} method The request method
+ * @param {string} path The RPC path of the request
+ * @param {*} [body] The normalized body of the request
+ */
+export class UnrecordedRequestError extends SotezError {
+  constructor(public method: string, public path: string, public body?: any) {
+    super(
+      `No recorded response for ${method} ${path}${
+        body !== undefined ? ` with body ${JSON.stringify(body)}` : ''
+      }`,
+    );
+    this.name = 'UnrecordedRequestError';
+  }
+}
+
+/**
+ * @description Thrown when an operation envelope is malformed, of an unsupported version, or
+ *   meant for another chain
+ * @class InvalidEnvelopeError
+ * @param {string} message The reason the envelope is invalid
+ */
+export class InvalidEnvelopeError extends SotezError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidEnvelopeError';
+  }
+}
+
+/**
+ * @description Thrown when a signed envelope is injected after the last level its branch is valid
+ * @class EnvelopeExpiredError
+ * @param {number} expiresAt The last level at which the operation can be included
+ * @param {number} level The level of the current head
+ */
+export class EnvelopeExpiredError extends SotezError {
+  constructor(public expiresAt: number, public level: number) {
+    super(
+      `The operation expired at level ${expiresAt}, the head is at ${level}`,
+    );
+    this.name = 'EnvelopeExpiredError';
+  }
+}
+
+/**
+ * @description Thrown when the signature of an envelope was not made by the key of its source
+ * @class InvalidSignatureError
+ * @param {string} source The source of the operation
+ */
+export class InvalidSignatureError extends SotezError {
+  constructor(public source: string) {
+    super(`The signature does not match the public key of ${source}`);
+    this.name = 'InvalidSignatureError';
+  }
+}
+
+/**
+ * @description Thrown before signing when the fees of an operation exceed the maximum of a capped
+ *   fee strategy
+ * @class FeeCapExceededError
+ * @param {number} max The maximum fee, in mutez
+ * @param {string} fee The fees of the operation, in mutez
+ */
+export class FeeCapExceededError extends SotezError {
+  constructor(public max: number, public fee: string) {
+    super(`The fees of ${fee} mutez exceed the maximum of ${max} mutez`);
+    this.name = 'FeeCapExceededError';
+  }
+}
+
+export interface RpcErrorObject {
+  kind: string;
+  id: string;
+  contract?: string;
+  contract_handle?: string;
+  location?: number;
+  [key: string]: any;
+}
+
+/**
+ * @description Thrown when a node answers a request with an error which is not a list of
+ *   protocol errors
+ * @class RpcError
+ * @param {*} body The body of the response
+ * @param {number} [status] The http status of the response
+ */
+export class RpcError extends SotezError {
+  constructor(public body: any, public status?: number) {
+    super(
+      `RPC request failed${status ? ` with status ${status}` : ''}: ${
+        typeof body === 'string' ? body : JSON.stringify(body)
+      }`,
+    );
+    this.name = 'RpcError';
+  }
+}
+
+/**
+ * @description Thrown when a node rejects a request or an operation with a list of protocol errors.
+ *   The most relevant error of the list determines the class of the thrown error.
+ * @class TezosRpcError
+ * @param {Object} error The most relevant error of the list
+ * @param {Array} [errors] The full list of errors returned by the node
+ * @param {number} [status] The http status of the response
+ */
+export class TezosRpcError extends SotezError {
+  id: string;
+
+  kind: string;
+
+  contract?: string;
+
+  location?: number;
+
+  errors: RpcErrorObject[];
+
+  status?: number;
+
+  constructor(
+    error: RpcErrorObject,
+    errors: RpcErrorObject[] = [error],
+    status?: number,
+  ) {
+    super(`Tezos RPC error: ${error.id}`);
+    this.name = 'TezosRpcError';
+    this.id = error.id;
+    this.kind = error.kind;
+    this.contract = error.contract ?? error.contract_handle;
+    this.location = error.location;
+    this.errors = errors;
+    this.status = status;
+  }
+
+  /**
+   * @description The error id without its protocol prefix, ie. 'contract.balance_too_low'
+   * @returns {string} The error id
+   */
+  get shortId(): string {
+    return shortErrorId(this.id);
+  }
+}
+
+/**
+ * @description The counter of the operation has already been used
+ * @class CounterInThePastError
+ */
+export class CounterInThePastError extends TezosRpcError {
+  expected: string;
+
+  found: string;
+
+  constructor(
+    error: RpcErrorObject,
+    errors?: RpcErrorObject[],
+    status?: number,
+  ) {
+    super(error, errors, status);
+    this.name = 'CounterInThePastError';
+    this.expected = error.expected;
+    this.found = error.found;
+  }
+}
+
+/**
+ * @description The counter of the operation is ahead of the counter of the contract
+ * @class CounterInTheFutureError
+ */
+export class CounterInTheFutureError extends TezosRpcError {
+  expected: string;
+
+  found: string;
+
+  constructor(
+    error: RpcErrorObject,
+    errors?: RpcErrorObject[],
+    status?: number,
+  ) {
+    super(error, errors, status);
+    this.name = 'CounterInTheFutureError';
+    this.expected = error.expected;
+    this.found = error.found;
+  }
+}
+
+/**
+ * @description The balance of the contract is too low to cover the operation
+ * @class BalanceTooLowError
+ */
+export class BalanceTooLowError extends TezosRpcError {
+  balance: string;
+
+  amount: string;
+
+  constructor(
+    error: RpcErrorObject,
+    errors?: RpcErrorObject[],
+    status?: number,
+  ) {
+    super(error, errors, status);
+    this.name = 'BalanceTooLowError';
+    this.balance = error.balance;
+    this.amount = error.amount;
+  }
+}
+
+/**
+ * @description A script called by the operation reached a FAILWITH instruction
+ * @class ScriptRejectedError
+ */
+export class ScriptRejectedError extends TezosRpcError {
+  with: any;
+
+  value: any;
+
+  constructor(
+    error: RpcErrorObject,
+    errors?: RpcErrorObject[],
+    status?: number,
+  ) {
+    super(error, errors, status);
+    this.name = 'ScriptRejectedError';
+    this.with = error.with;
+    this.value = error.with ? mic2arr(error.with) : undefined;
+
+    // The rejecting contract is reported by the runtime error preceding the rejection
+    if (!this.contract && errors) {
+      const runtimeError = errors.find(
+        ({ contract_handle }) => contract_handle,
+      );
+      this.contract = runtimeError?.contract_handle;
+    }
+  }
+}
+
+/**
+ * @description The operation or the block ran out of gas
+ * @class GasExhaustedError
+ */
+export class GasExhaustedError extends TezosRpcError {
+  constructor(
+    error: RpcErrorObject,
+    errors?: RpcErrorObject[],
+    status?: number,
+  ) {
+    super(error, errors, status);
+    this.name = 'GasExhaustedError';
+  }
+}
+
+/**
+ * @description The public key of the source has not been revealed
+ * @class UnrevealedKeyError
+ */
+export class UnrevealedKeyError extends TezosRpcError {
+  constructor(
+    error: RpcErrorObject,
+    errors?: RpcErrorObject[],
+    status?: number,
+  ) {
+    super(error, errors, status);
+    this.name = 'UnrevealedKeyError';
+  }
+}
+
+const rpcErrorClasses: {
+  [key: string]: new (
+    error: RpcErrorObject,
+    errors?: RpcErrorObject[],
+    status?: number,
+  ) => TezosRpcError;
+} = {
+  'contract.counter_in_the_past': CounterInThePastError,
+  'contract.counter_in_the_future': CounterInTheFutureError,
+  'contract.balance_too_low': BalanceTooLowError,
+  'michelson_v1.script_rejected': ScriptRejectedError,
+  'gas_exhausted.operation': GasExhaustedError,
+  'gas_exhausted.block': GasExhaustedError,
+  'contract.unrevealed_key': UnrevealedKeyError,
+};
+
+/**
+ * @description Strips the protocol prefix of an error id
+ * @param {string} id The error id, ie. 'proto.009-PsFLoren.contract.balance_too_low'
+ * @returns {string} The error id without its protocol prefix
+ */
+export const shortErrorId = (id = ''): string =>
+  id.replace(/^proto\.[^.]+\./, '');
+
+const isRpcErrorList = (body: any): body is RpcErrorObject[] =>
+  Array.isArray(body) &&
+  body.length > 0 &&
+  body.every((error) => error && typeof error.id === 'string');
+
+/**
+ * @description Converts the errors returned by a node into a typed error
+ * @param {*} body The list of errors, or the body of a failed response
+ * @param {number} [status] The http status of the response
+ * @returns {Object} The typed error
+ * @example
+ * try {
+ *   await sotez.transfer({ to: 'tz1...', amount: 1 });
+ * } catch (e) {
+ *   if (e instanceof BalanceTooLowError) {
+ *     console.log(e.balance, e.amount);
+ *   }
+ * }
+ */
+export const parseRpcError = (
+  body: any,
+  status?: number,
+): TezosRpcError | RpcError => {
+  if (!isRpcErrorList(body)) {
+    return new RpcError(body, status);
+  }
+
+  const known = body.find(({ id }) => rpcErrorClasses[shortErrorId(id)]);
+
+  if (known) {
+    const ErrorClass = rpcErrorClasses[shortErrorId(known.id)];
+    return new ErrorClass(known, body, status);
+  }
+
+  return new TezosRpcError(body[0], body, status);
+};
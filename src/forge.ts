@@ -1,6 +1,60 @@
 import { BigNumber } from 'bignumber.js';
-import { buf2hex, b58cdecode, textDecode, textEncode } from './utility';
-import { prefix, forgeMappings, protocols } from './constants';
+import {
+  buf2hex,
+  b58cdecode,
+  b58cencode,
+  hex2buf,
+  textDecode,
+  textEncode,
+} from './utility';
+import { prefix } from './constants';
+import {
+  BytesReader,
+  Micheline,
+  decodeAddress,
+  decodeBool,
+  decodeDynamic,
+  decodeInt16,
+  decodeInt32,
+  decodeMicheline,
+  decodePublicKey,
+  decodePublicKeyHash,
+  decodeSignature,
+  decodeSignedZarith,
+  decodeZarith,
+  micheline,
+  signature,
+  signedZarith,
+  toBytesInt32,
+  toBytesInt32Hex,
+  toBytesInt16,
+  toBytesInt16Hex,
+  bool,
+  script,
+  publicKeyHash,
+  address,
+  zarith,
+  publicKey,
+  decodeRawBytes,
+  encodeRawBytes,
+} from './encoding';
+import { getProtocol } from './protocols';
+
+export {
+  toBytesInt32,
+  toBytesInt32Hex,
+  toBytesInt16,
+  toBytesInt16Hex,
+  bool,
+  script,
+  publicKeyHash,
+  address,
+  zarith,
+  signedZarith,
+  publicKey,
+  decodeRawBytes,
+  encodeRawBytes,
+};
 
 interface ConstructedOperation {
   kind: string;
@@ -28,6 +82,43 @@ interface ConstructedOperation {
   script: { code: Micheline; storage: Micheline };
   manager_pubkey: string;
   managerPubkey: string;
+  proposals: string[];
+  slot: number;
+  endorsement: InlinedEndorsement;
+  op1: InlinedEndorsement;
+  op2: InlinedEndorsement;
+  bh1: BlockHeader;
+  bh2: BlockHeader;
+  value: Micheline;
+  limit?: string;
+  ticket_contents: Micheline;
+  ticket_ty: Micheline;
+  ticket_ticketer: string;
+  ticket_amount: string;
+  entrypoint: string;
+  pk: string;
+  consensus_key: string;
+}
+
+interface InlinedEndorsement {
+  branch: string;
+  operations: { kind: 'endorsement'; level: number };
+  signature?: string;
+}
+
+interface BlockHeader {
+  level: number;
+  proto: number;
+  predecessor: string;
+  timestamp: string;
+  validation_pass: number;
+  operations_hash: string;
+  fitness: string[];
+  context: string;
+  priority: number;
+  proof_of_work_nonce: string;
+  seed_nonce_hash?: string;
+  signature: string;
 }
 
 interface OperationObject {
@@ -43,346 +134,14 @@ interface ForgedBytes {
   counter: number;
 }
 
-type Micheline =
-  | {
-      entrypoint: string;
-      value:
-        | {
-            prim: string;
-            args?: MichelineArray;
-            annots?: string[];
-          }
-        | { bytes: string }
-        | { int: string }
-        | { string: string }
-        | { address: string }
-        | { contract: string }
-        | { key: string }
-        | { key_hash: string }
-        | { signature: string }
-        | MichelineArray;
-    }
-  | {
-      prim: string;
-      args?: MichelineArray;
-      annots?: string[];
-    }
-  | { bytes: string }
-  | { int: string }
-  | { string: string }
-  | { address: string }
-  | { contract: string }
-  | { key: string }
-  | { key_hash: string }
-  | { signature: string }
-  | MichelineArray;
-
-type MichelineArray = Array<Micheline>;
-
-const opTag001 = (opKind: string): any =>
-  new Uint8Array([forgeMappings.forgeOpTags['001'][opKind]]);
-
-const opTag005 = (opKind: string): any =>
-  new Uint8Array([forgeMappings.forgeOpTags['005'][opKind]]);
-
-const opTag009 = (opKind: string): any =>
-  new Uint8Array([forgeMappings.forgeOpTags['009'][opKind]]);
-
-const protocolOpTagMap = {
-  [protocols['001']]: opTag001,
-  [protocols['002']]: opTag001,
-  [protocols['003']]: opTag001,
-  [protocols['004']]: opTag001,
-  [protocols['005a']]: opTag005,
-  [protocols['005']]: opTag005,
-  [protocols['006']]: opTag005,
-  [protocols['007a']]: opTag005,
-  [protocols['007']]: opTag005,
-  [protocols['008a']]: opTag005,
-  [protocols['008']]: opTag005,
-  [protocols['009']]: opTag009,
-};
-
-const origination001 = (
-  o: ConstructedOperation,
-  forgedOp: string[],
-): string => {
-  forgedOp.push(publicKeyHash(o.manager_pubkey));
-  forgedOp.push(zarith(o.balance));
-  forgedOp.push(bool(o.spendable));
-  forgedOp.push(bool(o.delegatable));
-  if (o.delegate) {
-    forgedOp.push(bool(true));
-    forgedOp.push(publicKeyHash(o.delegate));
-  } else {
-    forgedOp.push(bool(false));
-  }
-  if (o.script) {
-    forgedOp.push(bool(true));
-    forgedOp.push(script(o.script));
-  } else {
-    forgedOp.push(bool(false));
-  }
-  return forgedOp.join('');
-};
-
-const origination005 = (
-  o: ConstructedOperation,
-  forgedOp: string[],
-): string => {
-  forgedOp.push(zarith(o.balance));
-  if (o.delegate) {
-    forgedOp.push(bool(true));
-    forgedOp.push(publicKeyHash(o.delegate));
-  } else {
-    forgedOp.push(bool(false));
-  }
-  forgedOp.push(script(o.script));
-  return forgedOp.join('');
-};
-
-const protocolOriginationMap = {
-  [protocols['001']]: origination001,
-  [protocols['002']]: origination001,
-  [protocols['003']]: origination001,
-  [protocols['004']]: origination001,
-  [protocols['005a']]: origination005,
-  [protocols['005']]: origination005,
-  [protocols['006']]: origination005,
-  [protocols['007a']]: origination005,
-  [protocols['007']]: origination005,
-  [protocols['008a']]: origination005,
-  [protocols['008']]: origination005,
-};
-
-/**
- * @description Convert bytes from Int32
- * @param {number} num Number to convert to bytes
- * @returns {Object} The converted number
- */
-export const toBytesInt32 = (num: number): any => {
-  // @ts-ignore
-  num = parseInt(num, 10);
-  const arr = new Uint8Array([
-    (num & 0xff000000) >> 24,
-    (num & 0x00ff0000) >> 16,
-    (num & 0x0000ff00) >> 8,
-    num & 0x000000ff,
-  ]);
-  return arr.buffer;
-};
-
-/**
- * @description Convert hex from Int32
- * @param {number} num Number to convert to hex
- * @returns {string} The converted number
- */
-export const toBytesInt32Hex = (num: number): string => {
-  const forgedBuffer = new Uint8Array(toBytesInt32(num));
-  return buf2hex(forgedBuffer);
-};
-
-/**
- * @description Convert bytes from Int16
- * @param {number} num Number to convert to bytes
- * @returns {Object} The converted number
- */
-export const toBytesInt16 = (num: number): any => {
-  // @ts-ignore
-  num = parseInt(num, 10);
-  const arr = new Uint8Array([(num & 0xff00) >> 8, num & 0x00ff]);
-  return arr.buffer;
-};
-
-/**
- * @description Convert hex from Int16
- * @param {number} num Number to convert to hex
- * @returns {string} The converted number
- */
-export const toBytesInt16Hex = (num: number): string => {
-  const forgedBuffer = new Uint8Array(toBytesInt16(num));
-  return buf2hex(forgedBuffer);
-};
-
-/**
- * @description Forge boolean
- * @param {boolean} boolArg Boolean value to convert
- * @returns {string} The converted boolean
- */
-export const bool = (boolArg: boolean): string => (boolArg ? 'ff' : '00');
-
-/**
- * @description Forge script bytes
- * @param {Object} scriptArg Script to forge
- * @param {string} scriptArg.code Script code
- * @param {string} scriptArg.storage Script storage
- * @returns {string} Forged script bytes
- */
-export const script = (scriptArg: {
-  code: Micheline;
-  storage: Micheline;
-}): string => {
-  const t1 = encodeRawBytes(scriptArg.code).toLowerCase();
-  const t2 = encodeRawBytes(scriptArg.storage).toLowerCase();
-  return (
-    toBytesInt32Hex(t1.length / 2) + t1 + toBytesInt32Hex(t2.length / 2) + t2
-  );
-};
-
 /**
  * @description Forge parameter bytes
  * @param {string} parameter Script to forge
  * @param {string} protocol The current block protocol
  * @returns {string} Forged parameter bytes
  */
-export const parameters = (parameter: any, protocol: string): string => {
-  const parameters001 = (parameterArg: any): string => {
-    const fp: string[] = [];
-    fp.push(bool(true));
-    const t = encodeRawBytes(parameterArg).toLowerCase();
-    fp.push(toBytesInt32Hex(t.length / 2) + t);
-    return fp.join('');
-  };
-
-  const parameters005 = (parameterArg: any): string => {
-    const fp: string[] = [];
-    const isDefaultParameter = parameterArg.entrypoint === 'default';
-    fp.push(isDefaultParameter ? '00' : 'FF');
-
-    if (!isDefaultParameter) {
-      const parameterBytes = encodeRawBytes(parameterArg.value).toLowerCase();
-
-      if (forgeMappings.entrypointMappingReverse[parameterArg.entrypoint]) {
-        fp.push(
-          forgeMappings.entrypointMappingReverse[parameterArg.entrypoint],
-        );
-      } else {
-        const stringBytes = encodeRawBytes({
-          string: parameterArg.entrypoint,
-        }).toLowerCase();
-        fp.push('FF');
-        fp.push(stringBytes.slice(8));
-      }
-
-      fp.push((parameterBytes.length / 2).toString(16).padStart(8, '0'));
-      fp.push(parameterBytes);
-    }
-
-    return fp.join('');
-  };
-
-  const protocolMap = {
-    [protocols['001']]: parameters001,
-    [protocols['002']]: parameters001,
-    [protocols['003']]: parameters001,
-    [protocols['004']]: parameters001,
-    [protocols['005a']]: parameters005,
-    [protocols['005']]: parameters005,
-    [protocols['006']]: parameters005,
-    [protocols['007a']]: parameters005,
-    [protocols['007']]: parameters005,
-    [protocols['008a']]: parameters005,
-    [protocols['008']]: parameters005,
-    [protocols['009']]: parameters005,
-  };
-
-  if (!protocolMap[protocol]) {
-    throw new Error(`Unrecognized protocol: ${protocol}`);
-  }
-
-  return protocolMap[protocol](parameter);
-};
-
-/**
- * @description Forge public key hash bytes
- * @param {string} pkh Public key hash to forge
- * @returns {string} Forged public key hash bytes
- */
-export const publicKeyHash = (pkh: string): string => {
-  const t = parseInt(pkh.substr(2, 1), 10);
-  const fpkh = [`0${t - 1}`];
-  const forgedBuffer = new Uint8Array(
-    b58cdecode(pkh, prefix[pkh.substring(0, 3)]),
-  );
-  fpkh.push(buf2hex(forgedBuffer));
-  return fpkh.join('');
-};
-
-/**
- * @description Forge address bytes
- * @param {string} addressArg Address to forge
- * @returns {string} Forged address bytes
- */
-export const address = (addressArg: string): string => {
-  const fa: string[] = [];
-
-  if (addressArg.substring(0, 1) === 'K') {
-    fa.push('01');
-    const forgedBuffer = new Uint8Array(b58cdecode(addressArg, prefix.KT));
-    fa.push(buf2hex(forgedBuffer));
-    fa.push('00');
-  } else {
-    fa.push('00');
-    fa.push(publicKeyHash(addressArg));
-  }
-  return fa.join('');
-};
-
-/**
- * @description Forge zarith bytes
- * @param {number} n Zarith to forge
- * @returns {string} Forged zarith bytes
- */
-export const zarith = (n: string): string => {
-  const fn: string[] = [];
-  let nn = new BigNumber(n, 10);
-  if (nn.isNaN()) {
-    throw new TypeError(`Error forging zarith ${n}`);
-  }
-  // eslint-disable-next-line no-constant-condition
-  while (true) {
-    if (nn.lt(128)) {
-      if (nn.lt(16)) fn.push('0');
-      fn.push(nn.toString(16));
-      break;
-    } else {
-      let b = nn.mod(128);
-      nn = nn.minus(b);
-      nn = nn.dividedBy(128);
-      b = b.plus(128);
-      fn.push(b.toString(16));
-    }
-  }
-  return fn.join('');
-};
-
-/**
- * @description Forge public key bytes
- * @param {number} pk Public key to forge
- * @returns {string} Forged public key bytes
- */
-export const publicKey = (pk: string): string => {
-  const fpk: string[] = [];
-  const keyPrefix = pk.substring(0, 2);
-
-  if (keyPrefix === 'ed') {
-    fpk.push('00');
-  }
-
-  if (keyPrefix === 'sp') {
-    fpk.push('01');
-  }
-
-  if (keyPrefix === 'p2') {
-    fpk.push('02');
-  }
-
-  const forgedBuffer = new Uint8Array(
-    b58cdecode(pk, prefix[pk.substring(0, 4)]),
-  );
-  fpk.push(buf2hex(forgedBuffer));
-  return fpk.join('');
-};
+export const parameters = (parameter: any, protocol: string): string =>
+  getProtocol(protocol).codecs.parameters.forge(parameter);
 
 /**
  * @description Forge operation bytes
@@ -391,28 +150,30 @@ export const publicKey = (pk: string): string => {
  * @returns {string} Forged operation bytes
  */
 export const op = (opArg: ConstructedOperation, protocol: string): string => {
-  if (!protocolOpTagMap[protocol]) {
-    throw new Error(`Unrecognized protocol: ${protocol}`);
+  const tag = getProtocol(protocol).opTags[opArg.kind];
+
+  if (tag === undefined) {
+    throw new Error(`Unsupported operation kind: ${opArg.kind}`);
   }
 
   const fop: string[] = [];
 
-  const forgedBuffer = protocolOpTagMap[protocol](opArg.kind);
-
-  fop.push(buf2hex(forgedBuffer));
+  fop.push(buf2hex(new Uint8Array([tag])));
 
   if (opArg.kind === 'endorsement') {
     fop.push(endorsement(opArg));
+  } else if (opArg.kind === 'endorsement_with_slot') {
+    fop.push(endorsementWithSlot(opArg));
   } else if (opArg.kind === 'seed_nonce_revelation') {
     fop.push(seedNonceRevelation(opArg));
   } else if (opArg.kind === 'double_endorsement_evidence') {
-    fop.push(doubleEndorsementEvidence());
+    fop.push(doubleEndorsementEvidence(opArg, protocol));
   } else if (opArg.kind === 'double_baking_evidence') {
-    fop.push(doubleBakingEvidence());
+    fop.push(doubleBakingEvidence(opArg));
   } else if (opArg.kind === 'activate_account') {
     fop.push(activateAccount(opArg));
   } else if (opArg.kind === 'proposals') {
-    fop.push(proposals());
+    fop.push(proposals(opArg));
   } else if (opArg.kind === 'ballot') {
     fop.push(ballot(opArg));
   } else if (opArg.kind === 'reveal') {
@@ -423,6 +184,18 @@ export const op = (opArg: ConstructedOperation, protocol: string): string => {
     fop.push(origination(opArg, protocol));
   } else if (opArg.kind === 'delegation') {
     fop.push(delegation(opArg));
+  } else if (opArg.kind === 'register_global_constant') {
+    fop.push(registerGlobalConstant(opArg));
+  } else if (opArg.kind === 'set_deposits_limit') {
+    fop.push(setDepositsLimit(opArg));
+  } else if (opArg.kind === 'increase_paid_storage') {
+    fop.push(increasePaidStorage(opArg));
+  } else if (opArg.kind === 'transfer_ticket') {
+    fop.push(transferTicket(opArg));
+  } else if (opArg.kind === 'update_consensus_key') {
+    fop.push(updateConsensusKey(opArg));
+  } else if (opArg.kind === 'drain_delegate') {
+    fop.push(drainDelegate(opArg));
   }
 
   return fop.join('');
@@ -453,23 +226,109 @@ export const seedNonceRevelation = (opArg: ConstructedOperation): string => {
   return fop.join('');
 };
 
-// eslint-disable-next-line jsdoc/require-returns-check
+/**
+ * @description Forge inlined endorsement bytes, prefixed with their length
+ * @param {Object} inlined The inlined endorsement
+ * @returns {string} Forged inlined endorsement bytes
+ */
+export const inlinedEndorsement = (inlined: InlinedEndorsement): string => {
+  const fop: string[] = [];
+
+  fop.push(buf2hex(new Uint8Array(b58cdecode(inlined.branch, prefix.b))));
+  fop.push('00');
+  fop.push(toBytesInt32Hex(inlined.operations.level));
+
+  if (inlined.signature) {
+    fop.push(signature(inlined.signature));
+  }
+
+  const bytes = fop.join('');
+  return toBytesInt32Hex(bytes.length / 2) + bytes;
+};
+
+/**
+ * @description Forge block header bytes, prefixed with their length
+ * @param {Object} header The block header
+ * @returns {string} Forged block header bytes
+ */
+export const blockHeader = (header: BlockHeader): string => {
+  const fop: string[] = [];
+
+  fop.push(toBytesInt32Hex(header.level));
+  fop.push(header.proto.toString(16).padStart(2, '0'));
+  fop.push(buf2hex(new Uint8Array(b58cdecode(header.predecessor, prefix.b))));
+  fop.push(
+    new BigNumber(Date.parse(header.timestamp) / 1000)
+      .toString(16)
+      .padStart(16, '0'),
+  );
+  fop.push(header.validation_pass.toString(16).padStart(2, '0'));
+  fop.push(
+    buf2hex(new Uint8Array(b58cdecode(header.operations_hash, prefix.LLo))),
+  );
+
+  const fitness = header.fitness
+    .map((part) => toBytesInt32Hex(part.length / 2) + part)
+    .join('');
+  fop.push(toBytesInt32Hex(fitness.length / 2) + fitness);
+
+  fop.push(buf2hex(new Uint8Array(b58cdecode(header.context, prefix.Co))));
+  fop.push(toBytesInt16Hex(header.priority));
+  fop.push(header.proof_of_work_nonce);
+
+  if (header.seed_nonce_hash) {
+    fop.push(bool(true));
+    fop.push(
+      buf2hex(new Uint8Array(b58cdecode(header.seed_nonce_hash, prefix.nce))),
+    );
+  } else {
+    fop.push(bool(false));
+  }
+
+  fop.push(signature(header.signature));
+
+  const bytes = fop.join('');
+  return toBytesInt32Hex(bytes.length / 2) + bytes;
+};
+
+/**
+ * @description Forge endorsement_with_slot operation bytes
+ * @param {Object} opArg Operation to forge
+ * @returns {string} Forged operation bytes
+ */
+export const endorsementWithSlot = (opArg: ConstructedOperation): string =>
+  inlinedEndorsement(opArg.endorsement) + toBytesInt16Hex(opArg.slot);
+
 /**
  * @description Forge double_endorsement_evidence operation bytes
+ * @param {Object} opArg Operation to forge
+ * @param {string} protocol Current protocol
  * @returns {string} Forged operation bytes
  */
-export const doubleEndorsementEvidence = (): string => {
-  throw new Error('Double endorse forging is not complete');
+export const doubleEndorsementEvidence = (
+  opArg: ConstructedOperation,
+  protocol: string,
+): string => {
+  const fop: string[] = [];
+
+  fop.push(inlinedEndorsement(opArg.op1));
+  fop.push(inlinedEndorsement(opArg.op2));
+
+  // The slot is only part of the evidence since endorsements have slots
+  if (getProtocol(protocol).opTags.endorsement_with_slot !== undefined) {
+    fop.push(toBytesInt16Hex(opArg.slot));
+  }
+
+  return fop.join('');
 };
 
-// eslint-disable-next-line jsdoc/require-returns-check
 /**
  * @description Forge double_baking_evidence operation bytes
+ * @param {Object} opArg Operation to forge
  * @returns {string} Forged operation bytes
  */
-export const doubleBakingEvidence = (): string => {
-  throw new Error('Double bake forging is not complete');
-};
+export const doubleBakingEvidence = (opArg: ConstructedOperation): string =>
+  blockHeader(opArg.bh1) + blockHeader(opArg.bh2);
 
 /**
  * @description Forge activate_account operation bytes
@@ -486,13 +345,23 @@ export const activateAccount = (opArg: ConstructedOperation): string => {
   return fop.join('');
 };
 
-// eslint-disable-next-line jsdoc/require-returns-check
 /**
  * @description Forge proposals operation bytes
+ * @param {Object} opArg Operation to forge
  * @returns {string} Forged operation bytes
  */
-export const proposals = (): string => {
-  throw new Error('Proposal forging is not complete');
+export const proposals = (opArg: ConstructedOperation): string => {
+  const fop: string[] = [];
+
+  fop.push(publicKeyHash(opArg.source));
+  fop.push(toBytesInt32Hex(opArg.period));
+
+  const forgedProposals = opArg.proposals
+    .map((proposal) => buf2hex(new Uint8Array(b58cdecode(proposal, prefix.P))))
+    .join('');
+  fop.push(toBytesInt32Hex(forgedProposals.length / 2) + forgedProposals);
+
+  return fop.join('');
 };
 
 /**
@@ -586,7 +455,7 @@ export const origination = (
   fop.push(zarith(opArg.gas_limit));
   fop.push(zarith(opArg.storage_limit));
 
-  return protocolOriginationMap[protocol](opArg, fop);
+  return getProtocol(protocol).codecs.origination.forge(opArg, fop);
 };
 
 /**
@@ -613,6 +482,130 @@ export const delegation = (opArg: ConstructedOperation): string => {
   return fop.join('');
 };
 
+/**
+ * @description Forge register_global_constant operation bytes
+ * @param {Object} opArg Operation to forge
+ * @returns {string} Forged operation bytes
+ */
+export const registerGlobalConstant = (opArg: ConstructedOperation): string => {
+  const fop: string[] = [];
+
+  fop.push(publicKeyHash(opArg.source));
+  fop.push(zarith(opArg.fee));
+  fop.push(zarith(opArg.counter));
+  fop.push(zarith(opArg.gas_limit));
+  fop.push(zarith(opArg.storage_limit));
+  fop.push(micheline(opArg.value));
+
+  return fop.join('');
+};
+
+/**
+ * @description Forge set_deposits_limit operation bytes
+ * @param {Object} opArg Operation to forge
+ * @returns {string} Forged operation bytes
+ */
+export const setDepositsLimit = (opArg: ConstructedOperation): string => {
+  const fop: string[] = [];
+
+  fop.push(publicKeyHash(opArg.source));
+  fop.push(zarith(opArg.fee));
+  fop.push(zarith(opArg.counter));
+  fop.push(zarith(opArg.gas_limit));
+  fop.push(zarith(opArg.storage_limit));
+
+  if (opArg.limit !== undefined) {
+    fop.push(bool(true));
+    fop.push(zarith(opArg.limit));
+  } else {
+    fop.push(bool(false));
+  }
+
+  return fop.join('');
+};
+
+/**
+ * @description Forge increase_paid_storage operation bytes
+ * @param {Object} opArg Operation to forge
+ * @returns {string} Forged operation bytes
+ */
+export const increasePaidStorage = (opArg: ConstructedOperation): string => {
+  const fop: string[] = [];
+
+  fop.push(publicKeyHash(opArg.source));
+  fop.push(zarith(opArg.fee));
+  fop.push(zarith(opArg.counter));
+  fop.push(zarith(opArg.gas_limit));
+  fop.push(zarith(opArg.storage_limit));
+  fop.push(signedZarith(opArg.amount));
+  if (opArg.destination.substring(0, 3) !== 'KT1') {
+    throw new Error(
+      `Invalid increase_paid_storage destination: ${opArg.destination}`,
+    );
+  }
+  fop.push(address(opArg.destination));
+
+  return fop.join('');
+};
+
+/**
+ * @description Forge transfer_ticket operation bytes
+ * @param {Object} opArg Operation to forge
+ * @returns {string} Forged operation bytes
+ */
+export const transferTicket = (opArg: ConstructedOperation): string => {
+  const fop: string[] = [];
+
+  fop.push(publicKeyHash(opArg.source));
+  fop.push(zarith(opArg.fee));
+  fop.push(zarith(opArg.counter));
+  fop.push(zarith(opArg.gas_limit));
+  fop.push(zarith(opArg.storage_limit));
+  fop.push(micheline(opArg.ticket_contents));
+  fop.push(micheline(opArg.ticket_ty));
+  fop.push(address(opArg.ticket_ticketer));
+  fop.push(zarith(opArg.ticket_amount));
+  fop.push(address(opArg.destination));
+
+  const entrypoint = buf2hex(textEncode(opArg.entrypoint));
+  fop.push(toBytesInt32Hex(entrypoint.length / 2) + entrypoint);
+
+  return fop.join('');
+};
+
+/**
+ * @description Forge update_consensus_key operation bytes
+ * @param {Object} opArg Operation to forge
+ * @returns {string} Forged operation bytes
+ */
+export const updateConsensusKey = (opArg: ConstructedOperation): string => {
+  const fop: string[] = [];
+
+  fop.push(publicKeyHash(opArg.source));
+  fop.push(zarith(opArg.fee));
+  fop.push(zarith(opArg.counter));
+  fop.push(zarith(opArg.gas_limit));
+  fop.push(zarith(opArg.storage_limit));
+  fop.push(publicKey(opArg.pk));
+
+  return fop.join('');
+};
+
+/**
+ * @description Forge drain_delegate operation bytes
+ * @param {Object} opArg Operation to forge
+ * @returns {string} Forged operation bytes
+ */
+export const drainDelegate = (opArg: ConstructedOperation): string => {
+  const fop: string[] = [];
+
+  fop.push(publicKeyHash(opArg.consensus_key));
+  fop.push(publicKeyHash(opArg.delegate));
+  fop.push(publicKeyHash(opArg.destination));
+
+  return fop.join('');
+};
+
 /**
  * @description Forge operation bytes
  * @param {Object} opOb The operation object(s)
@@ -661,228 +654,268 @@ export const forge = async (
   };
 };
 
-/**
- * @description Decode raw bytes
- * @param {string} bytes The bytes to decode
- * @returns {Object} Decoded raw bytes
- */
-export const decodeRawBytes = (bytes: string): Micheline => {
-  bytes = bytes.toUpperCase();
-
-  let index = 0;
-  const read = (len: number) => {
-    const readBytes = bytes.slice(index, index + len);
-    index += len;
-    return readBytes;
-  };
-
-  const rec = (): any => {
-    const b = read(2);
-    const prim = forgeMappings.primMapping[b];
-
-    if (prim instanceof Object) {
-      const forgeOp = forgeMappings.opMapping[read(2)];
-      const args = [...Array(prim.len)];
-      const result: {
-        prim: string;
-        args?: (string | number | boolean)[];
-        annots?: string[];
-      } = {
-        prim: forgeOp,
-        args: args.map(() => rec()),
-        annots: undefined,
-      };
-      if (!prim.len) {
-        delete result.args;
+const unforgeManagerFields = (
+  reader: BytesReader,
+): Partial<ConstructedOperation> => ({
+  source: decodePublicKeyHash(reader),
+  fee: decodeZarith(reader),
+  counter: decodeZarith(reader),
+  gas_limit: decodeZarith(reader),
+  storage_limit: decodeZarith(reader),
+});
+
+const unforgeInlinedEndorsement = (reader: BytesReader): InlinedEndorsement => {
+  const inlined = decodeDynamic(reader);
+  const branch = b58cencode(hex2buf(inlined.read(32)), prefix.b);
+  inlined.read(1);
+  const level = decodeInt32(inlined);
+
+  return inlined.remaining > 0
+    ? {
+        branch,
+        operations: { kind: 'endorsement', level },
+        signature: decodeSignature(inlined),
       }
-      if (prim.annots) {
-        const annotsLen = parseInt(read(8), 16) * 2;
-        const stringHexLst = read(annotsLen).match(/[\dA-F]{2}/g);
-        if (stringHexLst) {
-          const stringBytes = new Uint8Array(
-            stringHexLst.map((x) => parseInt(x, 16)),
-          );
-          const stringResult = textDecode(stringBytes);
-          result.annots = stringResult.split(' ');
-        }
-      } else {
-        delete result.annots;
-      }
-      return result;
-    }
-
-    if (b === '0A') {
-      const len = read(8);
-      const intLen = parseInt(len, 16) * 2;
-      const data = read(intLen);
-      return { bytes: data };
-    }
-
-    if (b === '01') {
-      const len = read(8);
-      const intLen = parseInt(len, 16) * 2;
-      const data = read(intLen);
+    : { branch, operations: { kind: 'endorsement', level } };
+};
 
-      const matchResult = data.match(/[\dA-F]{2}/g);
-      if (matchResult instanceof Array) {
-        const stringRaw = new Uint8Array(
-          matchResult.map((x) => parseInt(x, 16)),
-        );
-        return { string: textDecode(stringRaw) };
-      }
+const unforgeBlockHeader = (reader: BytesReader): BlockHeader => {
+  const header = decodeDynamic(reader);
+  const level = decodeInt32(header);
+  const proto = parseInt(header.read(1), 16);
+  const predecessor = b58cencode(hex2buf(header.read(32)), prefix.b);
+  const timestamp = new Date(parseInt(header.read(8), 16) * 1000)
+    .toISOString()
+    .replace('.000Z', 'Z');
+  const validationPass = parseInt(header.read(1), 16);
+  const operationsHash = b58cencode(hex2buf(header.read(32)), prefix.LLo);
+  const fitnessReader = decodeDynamic(header);
+  const fitness: string[] = [];
+  while (fitnessReader.remaining > 0) {
+    fitness.push(decodeDynamic(fitnessReader).bytes);
+  }
+  const context = b58cencode(hex2buf(header.read(32)), prefix.Co);
+  const priority = decodeInt16(header);
+  const proofOfWorkNonce = header.read(8);
+  const seedNonceHash = decodeBool(header)
+    ? { seed_nonce_hash: b58cencode(hex2buf(header.read(32)), prefix.nce) }
+    : {};
 
-      throw new Error('Input bytes error');
-    }
+  return {
+    level,
+    proto,
+    predecessor,
+    timestamp,
+    validation_pass: validationPass,
+    operations_hash: operationsHash,
+    fitness,
+    context,
+    priority,
+    proof_of_work_nonce: proofOfWorkNonce,
+    ...seedNonceHash,
+    signature: decodeSignature(header),
+  };
+};
 
-    if (b === '00') {
-      const firstBytes = parseInt(read(2), 16).toString(2).padStart(8, '0');
-      // const isPositive = firstBytes[1] === '0';
-      const validBytes = [firstBytes.slice(2)];
-      let checknext = firstBytes[0] === '1';
+const BALLOTS: { [tag: string]: string } = {
+  '00': 'yay',
+  '01': 'nay',
+  '02': 'pass',
+};
 
-      while (checknext) {
-        const bytesCheck = parseInt(read(2), 16).toString(2).padStart(8, '0');
-        validBytes.push(bytesCheck.slice(1));
-        checknext = bytesCheck[0] === '1';
-      }
+const unforgeOperation = (
+  reader: BytesReader,
+  protocol: string,
+): Partial<ConstructedOperation> => {
+  const definition = getProtocol(protocol);
+  const tag = parseInt(reader.read(1), 16);
+  const kind = Object.keys(definition.opTags).find(
+    (key) => definition.opTags[key] === tag,
+  );
 
-      const num = new BigNumber(validBytes.reverse().join(''), 2);
-      return { int: num.toString() };
+  switch (kind) {
+    case 'endorsement':
+      return { kind, level: decodeInt32(reader) };
+    case 'endorsement_with_slot':
+      return {
+        kind,
+        endorsement: unforgeInlinedEndorsement(reader),
+        slot: decodeInt16(reader),
+      };
+    case 'double_endorsement_evidence': {
+      const op1 = unforgeInlinedEndorsement(reader);
+      const op2 = unforgeInlinedEndorsement(reader);
+      return definition.opTags.endorsement_with_slot !== undefined
+        ? { kind, op1, op2, slot: decodeInt16(reader) }
+        : { kind, op1, op2 };
     }
-
-    if (b === '02') {
-      const len = read(8);
-      const intLen = parseInt(len, 16) * 2;
-      // const data = read(intLen);
-      const limit = index + intLen;
-
-      const seqLst = [];
-      while (limit > index) {
-        seqLst.push(rec());
+    case 'double_baking_evidence':
+      return {
+        kind,
+        bh1: unforgeBlockHeader(reader),
+        bh2: unforgeBlockHeader(reader),
+      };
+    case 'seed_nonce_revelation':
+      return { kind, level: decodeInt32(reader), nonce: reader.read(32) };
+    case 'activate_account':
+      return {
+        kind,
+        pkh: b58cencode(hex2buf(reader.read(20)), prefix.tz1),
+        secret: reader.read(20),
+      };
+    case 'proposals': {
+      const source = decodePublicKeyHash(reader);
+      const period = decodeInt32(reader);
+      const proposalsReader = decodeDynamic(reader);
+      const proposalHashes: string[] = [];
+      while (proposalsReader.remaining > 0) {
+        proposalHashes.push(
+          b58cencode(hex2buf(proposalsReader.read(32)), prefix.P),
+        );
       }
-      return seqLst;
+      return { kind, source, period, proposals: proposalHashes };
     }
-    throw new Error(`Invalid raw bytes: Byte:${b} Index:${index}`);
-  };
-
-  return rec();
+    case 'ballot':
+      return {
+        kind,
+        source: decodePublicKeyHash(reader),
+        period: decodeInt32(reader),
+        proposal: b58cencode(hex2buf(reader.read(32)), prefix.P),
+        ballot: BALLOTS[reader.read(1)],
+      };
+    case 'reveal':
+      return {
+        kind,
+        ...unforgeManagerFields(reader),
+        public_key: decodePublicKey(reader),
+      };
+    case 'transaction': {
+      const fields = {
+        kind,
+        ...unforgeManagerFields(reader),
+        amount: decodeZarith(reader),
+        destination: decodeAddress(reader),
+      };
+      const parameterArg = definition.codecs.parameters.unforge(reader);
+      return parameterArg ? { ...fields, parameters: parameterArg } : fields;
+    }
+    case 'origination':
+      return {
+        kind,
+        ...unforgeManagerFields(reader),
+        ...definition.codecs.origination.unforge(reader),
+      };
+    case 'delegation':
+      return {
+        kind,
+        ...unforgeManagerFields(reader),
+        ...(decodeBool(reader)
+          ? { delegate: decodePublicKeyHash(reader) }
+          : {}),
+      };
+    case 'register_global_constant':
+      return {
+        kind,
+        ...unforgeManagerFields(reader),
+        value: decodeMicheline(reader),
+      };
+    case 'set_deposits_limit':
+      return {
+        kind,
+        ...unforgeManagerFields(reader),
+        ...(decodeBool(reader) ? { limit: decodeZarith(reader) } : {}),
+      };
+    case 'increase_paid_storage':
+      return {
+        kind,
+        ...unforgeManagerFields(reader),
+        amount: decodeSignedZarith(reader),
+        destination: decodeAddress(reader),
+      };
+    case 'transfer_ticket':
+      return {
+        kind,
+        ...unforgeManagerFields(reader),
+        ticket_contents: decodeMicheline(reader),
+        ticket_ty: decodeMicheline(reader),
+        ticket_ticketer: decodeAddress(reader),
+        ticket_amount: decodeZarith(reader),
+        destination: decodeAddress(reader),
+        entrypoint: textDecode(hex2buf(decodeDynamic(reader).bytes)),
+      };
+    case 'update_consensus_key':
+      return {
+        kind,
+        ...unforgeManagerFields(reader),
+        pk: decodePublicKey(reader),
+      };
+    case 'drain_delegate':
+      return {
+        kind,
+        consensus_key: decodePublicKeyHash(reader),
+        delegate: decodePublicKeyHash(reader),
+        destination: decodePublicKeyHash(reader),
+      };
+    default:
+      throw new Error(`Unsupported operation tag: ${tag}`);
+  }
 };
 
 /**
- * @description Encode raw bytes
- * @param {Object} input The value to encode
- * @returns {string} Encoded value as bytes
+ * @description Decode forged operation bytes back to an operation object. A trailing signature
+ *   is decoded when the bytes left after the contents are not an operation.
+ * @param {string} bytes The forged bytes, optionally followed by a signature
+ * @param {string} protocol The protocol the bytes were forged for
+ * @returns {Object} The operation object
+ * @example
+ * const { branch, contents, signature } = unforge(opbytes, protocols['009']);
  */
-export const encodeRawBytes = (input: Micheline): string => {
-  const rec = (inputArg: Micheline): string => {
-    const result: string[] = [];
-
-    if (inputArg instanceof Array) {
-      result.push('02');
-      const bytes = inputArg.map((x) => rec(x)).join('');
-      const len = bytes.length / 2;
-      result.push(len.toString(16).padStart(8, '0'));
-      result.push(bytes);
-    } else if (inputArg instanceof Object) {
-      if ('prim' in inputArg) {
-        if (inputArg.prim === 'LAMBDA') {
-          result.push('09');
-          result.push(forgeMappings.opMappingReverse[inputArg.prim]);
-          if (inputArg.args) {
-            const innerResult: string[] = [];
-            inputArg.args.forEach((arg) => {
-              innerResult.push(rec(arg));
-            });
-            const len = innerResult.join('').length / 2;
-            result.push(len.toString(16).padStart(8, '0'));
-            innerResult.forEach((x) => result.push(x));
-          }
-          const annotsBytes = inputArg.annots
-            ? inputArg.annots
-                .map((x) => buf2hex(new Uint8Array(textEncode(x))))
-                .join('20')
-            : '';
-          result.push((annotsBytes.length / 2).toString(16).padStart(8, '0'));
-          if (annotsBytes) {
-            result.push(annotsBytes);
-          }
-        } else {
-          const argsLen = inputArg.args ? inputArg.args.length : 0;
-          result.push(
-            forgeMappings.primMappingReverse[argsLen][`${!!inputArg.annots}`],
-          );
-          result.push(forgeMappings.opMappingReverse[inputArg.prim]);
-          if (inputArg.args) {
-            inputArg.args.forEach((arg: any) => result.push(rec(arg)));
-          }
-          if (inputArg.annots) {
-            const annotsBytes = inputArg.annots
-              .map((x: any) => {
-                const forgedBuffer = new Uint8Array(textEncode(x));
-                return buf2hex(forgedBuffer);
-              })
-              .join('20');
-            result.push((annotsBytes.length / 2).toString(16).padStart(8, '0'));
-            result.push(annotsBytes);
-          }
-        }
-      } else if ('bytes' in inputArg) {
-        const len = inputArg.bytes.length / 2;
-        result.push('0A');
-        result.push(len.toString(16).padStart(8, '0'));
-        result.push(inputArg.bytes);
-      } else if ('int' in inputArg) {
-        const num = new BigNumber(inputArg.int, 10);
-        const positiveMark = num.toString(2)[0] === '-' ? '1' : '0';
-        const binary = num.toString(2).replace('-', '');
-        const pad =
-          // eslint-disable-next-line no-nested-ternary
-          binary.length <= 6
-            ? 6
-            : (binary.length - 6) % 7
-            ? binary.length + 7 - ((binary.length - 6) % 7)
-            : binary.length;
-
-        const splitted = binary.padStart(pad, '0').match(/\d{6,7}/g) || [];
-        const reversed = splitted.reverse();
-
-        reversed[0] = positiveMark + reversed[0];
-
-        const numHex = reversed
-          .map((x: string, i: number) =>
-            parseInt((i === reversed.length - 1 ? '0' : '1') + x, 2)
-              .toString(16)
-              .padStart(2, '0'),
-          )
-          .join('');
-
-        result.push('00');
-        result.push(numHex);
-      } else if ('string' in inputArg) {
-        const stringBytes = textEncode(inputArg.string);
-        const stringHex = [].slice
-          .call(stringBytes)
-          .map((x: any) => x.toString(16).padStart(2, '0'))
-          .join('');
-        const len = stringBytes.length;
-        result.push('01');
-        result.push(len.toString(16).padStart(8, '0'));
-        result.push(stringHex);
+export const unforge = (bytes: string, protocol: string): OperationObject => {
+  const reader = new BytesReader(bytes);
+  const branch = b58cencode(hex2buf(reader.read(32)), prefix.b);
+  const contents: ConstructedOperation[] = [];
+  let sig: string | undefined;
+
+  // Checks whether the bytes are a sequence of operations
+  const isOperations = (opBytes: string): boolean => {
+    try {
+      const opReader = new BytesReader(opBytes);
+      while (opReader.remaining > 0) {
+        unforgeOperation(opReader, protocol);
       }
+      return true;
+    } catch (e) {
+      return false;
     }
-    return result.join('');
   };
 
-  return rec(input).toUpperCase();
+  while (reader.remaining > 0) {
+    if (reader.remaining === 64) {
+      const rest = reader.bytes.slice(reader.index);
+
+      if (!isOperations(rest)) {
+        sig = b58cencode(hex2buf(rest), prefix.sig);
+        break;
+      }
+    }
+
+    contents.push(unforgeOperation(reader, protocol) as ConstructedOperation);
+  }
+
+  return sig ? { branch, contents, signature: sig } : { branch, contents };
 };
 
 export default {
   address,
+  unforge,
   decodeRawBytes,
   encodeRawBytes,
   forge,
   op,
   endorsement,
+  endorsementWithSlot,
+  inlinedEndorsement,
+  blockHeader,
   seedNonceRevelation,
   doubleEndorsementEvidence,
   doubleBakingEvidence,
@@ -893,10 +926,17 @@ export default {
   transaction,
   origination,
   delegation,
+  registerGlobalConstant,
+  setDepositsLimit,
+  increasePaidStorage,
+  transferTicket,
+  updateConsensusKey,
+  drainDelegate,
   parameters,
   publicKey,
   publicKeyHash,
   zarith,
+  signedZarith,
   bool,
   script,
   toBytesInt32,
@@ -2,6 +2,148 @@ export { Sotez } from './sotez';
 
 export { Key } from './key';
 
+export { FetchTransport } from './transport';
+
+export type {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from './transport';
+
+export { ProviderPool } from './providerPool';
+
+export type {
+  PoolStrategy,
+  ProviderNode,
+  ProviderPoolOptions,
+} from './providerPool';
+
+export { Subscription, ndjsonParser } from './monitor';
+
+export type { MonitorOptions } from './monitor';
+
+export type {
+  MempoolClassification,
+  MempoolFilter,
+  MempoolOperationContent,
+  PendingOperation,
+  PendingOperations,
+} from './mempool';
+
+export { ConsoleLogger, silentLogger, redact } from './logger';
+
+export type { Logger, LogFields, LogLevel } from './logger';
+
+export { composeMiddleware } from './middleware';
+
+export type {
+  Middleware,
+  MiddlewareNext,
+  MiddlewareRequest,
+} from './middleware';
+
+export {
+  RecordingTransport,
+  ReplayTransport,
+  fixturePath,
+  normalizeBody,
+} from './replay';
+
+export type { Fixture } from './replay';
+
+export { signEnvelope, validateEnvelope, ENVELOPE_VERSION } from './envelope';
+
+export type { UnsignedEnvelope, SignedEnvelope } from './envelope';
+
+export {
+  DEFAULT_FEE_PARAMETERS,
+  minimalFee,
+  estimateFee,
+  operationFee,
+  parseFeeParameters,
+  feeStrategyName,
+} from './fees';
+
+export type {
+  FeeParameters,
+  FeeStrategy,
+  FeeCallback,
+  FeeEstimate,
+  FeeBreakdown,
+  OperationFee,
+} from './fees';
+
+export { MockNode } from './mockNode';
+
+export type { MockAccount, MockNodeOptions } from './mockNode';
+
+export { registerProtocol, getProtocol, isKnownProtocol } from './protocols';
+
+export type { ProtocolDefinition } from './protocols';
+
+export { LRUCache } from './cache';
+
+export type { Cache, CacheOptions } from './cache';
+
+export { CounterManager, MemoryCounterStore } from './counters';
+
+export type { CounterStore } from './counters';
+
+export {
+  parseReceipt,
+  parseOperationReceipt,
+  parseOperationResult,
+  parseBalanceUpdate,
+  parseBigMapDiff,
+} from './receipts';
+
+export type {
+  Receipt,
+  OperationReceipt,
+  OperationResult,
+  InternalOperationReceipt,
+  OperationStatus,
+  BalanceUpdate,
+  BigMapDiff,
+} from './receipts';
+
+export { OperationQueue, MemoryQueueStore } from './queue';
+
+export type {
+  JobState,
+  QueueJob,
+  QueueStore,
+  OperationQueueOptions,
+} from './queue';
+
+export { resolveBlock } from './tez-core';
+
+export type { BlockOptions, QueryOptions, RetryOptions } from './tez-core';
+
+export {
+  SotezError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  TransportError,
+  RpcError,
+  TezosRpcError,
+  CounterInThePastError,
+  CounterInTheFutureError,
+  BalanceTooLowError,
+  ScriptRejectedError,
+  GasExhaustedError,
+  UnrevealedKeyError,
+  UnrecordedRequestError,
+  InvalidEnvelopeError,
+  EnvelopeExpiredError,
+  InvalidSignatureError,
+  FeeCapExceededError,
+  parseRpcError,
+  shortErrorId,
+} from './errors';
+
+export type { RpcErrorObject } from './errors';
+
 export {
   default as cryptoUtils,
   extractKeys,
@@ -17,8 +159,12 @@ export {
   decodeRawBytes,
   encodeRawBytes,
   forge,
+  unforge,
   op,
   endorsement,
+  endorsementWithSlot,
+  inlinedEndorsement,
+  blockHeader,
   seedNonceRevelation,
   doubleEndorsementEvidence,
   doubleBakingEvidence,
@@ -29,10 +175,17 @@ export {
   transaction,
   origination,
   delegation,
+  registerGlobalConstant,
+  setDepositsLimit,
+  increasePaidStorage,
+  transferTicket,
+  updateConsensusKey,
+  drainDelegate,
   parameters,
   publicKey,
   publicKeyHash,
   zarith,
+  signedZarith,
   bool,
   script,
   toBytesInt32,
@@ -52,6 +205,7 @@ export {
   hex2buf,
   hexNonce,
   mergebuf,
+  operationHash,
   sexp2mic,
   mic2arr,
   ml2mic,
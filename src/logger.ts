@@ -0,0 +1,118 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogFields {
+  [key: string]: any;
+}
+
+/**
+ * @description The interface of the loggers receiving the activity of Sotez. Any implementation
+ *   (pino, winston, a JSON log pipeline) can be provided through the `logger` module option.
+ *   The fields are redacted before being passed to the logger.
+ */
+export interface Logger {
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+}
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+// Fields holding secret material or signed bytes
+const REDACTED_FIELDS = [
+  'sk',
+  'secretKey',
+  'seed',
+  'mnemonic',
+  'passphrase',
+  'password',
+  'secret',
+  'bytes',
+  'opbytes',
+  'sopbytes',
+  'sbytes',
+  'signature',
+  'sig',
+  'prefixSig',
+];
+
+const SECRET_KEY = /^(edsk|spsk|p2sk|edesk|spesk|p2esk)[1-9A-HJ-NP-Za-km-z]+$/;
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * @description Redacts the secret material and signed bytes of log fields
+ * @param {*} value The log fields, or any value within
+ * @returns {*} A copy of the value with the sensitive fields replaced
+ */
+export const redact = (value: any): any => {
+  if (typeof value === 'string') {
+    return SECRET_KEY.test(value) ? REDACTED : value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.keys(value).reduce(
+      (redacted, key) => ({
+        ...redacted,
+        [key]: REDACTED_FIELDS.includes(key) ? REDACTED : redact(value[key]),
+      }),
+      {},
+    );
+  }
+
+  return value;
+};
+
+/**
+ * @description A logger printing to the console, used when `debugMode` is enabled
+ * @param {string} [level='debug'] The minimum level to print
+ * @example
+ * const tezos = new Sotez('https://127.0.0.1:8732', 'main', {
+ *   logger: new ConsoleLogger('info'),
+ * });
+ */
+export class ConsoleLogger implements Logger {
+  constructor(public level: LogLevel = 'debug') {}
+
+  debug = (message: string, fields?: LogFields): void =>
+    this._log('debug', message, fields);
+
+  info = (message: string, fields?: LogFields): void =>
+    this._log('info', message, fields);
+
+  warn = (message: string, fields?: LogFields): void =>
+    this._log('warn', message, fields);
+
+  error = (message: string, fields?: LogFields): void =>
+    this._log('error', message, fields);
+
+  private _log = (
+    level: LogLevel,
+    message: string,
+    fields: LogFields = {},
+  ): void => {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.level)) {
+      return;
+    }
+
+    console[level === 'debug' ? 'log' : level](message, fields);
+  };
+}
+
+/**
+ * @description A logger discarding every message, used by default
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
@@ -0,0 +1,126 @@
+import {
+  RpcErrorObject,
+  TezosRpcError,
+  RpcError,
+  parseRpcError,
+} from './errors';
+
+export type MempoolClassification =
+  | 'applied'
+  | 'refused'
+  | 'outdated'
+  | 'branch_refused'
+  | 'branch_delayed'
+  | 'unprocessed';
+
+export interface MempoolOperationContent {
+  kind: string;
+  source?: string;
+  destination?: string;
+  fee?: string;
+  counter?: string;
+  gas_limit?: string;
+  storage_limit?: string;
+  amount?: string;
+  [key: string]: any;
+}
+
+export interface PendingOperation {
+  hash: string;
+  classification: MempoolClassification;
+  protocol?: string;
+  branch: string;
+  contents: MempoolOperationContent[];
+  signature?: string;
+  error?: RpcErrorObject[];
+  reason?: TezosRpcError | RpcError;
+}
+
+export type PendingOperations = {
+  [classification in MempoolClassification]: PendingOperation[];
+};
+
+export interface MempoolFilter {
+  source?: string;
+  destination?: string;
+  hash?: string;
+  classifications?: MempoolClassification[];
+}
+
+export const MEMPOOL_CLASSIFICATIONS: MempoolClassification[] = [
+  'applied',
+  'refused',
+  'outdated',
+  'branch_refused',
+  'branch_delayed',
+  'unprocessed',
+];
+
+// The classifications which can be streamed by the mempool monitor
+export const MONITORED_CLASSIFICATIONS: MempoolClassification[] = [
+  'applied',
+  'refused',
+  'outdated',
+  'branch_refused',
+  'branch_delayed',
+];
+
+/**
+ * @description Normalizes an operation returned by the mempool rpcs, either as an object or as
+ *   a [hash, operation] tuple
+ * @param {Object|Array} entry The operation returned by the node
+ * @param {string} classification The classification of the operation in the mempool
+ * @returns {Object} The pending operation, with the parsed error for non applied operations
+ */
+export const toPendingOperation = (
+  entry: any,
+  classification: MempoolClassification,
+): PendingOperation => {
+  const operation = Array.isArray(entry)
+    ? { hash: entry[0], ...entry[1] }
+    : { ...entry };
+
+  return {
+    ...operation,
+    classification,
+    ...(operation.error && operation.error.length
+      ? { reason: parseRpcError(operation.error) }
+      : {}),
+  };
+};
+
+/**
+ * @description Whether a pending operation matches a filter
+ * @param {Object} operation The pending operation
+ * @param {Object} [filter] The source, destination or hash to match
+ * @returns {boolean} Whether the operation matches every criteria of the filter
+ */
+export const matchesMempoolFilter = (
+  operation: PendingOperation,
+  filter: MempoolFilter = {},
+): boolean => {
+  const { source, destination, hash } = filter;
+  const { contents = [] } = operation;
+
+  return (
+    (!hash || operation.hash === hash) &&
+    (!source || contents.some((content) => content.source === source)) &&
+    (!destination ||
+      contents.some((content) => content.destination === destination))
+  );
+};
+
+/**
+ * @description Builds the query of the mempool monitor streaming a single classification
+ * @param {string} classification The classification to stream
+ * @returns {string} The query string
+ */
+export const monitorOperationsQuery = (
+  classification: MempoolClassification,
+): string =>
+  MONITORED_CLASSIFICATIONS.filter(
+    // Older nodes do not know of outdated operations
+    (key) => key !== 'outdated' || classification === 'outdated',
+  )
+    .map((key) => `${key}=${key === classification}`)
+    .join('&');
@@ -0,0 +1,45 @@
+import { TransportRequest, TransportResponse } from './transport';
+
+export interface MiddlewareRequest extends Omit<TransportRequest, 'url'> {
+  provider: string;
+  path: string;
+}
+
+export type MiddlewareNext = (
+  request: MiddlewareRequest,
+) => Promise<TransportResponse>;
+
+/**
+ * @description A function wrapping every request sent to a node. It can change the request
+ *   before passing it to `next`, and inspect or transform the response (or the error) of `next`.
+ * @example
+ * sotez.use(async (request, next) => {
+ *   const start = Date.now();
+ *   const response = await next({
+ *     ...request,
+ *     headers: { ...request.headers, Authorization: `Bearer ${token}` },
+ *   });
+ *   metrics.record(request.path, response.status, Date.now() - start);
+ *   return response;
+ * });
+ */
+export type Middleware = (
+  request: MiddlewareRequest,
+  next: MiddlewareNext,
+) => Promise<TransportResponse>;
+
+/**
+ * @description Chains middlewares around a request handler, the first middleware being the
+ *   outermost
+ * @param {Array} middlewares The middlewares to chain
+ * @param {Function} handler The handler sending the request
+ * @returns {Function} The chained handler
+ */
+export const composeMiddleware = (
+  middlewares: Middleware[],
+  handler: MiddlewareNext,
+): MiddlewareNext =>
+  middlewares.reduceRight<MiddlewareNext>(
+    (next, middleware) => (request) => middleware(request, next),
+    handler,
+  );
@@ -0,0 +1,736 @@
+import { BigNumber } from 'bignumber.js';
+import { Buffer } from 'buffer/';
+import blake2b from 'blake2b';
+import { Transport, TransportRequest, TransportResponse } from './transport';
+import { forge, unforge, encodeRawBytes } from './forge';
+import { b58cencode, b58cdecode, operationHash, textEncode } from './utility';
+import { prefix, protocols } from './constants';
+import { getProtocol } from './protocols';
+import { RpcErrorObject } from './errors';
+
+export interface MockAccount {
+  balance: string;
+  counter: number;
+  manager?: string;
+  delegate?: string;
+  script?: { code: any[]; storage: any };
+}
+
+export interface MockNodeOptions {
+  chain?: string;
+  chainId?: string;
+  protocol?: string;
+  accounts?: {
+    [address: string]: Partial<Omit<MockAccount, 'balance'>> & {
+      balance: number | string;
+    };
+  };
+  bigMaps?: { [id: string]: { [expr: string]: any } };
+  autoBake?: boolean;
+}
+
+interface MockOperation {
+  hash: string;
+  protocol: string;
+  chain_id: string;
+  branch: string;
+  contents: any[];
+  signature?: string;
+}
+
+interface MockBlock {
+  hash: string;
+  level: number;
+  predecessor: string;
+  timestamp: string;
+  operations: MockOperation[][];
+}
+
+class MockRpcError extends Error {
+  constructor(public status: number, public body: any) {
+    super(typeof body === 'string' ? body : JSON.stringify(body));
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+const MANAGER_KINDS = ['reveal', 'transaction', 'origination', 'delegation'];
+
+const CONSUMED_GAS: { [kind: string]: string } = {
+  reveal: '1000',
+  transaction: '1427',
+  origination: '1843',
+  delegation: '1000',
+};
+
+const hash = (data: Uint8Array, size: number): Uint8Array => {
+  const digest = Buffer.alloc(size);
+  blake2b(size).update(data).digest(digest);
+  return new Uint8Array(digest);
+};
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const protocolId = (protocol: string): string =>
+  `proto.${getProtocol(protocol).version}-${protocol.slice(0, 8)}`;
+
+/**
+ * @description Extracts the entrypoints of a contract from the annotations of its parameter type
+ * @param {Array} code The code of the contract
+ * @returns {Object} The types of the entrypoints, by name
+ */
+const extractEntrypoints = (code: any[]): { [name: string]: any } => {
+  const parameter = code.find(({ prim }) => prim === 'parameter');
+  const entrypoints: { [name: string]: any } = {};
+
+  const walk = (type: any, root: boolean): void => {
+    const annot = (type.annots || []).find((a: string) => a.startsWith('%'));
+    if (annot && !root) {
+      entrypoints[annot.slice(1)] = { ...type, annots: undefined };
+    }
+    if (type.prim === 'or') {
+      type.args.forEach((arg: any) => walk(arg, false));
+    }
+  };
+
+  if (parameter) {
+    walk(parameter.args[0], true);
+  }
+
+  return clone(entrypoints);
+};
+
+/**
+ * @description An in-process stand-in for a Tezos node, implemented as a transport. It serves the
+ *   rpcs used by Sotez from an in-memory ledger: manager operations change the balances, counters,
+ *   keys and delegates of the accounts, and injected operations are baked into new blocks.
+ *   Signatures are not verified and contract code is not executed.
+ * @param {Object} [options] The mock node options
+ * @param {Object} [options.accounts] The initial accounts, by address
+ * @param {Object} [options.bigMaps] The values of the big maps, by id and script expression hash
+ * @param {boolean} [options.autoBake=true] Bake a new block as soon as an operation is injected
+ * @example
+ * const node = new MockNode({
+ *   accounts: { tz1...: { balance: 1000000000 } },
+ * });
+ * const tezos = new Sotez('http://mock', 'main', { transport: node });
+ */
+export class MockNode implements Transport {
+  chain: string;
+
+  chainId: string;
+
+  protocol: string;
+
+  autoBake: boolean;
+
+  accounts: { [address: string]: MockAccount } = {};
+
+  bigMaps: { [id: string]: { [expr: string]: any } };
+
+  blocks: MockBlock[] = [];
+
+  mempool: MockOperation[] = [];
+
+  private _headListeners: ((block: MockBlock) => void)[] = [];
+
+  constructor({
+    chain = 'main',
+    chainId = 'NetXdQprcVkpaWU',
+    protocol = protocols['009'],
+    accounts = {},
+    bigMaps = {},
+    autoBake = true,
+  }: MockNodeOptions = {}) {
+    this.chain = chain;
+    this.chainId = chainId;
+    this.protocol = protocol;
+    this.autoBake = autoBake;
+    this.bigMaps = bigMaps;
+
+    Object.keys(accounts).forEach((address) => {
+      this.accounts[address] = {
+        counter: 0,
+        ...accounts[address],
+        balance: `${accounts[address].balance}`,
+      };
+    });
+
+    this._addBlock([]);
+  }
+
+  get head(): MockBlock {
+    return this.blocks[this.blocks.length - 1];
+  }
+
+  /**
+   * @description Bakes the operations of the mempool into a new block
+   * @returns {Object} The new block
+   */
+  bake = (): MockBlock => {
+    const operations = this.mempool.map((operation) => {
+      const { contents, state } = this._apply(
+        operation.contents,
+        this.accounts,
+      );
+      this.accounts = state;
+      return { ...operation, contents };
+    });
+    this.mempool = [];
+    return this._addBlock(operations);
+  };
+
+  request = async ({
+    url,
+    method,
+    body,
+  }: TransportRequest): Promise<TransportResponse> => {
+    try {
+      const payload = body !== undefined ? JSON.parse(body) : undefined;
+      const result = await this._route(
+        method,
+        url.replace(/^[a-z]+:\/\/[^/]+/i, ''),
+        payload,
+      );
+      return { ok: true, status: 200, body: result };
+    } catch (e) {
+      if (e instanceof MockRpcError) {
+        return { ok: false, status: e.status, body: e.body };
+      }
+      throw e;
+    }
+  };
+
+  stream = async (
+    { url, signal }: TransportRequest,
+    onChunk: (chunk: string) => void,
+  ): Promise<TransportResponse> => {
+    if (!url.endsWith(`/monitor/heads/${this.chain}`)) {
+      return { ok: false, status: 404, body: 'Not found' };
+    }
+
+    const listener = (block: MockBlock): void =>
+      onChunk(`${JSON.stringify(this._header(block))}\n`);
+
+    listener(this.head);
+    this._headListeners.push(listener);
+
+    return new Promise((resolve) => {
+      signal?.addEventListener('abort', () => {
+        this._headListeners = this._headListeners.filter((l) => l !== listener);
+        resolve({ ok: true, status: 200, body: undefined });
+      });
+    });
+  };
+
+  private _route = async (
+    method: string,
+    path: string,
+    payload: any,
+  ): Promise<any> => {
+    const chainPath = `/chains/${this.chain}`;
+
+    if (path === '/injection/operation' && method === 'POST') {
+      return this._inject(payload);
+    }
+
+    if (path === `${chainPath}/chain_id`) {
+      return this.chainId;
+    }
+
+    if (path === `${chainPath}/is_bootstrapped`) {
+      return { bootstrapped: true, sync_state: 'synced' };
+    }
+
+    if (path === `${chainPath}/mempool/pending_operations`) {
+      return {
+        applied: this.mempool,
+        refused: [],
+        branch_refused: [],
+        branch_delayed: [],
+        unprocessed: [],
+      };
+    }
+
+    if (path === `${chainPath}/mempool/filter`) {
+      return {
+        minimal_fees: '100',
+        minimal_nanotez_per_gas_unit: ['100', '1'],
+        minimal_nanotez_per_byte: ['1000', '1'],
+        allow_script_failure: true,
+      };
+    }
+
+    const match = path.match(/^\/chains\/[^/]+\/blocks\/([^/]+)\/?(.*)$/);
+
+    if (!match || !path.startsWith(`${chainPath}/`)) {
+      throw new MockRpcError(404, 'Not found');
+    }
+
+    const block = this._block(match[1]);
+    const resource = match[2];
+
+    if (method === 'POST') {
+      return this._helper(resource, payload);
+    }
+
+    return this._resource(block, resource);
+  };
+
+  private _resource = (block: MockBlock, resource: string): any => {
+    const [, contract, field] =
+      resource.match(/^context\/contracts\/([^/]+)\/?(.*)$/) || [];
+    const [, bigMap, expr] =
+      resource.match(/^context\/big_maps\/([^/]+)\/([^/]+)$/) || [];
+    const [, pass, index] = resource.match(/^operations\/(\d+)\/(\d+)$/) || [];
+
+    if (resource === '') {
+      return this._fullBlock(block);
+    }
+
+    if (resource === 'header') {
+      return this._header(block);
+    }
+
+    if (resource === 'hash') {
+      return block.hash;
+    }
+
+    if (resource === 'metadata') {
+      return this._metadata(block);
+    }
+
+    if (resource === 'operation_hashes') {
+      return block.operations.map((ops) => ops.map(({ hash: h }) => h));
+    }
+
+    if (pass !== undefined) {
+      const operation = block.operations[+pass]?.[+index];
+      if (!operation) {
+        throw new MockRpcError(404, 'Not found');
+      }
+      return operation;
+    }
+
+    if (bigMap !== undefined) {
+      const value = this.bigMaps[bigMap]?.[expr];
+      if (value === undefined) {
+        throw new MockRpcError(404, 'Not found');
+      }
+      return value;
+    }
+
+    if (contract !== undefined) {
+      return this._contract(contract, field);
+    }
+
+    throw new MockRpcError(404, 'Not found');
+  };
+
+  private _contract = (address: string, field: string): any => {
+    const account = this.accounts[address];
+
+    if (!account) {
+      // Unknown implicit accounts are empty
+      if (field === 'balance' || field === 'counter') {
+        return '0';
+      }
+      if (field === 'manager_key' || field === 'delegate') {
+        return null;
+      }
+      throw new MockRpcError(404, 'Not found');
+    }
+
+    switch (field) {
+      case '':
+        return {
+          balance: account.balance,
+          counter: `${account.counter}`,
+          delegate: account.delegate,
+          script: account.script,
+        };
+      case 'balance':
+        return account.balance;
+      case 'counter':
+        return `${account.counter}`;
+      case 'manager_key':
+        return account.manager || null;
+      case 'delegate':
+        return account.delegate || null;
+      case 'script':
+        if (!account.script) {
+          throw new MockRpcError(404, 'Not found');
+        }
+        return account.script;
+      case 'storage':
+        if (!account.script) {
+          throw new MockRpcError(404, 'Not found');
+        }
+        return account.script.storage;
+      case 'entrypoints':
+        return {
+          entrypoints: account.script
+            ? extractEntrypoints(account.script.code)
+            : {},
+        };
+      default:
+        throw new MockRpcError(404, 'Not found');
+    }
+  };
+
+  private _helper = async (resource: string, payload: any): Promise<any> => {
+    switch (resource) {
+      case 'helpers/forge/operations': {
+        const { opbytes } = await forge(clone(payload), 0, this.protocol);
+        return opbytes;
+      }
+      case 'helpers/scripts/run_operation': {
+        const { contents } = this._apply(
+          payload.operation.contents,
+          this.accounts,
+        );
+        return { contents };
+      }
+      case 'helpers/preapply/operations':
+        return payload.map((operation: any) => ({
+          contents: this._apply(operation.contents, this.accounts).contents,
+          signature: operation.signature,
+        }));
+      case 'helpers/scripts/pack_data':
+        return {
+          packed: `05${encodeRawBytes(payload.data).toLowerCase()}`,
+          gas: payload.gas,
+        };
+      case 'helpers/scripts/typecheck_code':
+      case 'helpers/scripts/typecheck_data':
+        return { type_map: [], gas: '1000' };
+      default:
+        throw new MockRpcError(404, 'Not found');
+    }
+  };
+
+  private _inject = (sopbytes: string): string => {
+    let operation: any;
+
+    try {
+      operation = unforge(sopbytes, this.protocol);
+    } catch (e) {
+      operation = {};
+    }
+
+    if (!operation.signature) {
+      throw new MockRpcError(400, [
+        {
+          kind: 'permanent',
+          id: 'failure',
+          msg: 'Invalid signed operation bytes',
+        },
+      ]);
+    }
+
+    const opHash = operationHash(sopbytes);
+    // Reject operations which would fail in a block after the pending operations, so that two
+    // operations with the same counter are never both accepted
+    const pending = this.mempool.reduce(
+      (accounts, { contents }) => this._apply(contents, accounts).state,
+      this.accounts,
+    );
+    this._apply(operation.contents, pending, true);
+
+    this.mempool.push({
+      hash: opHash,
+      protocol: this.protocol,
+      chain_id: this.chainId,
+      branch: operation.branch,
+      contents: operation.contents,
+      signature: operation.signature,
+    });
+
+    if (this.autoBake) {
+      this.bake();
+    }
+
+    return opHash;
+  };
+
+  /**
+   * @description Applies manager operations to a copy of the accounts
+   * @param {Array} operations The contents of an operation
+   * @param {Object} accounts The accounts to apply the operations to
+   * @param {boolean} [strict=false] Throw the errors of failed operations
+   * @returns {Object} The contents with their receipts, and the new state of the accounts
+   */
+  private _apply = (
+    operations: any[],
+    accounts: { [address: string]: MockAccount },
+    strict = false,
+  ): { contents: any[]; state: { [address: string]: MockAccount } } => {
+    const state = clone(accounts);
+    const proto = protocolId(this.protocol);
+    let failed = false;
+
+    const account = (address: string): MockAccount => {
+      state[address] = state[address] || { balance: '0', counter: 0 };
+      return state[address];
+    };
+
+    const contents = operations.map((content: any) => {
+      if (!MANAGER_KINDS.includes(content.kind)) {
+        return { ...content, metadata: {} };
+      }
+
+      const source = account(content.source);
+      const counter = parseInt(content.counter, 10);
+
+      if (counter <= source.counter) {
+        throw new MockRpcError(500, [
+          {
+            kind: 'temporary',
+            id: `${proto}.contract.counter_in_the_past`,
+            contract: content.source,
+            expected: `${source.counter + 1}`,
+            found: `${counter}`,
+          },
+        ]);
+      }
+
+      if (counter > source.counter + 1) {
+        throw new MockRpcError(500, [
+          {
+            kind: 'temporary',
+            id: `${proto}.contract.counter_in_the_future`,
+            contract: content.source,
+            expected: `${source.counter + 1}`,
+            found: `${counter}`,
+          },
+        ]);
+      }
+
+      if (content.kind !== 'reveal' && !source.manager) {
+        throw new MockRpcError(500, [
+          {
+            kind: 'branch',
+            id: `${proto}.contract.unrevealed_key`,
+            contract: content.source,
+          },
+        ]);
+      }
+
+      const fee = new BigNumber(content.fee || 0);
+
+      if (new BigNumber(source.balance).lt(fee)) {
+        throw new MockRpcError(500, [
+          {
+            kind: 'temporary',
+            id: `${proto}.contract.balance_too_low`,
+            contract: content.source,
+            balance: source.balance,
+            amount: fee.toString(),
+          },
+        ]);
+      }
+
+      source.counter = counter;
+      source.balance = new BigNumber(source.balance).minus(fee).toString();
+
+      const metadata: any = {
+        balance_updates: [
+          { kind: 'contract', contract: content.source, change: `-${fee}` },
+        ],
+      };
+
+      if (failed) {
+        metadata.operation_result = { status: 'skipped' };
+        return { ...content, metadata };
+      }
+
+      const errors: RpcErrorObject[] = [];
+      const result: any = {
+        status: 'applied',
+        consumed_gas: CONSUMED_GAS[content.kind],
+        consumed_milligas: `${CONSUMED_GAS[content.kind]}000`,
+        storage_size: '0',
+      };
+
+      if (content.kind === 'reveal') {
+        source.manager = content.public_key;
+      } else if (content.kind === 'delegation') {
+        source.delegate = content.delegate;
+      } else {
+        const amount = new BigNumber(
+          content.kind === 'origination' ? content.balance : content.amount,
+        );
+
+        if (new BigNumber(source.balance).lt(amount)) {
+          errors.push({
+            kind: 'temporary',
+            id: `${proto}.contract.balance_too_low`,
+            contract: content.source,
+            balance: source.balance,
+            amount: amount.toString(),
+          });
+        } else {
+          let { destination } = content;
+
+          if (content.kind === 'origination') {
+            destination = b58cencode(
+              hash(textEncode(`${content.source}:${counter}`), 20),
+              prefix.KT,
+            );
+            state[destination] = {
+              balance: '0',
+              counter: 0,
+              delegate: content.delegate,
+              script: clone(content.script),
+            };
+            result.originated_contracts = [destination];
+          }
+
+          source.balance = new BigNumber(source.balance)
+            .minus(amount)
+            .toString();
+          account(destination).balance = new BigNumber(
+            account(destination).balance,
+          )
+            .plus(amount)
+            .toString();
+          result.balance_updates = [
+            {
+              kind: 'contract',
+              contract: content.source,
+              change: `-${amount}`,
+            },
+            { kind: 'contract', contract: destination, change: `${amount}` },
+          ];
+        }
+      }
+
+      if (errors.length) {
+        if (strict) {
+          throw new MockRpcError(500, errors);
+        }
+        failed = true;
+        metadata.operation_result = { status: 'failed', errors };
+      } else {
+        metadata.operation_result = result;
+      }
+
+      return { ...content, metadata };
+    });
+
+    if (failed) {
+      // Only the fees and counters of a failed batch are applied
+      contents.forEach(({ metadata }) => {
+        if (metadata.operation_result?.status === 'applied') {
+          metadata.operation_result.status = 'backtracked';
+        }
+      });
+      Object.keys(state).forEach((address) => {
+        if (accounts[address]) {
+          const { balance } = accounts[address];
+          const fees = contents
+            .filter((content) => content.source === address && content.fee)
+            .reduce((total, { fee }) => total.plus(fee), new BigNumber(0));
+          state[address] = {
+            ...clone(accounts[address]),
+            counter: state[address].counter,
+            balance: new BigNumber(balance).minus(fees).toString(),
+          };
+        } else {
+          delete state[address];
+        }
+      });
+    }
+
+    return { contents, state };
+  };
+
+  private _block = (id: string): MockBlock => {
+    const [, relative, offset] = id.match(/^(head|[^~]+)(?:~(\d+))?$/) || [];
+    let index = -1;
+
+    if (relative === 'head') {
+      index = this.blocks.length - 1;
+    } else if (/^\d+$/.test(relative || '')) {
+      index = this.blocks.findIndex(({ level }) => level === +relative);
+    } else {
+      index = this.blocks.findIndex(({ hash: h }) => h === relative);
+    }
+
+    const block = this.blocks[index - (offset ? +offset : 0)];
+
+    if (index === -1 || !block) {
+      throw new MockRpcError(404, 'Not found');
+    }
+
+    return block;
+  };
+
+  private _addBlock = (operations: MockOperation[]): MockBlock => {
+    const predecessor = this.head;
+    const level = predecessor ? predecessor.level + 1 : 1;
+    const block: MockBlock = {
+      hash: b58cencode(
+        hash(
+          textEncode(
+            JSON.stringify([
+              this.chainId,
+              level,
+              predecessor?.hash,
+              operations.map(({ hash: h }) => h),
+            ]),
+          ),
+          32,
+        ),
+        prefix.b,
+      ),
+      level,
+      predecessor:
+        predecessor?.hash || b58cencode(new Uint8Array(32), prefix.b),
+      timestamp: new Date().toISOString().replace(/\.\d+Z$/, 'Z'),
+      operations: [[], [], [], operations],
+    };
+
+    this.blocks.push(block);
+    this._headListeners.forEach((listener) => listener(block));
+    return block;
+  };
+
+  private _header = ({
+    hash: h,
+    level,
+    predecessor,
+    timestamp,
+  }: MockBlock): any => ({
+    protocol: this.protocol,
+    chain_id: this.chainId,
+    hash: h,
+    level,
+    proto: 1,
+    predecessor,
+    timestamp,
+    validation_pass: 4,
+    operations_hash: b58cencode(hash(b58cdecode(h, prefix.b), 32), prefix.LLo),
+    fitness: ['01', `${level.toString(16).padStart(16, '0')}`],
+    context: b58cencode(hash(b58cdecode(h, prefix.b), 32), prefix.Co),
+    priority: 0,
+    proof_of_work_nonce: '0000000000000000',
+    signature: b58cencode(new Uint8Array(64), prefix.sig),
+  });
+
+  private _metadata = ({ level }: MockBlock): any => ({
+    protocol: this.protocol,
+    next_protocol: this.protocol,
+    level: { level },
+    level_info: { level },
+    max_operations_ttl: 60,
+  });
+
+  private _fullBlock = (block: MockBlock): any => ({
+    protocol: this.protocol,
+    chain_id: this.chainId,
+    hash: block.hash,
+    header: this._header(block),
+    metadata: this._metadata(block),
+    operations: block.operations,
+  });
+}
@@ -0,0 +1,136 @@
+export interface MonitorOptions {
+  reconnectDelay?: number;
+}
+
+type SubscriptionEvent = 'data' | 'error' | 'close';
+
+type Listener = (value?: any) => void;
+
+/**
+ * @description Splits a stream of chunks into newline-delimited JSON values
+ * @param {Function} onValue Called with each parsed value
+ * @returns {Function} The function to call with each chunk of the stream
+ */
+export const ndjsonParser = (
+  onValue: (value: any) => void,
+): ((chunk: string) => void) => {
+  let buffer = '';
+
+  return (chunk: string): void => {
+    buffer += chunk;
+    const lines = buffer.split('\n');
+    // The last line may be incomplete
+    buffer = lines.pop() as string;
+    lines
+      .map((line) => line.trim())
+      .filter((line) => line)
+      .forEach((line) => onValue(JSON.parse(line)));
+  };
+};
+
+/**
+ * @description A subscription to a stream of values, which reconnects automatically until closed,
+ *   whether the stream fails (emitting the error) or ends. Values sent again by the node after
+ *   reconnecting are emitted again.
+ * @class Subscription
+ * @param {Function} connect Opens the stream, calling `onValue` with each value, and resolves
+ *   once the stream ends
+ * @param {Object} [options] The monitor options
+ * @param {number} [options.reconnectDelay=1000] The delay before reconnecting (in ms)
+ * @example
+ * const subscription = sotez.monitorHeads();
+ * subscription.on('data', (head) => console.log(head.level));
+ * subscription.on('error', (e) => console.error(e));
+ * // Later
+ * subscription.close();
+ */
+export class Subscription<T> {
+  private _listeners: { [event: string]: Listener[] } = {};
+
+  private _controller: AbortController | null = null;
+
+  private _reconnectHandle?: ReturnType<typeof setTimeout>;
+
+  private _closed = false;
+
+  private _reconnectDelay: number;
+
+  constructor(
+    private connect: (
+      onValue: (value: T) => void,
+      signal?: AbortSignal,
+    ) => Promise<void>,
+    { reconnectDelay = 1000 }: MonitorOptions = {},
+  ) {
+    this._reconnectDelay = reconnectDelay;
+    // Let the listeners be attached before connecting
+    this._reconnectHandle = setTimeout(this._open, 0);
+  }
+
+  get closed(): boolean {
+    return this._closed;
+  }
+
+  on = (event: SubscriptionEvent, listener: Listener): Subscription<T> => {
+    this._listeners[event] = [...(this._listeners[event] || []), listener];
+    return this;
+  };
+
+  off = (event: SubscriptionEvent, listener: Listener): Subscription<T> => {
+    this._listeners[event] = (this._listeners[event] || []).filter(
+      (l) => l !== listener,
+    );
+    return this;
+  };
+
+  /**
+   * @description Closes the stream and stops reconnecting
+   */
+  close = (): void => {
+    if (this._closed) {
+      return;
+    }
+
+    this._closed = true;
+
+    if (this._reconnectHandle) {
+      clearTimeout(this._reconnectHandle);
+    }
+
+    this._controller?.abort();
+    this._emit('close');
+  };
+
+  private _emit = (event: SubscriptionEvent, value?: any): void => {
+    (this._listeners[event] || []).forEach((listener) => listener(value));
+  };
+
+  private _open = (): void => {
+    if (this._closed) {
+      return;
+    }
+
+    this._controller =
+      typeof AbortController !== 'undefined' ? new AbortController() : null;
+
+    this.connect((value) => {
+      if (!this._closed) {
+        this._emit('data', value);
+      }
+    }, this._controller?.signal)
+      .catch((e) => {
+        if (!this._closed) {
+          this._emit('error', e);
+        }
+      })
+      .then(() => {
+        if (this._closed) {
+          return;
+        }
+
+        // Close what may remain of the previous connection
+        this._controller?.abort();
+        this._reconnectHandle = setTimeout(this._open, this._reconnectDelay);
+      });
+  };
+}
@@ -0,0 +1,95 @@
+import {
+  appendFileSync,
+  existsSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from 'fs';
+import { Fixture } from './replay';
+import { QueueJob, QueueStore } from './queue';
+
+/**
+ * @description Writes recorded fixtures to a JSON file
+ * @param {string} file The path of the file
+ * @param {Array} fixtures The fixtures, ie. of a `RecordingTransport`
+ * @example
+ * saveFixtures('./fixtures/transfer.json', recorder.fixtures);
+ */
+export const saveFixtures = (file: string, fixtures: Fixture[]): void => {
+  writeFileSync(file, `${JSON.stringify(fixtures, null, 2)}\n`);
+};
+
+/**
+ * @description Reads the fixtures of a JSON file, to be served by a `ReplayTransport`
+ * @param {string} file The path of the file
+ * @returns {Array} The fixtures
+ * @example
+ * const transport = new ReplayTransport(loadFixtures('./fixtures/transfer.json'));
+ */
+export const loadFixtures = (file: string): Fixture[] =>
+  JSON.parse(readFileSync(file, 'utf8'));
+
+/**
+ * @description A queue store appending every change of a job as a line of JSON to a file. The
+ *   last line of a job holds its state. A line cut short when the process stopped is ignored.
+ * @param {string} file The path of the file
+ * @example
+ * const queue = new OperationQueue(tezos, {
+ *   store: new JsonFileQueueStore('./payouts.jsonl'),
+ * });
+ */
+export class JsonFileQueueStore implements QueueStore {
+  constructor(public file: string) {}
+
+  load = (): QueueJob[] => {
+    if (!existsSync(this.file)) {
+      return [];
+    }
+
+    const jobs: { [id: string]: QueueJob } = {};
+    const order: string[] = [];
+
+    readFileSync(this.file, 'utf8')
+      .split('\n')
+      .forEach((line) => {
+        let job: QueueJob;
+
+        try {
+          job = JSON.parse(line);
+        } catch (e) {
+          return;
+        }
+
+        if (!job || typeof job.id !== 'string') {
+          return;
+        }
+
+        if (!jobs[job.id]) {
+          order.push(job.id);
+        }
+
+        jobs[job.id] = job;
+      });
+
+    return order.map((id) => jobs[id]);
+  };
+
+  save = (job: QueueJob): void => {
+    appendFileSync(this.file, `${JSON.stringify(job)}\n`);
+  };
+
+  /**
+   * @description Rewrites the file with the last state of each job
+   */
+  compact = (): void => {
+    const temporary = `${this.file}.tmp`;
+
+    writeFileSync(
+      temporary,
+      this.load()
+        .map((job) => `${JSON.stringify(job)}\n`)
+        .join(''),
+    );
+    renameSync(temporary, this.file);
+  };
+}
@@ -0,0 +1,286 @@
+import { forgeMappings, protocols } from './constants';
+import { hex2buf, textDecode } from './utility';
+import {
+  BytesReader,
+  Micheline,
+  bool,
+  decodeBool,
+  decodeMicheline,
+  decodePublicKeyHash,
+  decodeScript,
+  decodeZarith,
+  encodeRawBytes,
+  publicKeyHash,
+  script,
+  toBytesInt32Hex,
+  zarith,
+} from './encoding';
+
+interface ConstructedOperation {
+  kind: string;
+  level: number;
+  nonce: string;
+  pkh: string;
+  hash: string;
+  secret: string;
+  source: string;
+  period: number;
+  proposal: string;
+  ballot: string;
+  fee: string;
+  counter: string;
+  gas_limit: string;
+  storage_limit: string;
+  parameters: string;
+  balance: string;
+  spendable: boolean;
+  delegatable: boolean;
+  delegate: string;
+  amount: string;
+  destination: string;
+  public_key: string;
+  script: { code: Micheline; storage: Micheline };
+  manager_pubkey: string;
+  managerPubkey: string;
+}
+
+/**
+ * @description Everything that differs between protocols when constructing and forging operations
+ * @example
+ * registerProtocol({
+ *   ...getProtocol(protocols['015']),
+ *   hash: 'PtNextProtocolHash...',
+ *   version: '016',
+ * });
+ */
+export interface ProtocolDefinition {
+  /** The protocol hash */
+  hash: string;
+  /** The protocol number, as used in the ids of its errors */
+  version: string;
+  /** The tags of the operation kinds */
+  opTags: { [kind: string]: number };
+  codecs: {
+    /** Forges and decodes the parameters of a transaction */
+    parameters: {
+      forge: (parameters: any) => string;
+      unforge: (reader: BytesReader) => any;
+    };
+    /** Forges and decodes the fields of an origination following its manager fields */
+    origination: {
+      forge: (op: ConstructedOperation, forgedOp: string[]) => string;
+      unforge: (reader: BytesReader) => Partial<ConstructedOperation>;
+    };
+  };
+  /** Extracts the public key from a `manager_key` response */
+  managerKey: (manager: any) => string | null;
+  /** Removes the fields of an operation the protocol does not accept */
+  conformOperation: <T extends { kind: string }>(op: T) => T;
+}
+
+const parameters001 = (parameterArg: any): string => {
+  const fp: string[] = [];
+  fp.push(bool(true));
+  const t = encodeRawBytes(parameterArg).toLowerCase();
+  fp.push(toBytesInt32Hex(t.length / 2) + t);
+  return fp.join('');
+};
+
+const parameters005 = (parameterArg: any): string => {
+  const fp: string[] = [];
+  const isDefaultParameter = parameterArg.entrypoint === 'default';
+  fp.push(isDefaultParameter ? '00' : 'FF');
+
+  if (!isDefaultParameter) {
+    const parameterBytes = encodeRawBytes(parameterArg.value).toLowerCase();
+
+    if (forgeMappings.entrypointMappingReverse[parameterArg.entrypoint]) {
+      fp.push(forgeMappings.entrypointMappingReverse[parameterArg.entrypoint]);
+    } else {
+      const stringBytes = encodeRawBytes({
+        string: parameterArg.entrypoint,
+      }).toLowerCase();
+      fp.push('FF');
+      fp.push(stringBytes.slice(8));
+    }
+
+    fp.push((parameterBytes.length / 2).toString(16).padStart(8, '0'));
+    fp.push(parameterBytes);
+  }
+
+  return fp.join('');
+};
+
+const unforgeParameters001 = (reader: BytesReader): any =>
+  decodeBool(reader) ? decodeMicheline(reader) : undefined;
+
+const unforgeParameters005 = (reader: BytesReader): any => {
+  if (!decodeBool(reader)) {
+    return undefined;
+  }
+
+  const tag = reader.read(1);
+  const entrypoint =
+    tag === 'ff'
+      ? textDecode(hex2buf(reader.read(parseInt(reader.read(1), 16))))
+      : forgeMappings.entrypointMapping[tag];
+
+  return { entrypoint, value: decodeMicheline(reader) };
+};
+
+const origination001 = (
+  o: ConstructedOperation,
+  forgedOp: string[],
+): string => {
+  forgedOp.push(publicKeyHash(o.manager_pubkey));
+  forgedOp.push(zarith(o.balance));
+  forgedOp.push(bool(o.spendable));
+  forgedOp.push(bool(o.delegatable));
+  if (o.delegate) {
+    forgedOp.push(bool(true));
+    forgedOp.push(publicKeyHash(o.delegate));
+  } else {
+    forgedOp.push(bool(false));
+  }
+  if (o.script) {
+    forgedOp.push(bool(true));
+    forgedOp.push(script(o.script));
+  } else {
+    forgedOp.push(bool(false));
+  }
+  return forgedOp.join('');
+};
+
+const origination005 = (
+  o: ConstructedOperation,
+  forgedOp: string[],
+): string => {
+  forgedOp.push(zarith(o.balance));
+  if (o.delegate) {
+    forgedOp.push(bool(true));
+    forgedOp.push(publicKeyHash(o.delegate));
+  } else {
+    forgedOp.push(bool(false));
+  }
+  forgedOp.push(script(o.script));
+  return forgedOp.join('');
+};
+
+const unforgeOrigination001 = (
+  reader: BytesReader,
+): Partial<ConstructedOperation> => ({
+  manager_pubkey: decodePublicKeyHash(reader),
+  balance: decodeZarith(reader),
+  spendable: decodeBool(reader),
+  delegatable: decodeBool(reader),
+  ...(decodeBool(reader) ? { delegate: decodePublicKeyHash(reader) } : {}),
+  ...(decodeBool(reader) ? { script: decodeScript(reader) } : {}),
+});
+
+const unforgeOrigination005 = (
+  reader: BytesReader,
+): Partial<ConstructedOperation> => ({
+  balance: decodeZarith(reader),
+  ...(decodeBool(reader) ? { delegate: decodePublicKeyHash(reader) } : {}),
+  script: decodeScript(reader),
+});
+
+const conformOperation001 = <T>(op: T): T => op;
+
+const conformOperation005 = <T>(op: T): T => {
+  // @ts-ignore
+  delete op.manager_pubkey;
+  // @ts-ignore
+  delete op.spendable;
+  // @ts-ignore
+  delete op.delegatable;
+  return op;
+};
+
+const definition001 = (hash: string, version: string): ProtocolDefinition => ({
+  hash,
+  version,
+  opTags: forgeMappings.forgeOpTags['001'],
+  codecs: {
+    parameters: { forge: parameters001, unforge: unforgeParameters001 },
+    origination: { forge: origination001, unforge: unforgeOrigination001 },
+  },
+  managerKey: (manager) => manager.key,
+  conformOperation: conformOperation001,
+});
+
+const definition005 = (hash: string, version: string): ProtocolDefinition => ({
+  hash,
+  version,
+  opTags: forgeMappings.forgeOpTags['005'],
+  codecs: {
+    parameters: { forge: parameters005, unforge: unforgeParameters005 },
+    origination: { forge: origination005, unforge: unforgeOrigination005 },
+  },
+  managerKey: (manager) => manager,
+  conformOperation: conformOperation005,
+});
+
+// The registered protocols, from the oldest to the latest
+const registry: ProtocolDefinition[] = [
+  definition001(protocols['001'], '001'),
+  definition001(protocols['002'], '002'),
+  definition001(protocols['003'], '003'),
+  definition001(protocols['004'], '004'),
+  definition005(protocols['005a'], '005'),
+  definition005(protocols['005'], '005'),
+  definition005(protocols['006'], '006'),
+  definition005(protocols['007a'], '007'),
+  definition005(protocols['007'], '007'),
+  definition005(protocols['008a'], '008'),
+  definition005(protocols['008'], '008'),
+  ...['009', '010', '011', '012', '013', '014', '015'].map(
+    (version): ProtocolDefinition => ({
+      ...definition005(
+        (protocols as { [version: string]: string })[version],
+        version,
+      ),
+      opTags: forgeMappings.forgeOpTags[version],
+    }),
+  ),
+];
+
+/**
+ * @description Registers the definition of a protocol, replacing any definition with the same
+ *   hash. The protocol registered last is used for unknown protocols.
+ * @param {Object} definition The protocol definition
+ * @example
+ * registerProtocol({
+ *   ...getProtocol(protocols['015']),
+ *   hash: 'PtNextProtocolHash...',
+ *   version: '016',
+ *   opTags: { ...getProtocol(protocols['015']).opTags, smart_rollup_originate: 200 },
+ * });
+ */
+export const registerProtocol = (definition: ProtocolDefinition): void => {
+  const index = registry.findIndex(({ hash }) => hash === definition.hash);
+
+  if (index !== -1) {
+    registry.splice(index, 1);
+  }
+
+  registry.push(definition);
+};
+
+/**
+ * @description Finds the definition of a protocol. Unknown protocols are assumed to be newer than
+ *   the registered ones and fall back to the latest definition.
+ * @param {string} protocol The protocol hash
+ * @returns {Object} The protocol definition
+ */
+export const getProtocol = (protocol: string): ProtocolDefinition =>
+  registry.find(({ hash }) => hash === protocol) ||
+  registry[registry.length - 1];
+
+/**
+ * @description Checks whether a definition is registered for a protocol
+ * @param {string} protocol The protocol hash
+ * @returns {boolean} Whether the protocol is known
+ */
+export const isKnownProtocol = (protocol: string): boolean =>
+  registry.some(({ hash }) => hash === protocol);
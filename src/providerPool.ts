@@ -0,0 +1,128 @@
+export type PoolStrategy = 'priority' | 'round-robin';
+
+export interface ProviderPoolOptions {
+  strategy?: PoolStrategy;
+  cooldown?: number;
+  healthCheckInterval?: number;
+  broadcastInjection?: boolean;
+}
+
+export interface ProviderNode {
+  url: string;
+  healthy: boolean;
+  unhealthySince?: number;
+  lastError?: any;
+}
+
+const DEFAULT_POOL_OPTIONS: Required<ProviderPoolOptions> = {
+  strategy: 'priority',
+  cooldown: 30000,
+  healthCheckInterval: 0,
+  broadcastInjection: false,
+};
+
+/**
+ * @description Keeps track of a list of node providers and their health. Providers are listed in
+ *   order of priority.
+ * @class ProviderPool
+ * @param {string | Array} providers The provider or list of providers
+ * @param {Object} [options] The pool options
+ * @param {string} [options.strategy='priority'] Either 'priority' or 'round-robin'
+ * @param {number} [options.cooldown=30000] The time (in ms) before an unhealthy provider is used again
+ * @param {number} [options.healthCheckInterval=0] The interval (in ms) between health checks, disabled when 0
+ * @param {boolean} [options.broadcastInjection=false] Whether to inject operations through every healthy provider
+ * @example
+ * const pool = new ProviderPool(['https://node1:8732', 'https://node2:8732'], {
+ *   strategy: 'round-robin',
+ * });
+ */
+export class ProviderPool {
+  _nodes: ProviderNode[];
+
+  _options: Required<ProviderPoolOptions>;
+
+  _next: number;
+
+  constructor(providers: string | string[], options: ProviderPoolOptions = {}) {
+    const urls = Array.isArray(providers) ? providers : [providers];
+
+    if (!urls.length) {
+      throw new Error('At least one provider must be provided');
+    }
+
+    this._nodes = urls.map((url) => ({ url, healthy: true }));
+    this._options = { ...DEFAULT_POOL_OPTIONS, ...options };
+    this._next = 0;
+  }
+
+  get nodes(): ProviderNode[] {
+    return this._nodes;
+  }
+
+  get providers(): string[] {
+    return this._nodes.map(({ url }) => url);
+  }
+
+  get options(): Required<ProviderPoolOptions> {
+    return this._options;
+  }
+
+  /**
+   * @description Returns the healthy providers, in order of priority
+   * @returns {Array} The healthy providers
+   */
+  healthy = (): string[] => {
+    const now = Date.now();
+    return this._nodes
+      .filter(
+        ({ healthy, unhealthySince = 0 }) =>
+          healthy || now - unhealthySince >= this._options.cooldown,
+      )
+      .map(({ url }) => url);
+  };
+
+  /**
+   * @description Returns the providers in the order they should be tried for the next request.
+   *   Unhealthy providers are kept as a last resort.
+   * @returns {Array} The ordered providers
+   */
+  candidates = (): string[] => {
+    let healthy = this.healthy();
+
+    if (this._options.strategy === 'round-robin' && healthy.length > 1) {
+      const start = this._next % healthy.length;
+      healthy = [...healthy.slice(start), ...healthy.slice(0, start)];
+      this._next = start + 1;
+    }
+
+    const unhealthy = this.providers.filter((url) => !healthy.includes(url));
+    return [...healthy, ...unhealthy];
+  };
+
+  /**
+   * @description Marks a provider as healthy
+   * @param {string} url The provider
+   */
+  markHealthy = (url: string): void => {
+    const node = this._nodes.find((n) => n.url === url);
+    if (node) {
+      node.healthy = true;
+      delete node.unhealthySince;
+      delete node.lastError;
+    }
+  };
+
+  /**
+   * @description Marks a provider as unhealthy
+   * @param {string} url The provider
+   * @param {*} [error] The error which caused the provider to be marked as unhealthy
+   */
+  markUnhealthy = (url: string, error?: any): void => {
+    const node = this._nodes.find((n) => n.url === url);
+    if (node) {
+      node.healthy = false;
+      node.unhealthySince = Date.now();
+      node.lastError = error;
+    }
+  };
+}
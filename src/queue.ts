@@ -0,0 +1,427 @@
+import { Sotez } from './sotez';
+import { RequestAbortedError, RpcError } from './errors';
+
+/**
+ * @description The states of a job of an operation queue:
+ *   - `pending`: waiting to be sent
+ *   - `forged`: forged, but not signed yet
+ *   - `signed`: signed, with its hash, and about to be injected
+ *   - `injected`: accepted by the node, waiting to be included
+ *   - `included`: included in a block
+ *   - `failed`: rejected by the node
+ */
+export type JobState =
+  | 'pending'
+  | 'forged'
+  | 'signed'
+  | 'injected'
+  | 'included'
+  | 'failed';
+
+export interface QueueJob {
+  id: string;
+  state: JobState;
+  /** The operation, or the batch of operations, as given to `sendOperation` */
+  operation: any;
+  source?: string;
+  /** The hash of the signed operation */
+  hash?: string;
+  /** The signed operation bytes, injected again on resume when the operation was not seen */
+  sopbytes?: string;
+  /** The hash of the block the operation is branched on */
+  branch?: string;
+  /** The block and the level the operation was included at */
+  block?: string;
+  level?: number;
+  /** The reason of the failure */
+  error?: string;
+  updatedAt: number;
+}
+
+/**
+ * @description The interface of the stores persisting the jobs of an operation queue. `save` is
+ *   called with a copy of a job on every change of its state, and must persist it before
+ *   resolving so that a job is never signed without its state being saved first.
+ */
+export interface QueueStore {
+  load: () => QueueJob[] | Promise<QueueJob[]>;
+  save: (job: QueueJob) => void | Promise<void>;
+}
+
+export interface OperationQueueOptions {
+  store?: QueueStore;
+  interval?: number;
+  timeout?: number;
+}
+
+/**
+ * @description A queue store keeping the jobs in memory, which do not survive a restart
+ */
+export class MemoryQueueStore implements QueueStore {
+  private jobs: { [id: string]: QueueJob } = {};
+
+  private order: string[] = [];
+
+  load = (): QueueJob[] =>
+    this.order.map((id) => JSON.parse(JSON.stringify(this.jobs[id])));
+
+  save = (job: QueueJob): void => {
+    if (!this.jobs[job.id]) {
+      this.order.push(job.id);
+    }
+
+    this.jobs[job.id] = JSON.parse(JSON.stringify(job));
+  };
+}
+
+// Classifications of the mempool in which an operation may still be included
+const LIVE_CLASSIFICATIONS = ['applied', 'branch_delayed', 'unprocessed'];
+
+/**
+ * @description A queue of operations persisting the state of each operation, so that a process
+ *   stopped midway can resume without sending any operation twice. The hash and the signed bytes
+ *   of an operation are saved before it is injected: on resume, an operation which was signed is
+ *   looked for in the blocks of its branch and in the mempool, injected again with the same bytes
+ *   while its branch is valid, and only sent again once its branch has expired without it being
+ *   included.
+ * @param {Object} tezos The Sotez instance sending the operations
+ * @param {Object} [options] The options
+ * @param {Object} [options.store] The store of the jobs (an in-memory store by default)
+ * @param {number} [options.interval=10] The interval to check for the inclusion of operations (in seconds)
+ * @param {number} [options.timeout=180] The time to wait for the inclusion of an operation (in seconds)
+ * @example
+ * const queue = new OperationQueue(tezos, {
+ *   store: new JsonFileQueueStore('./payouts.jsonl'),
+ * });
+ * await Promise.all(
+ *   payouts.map(({ id, to, amount }) =>
+ *     queue.add({ kind: 'transaction', destination: to, amount }, { id }),
+ *   ),
+ * );
+ * await queue.process();
+ * await queue.confirm();
+ */
+export class OperationQueue {
+  store: QueueStore;
+
+  interval: number;
+
+  timeout: number;
+
+  private _jobs: QueueJob[] = [];
+
+  private _loaded?: Promise<void>;
+
+  constructor(
+    public tezos: Sotez,
+    { store, interval = 10, timeout = 180 }: OperationQueueOptions = {},
+  ) {
+    this.store = store || new MemoryQueueStore();
+    this.interval = interval;
+    this.timeout = timeout;
+  }
+
+  get jobs(): QueueJob[] {
+    return this._jobs.map((job) => ({ ...job }));
+  }
+
+  /**
+   * @description Loads the jobs of the store, once
+   * @returns {Promise} Resolves once the jobs are loaded
+   */
+  load = (): Promise<void> => {
+    if (!this._loaded) {
+      this._loaded = Promise.resolve(this.store.load()).then((jobs) => {
+        this._jobs = jobs;
+      });
+    }
+
+    return this._loaded;
+  };
+
+  /**
+   * @description Adds an operation to the queue. Adding a job with the id of a job already in the
+   *   queue, ie. when a stopped process adds its operations again, returns the existing job.
+   * @param {Object|Array} operation The operation, or the batch of operations, to send
+   * @param {Object} [options] The options
+   * @param {string} [options.id] The id of the job
+   * @param {string} [options.source] The source address of the operation
+   * @returns {Promise} The job
+   */
+  add = async (
+    operation: any,
+    { id, source }: { id?: string; source?: string } = {},
+  ): Promise<QueueJob> => {
+    await this.load();
+
+    const existing = this._jobs.find((job) => job.id === id);
+    if (existing) {
+      return { ...existing };
+    }
+
+    const job: QueueJob = {
+      id: id ?? `${Date.now()}-${this._jobs.length}`,
+      state: 'pending',
+      operation,
+      ...(source ? { source } : {}),
+      updatedAt: Date.now(),
+    };
+
+    this._jobs.push(job);
+    await this.store.save({ ...job });
+    return { ...job };
+  };
+
+  /**
+   * @description Settles the jobs left forged, signed or injected by a stopped process, by looking
+   *   for their operations in the chain. Jobs whose branch is unknown to the node are left as they are.
+   * @param {Object} [options] The options
+   * @param {AbortSignal} [options.signal] A signal used to abort the checks
+   * @returns {Promise} The jobs
+   */
+  resume = async ({ signal }: { signal?: AbortSignal } = {}): Promise<
+    QueueJob[]
+  > => {
+    await this.load();
+
+    const unsettled = this._jobs.filter(({ state }) =>
+      ['forged', 'signed', 'injected'].includes(state),
+    );
+    const blocks: { [level: number]: { block: string; hashes: string[] } } = {};
+
+    for (let i = 0; i < unsettled.length; i++) {
+      // eslint-disable-next-line no-await-in-loop
+      await this._reconcile(unsettled[i], blocks, signal);
+    }
+
+    return this.jobs;
+  };
+
+  /**
+   * @description Sends the pending jobs one at a time, in the order they were added, after
+   *   settling the jobs left by a stopped process
+   * @param {Object} [options] The options
+   * @param {AbortSignal} [options.signal] A signal used to stop sending jobs
+   * @returns {Promise} The jobs
+   */
+  process = async ({ signal }: { signal?: AbortSignal } = {}): Promise<
+    QueueJob[]
+  > => {
+    await this.resume({ signal });
+
+    const pending = this._jobs.filter(({ state }) => state === 'pending');
+
+    for (let i = 0; i < pending.length; i++) {
+      // eslint-disable-next-line no-await-in-loop
+      await this._send(pending[i], signal);
+    }
+
+    return this.jobs;
+  };
+
+  /**
+   * @description Waits for the inclusion of the injected jobs. Jobs which are not included before
+   *   the timeout stay injected.
+   * @param {Object} [options] The options
+   * @param {AbortSignal} [options.signal] A signal used to stop waiting
+   * @returns {Promise} The jobs
+   */
+  confirm = async ({ signal }: { signal?: AbortSignal } = {}): Promise<
+    QueueJob[]
+  > => {
+    await this.load();
+
+    const injected = this._jobs.filter(({ state }) => state === 'injected');
+
+    for (let i = 0; i < injected.length; i++) {
+      // eslint-disable-next-line no-await-in-loop
+      await this._awaitInclusion(injected[i], signal);
+    }
+
+    return this.jobs;
+  };
+
+  private _update = async (
+    job: QueueJob,
+    fields: Partial<QueueJob>,
+  ): Promise<void> => {
+    Object.assign(job, fields, { updatedAt: Date.now() });
+    await this.store.save({ ...job });
+  };
+
+  private _awaitInclusion = async (
+    job: QueueJob,
+    signal?: AbortSignal,
+  ): Promise<void> => {
+    try {
+      const { level: branchLevel } = await this.tezos.getHeader({
+        block: job.branch,
+        signal,
+      });
+      const {
+        block,
+        level,
+      } = await this.tezos.awaitOperation(
+        job.hash as string,
+        this.interval,
+        this.timeout,
+        { signal, fromLevel: branchLevel + 1 },
+      );
+      await this._update(job, { state: 'included', block, level });
+    } catch (e) {
+      if (e instanceof RequestAbortedError) {
+        throw e;
+      }
+    }
+  };
+
+  private _send = async (
+    job: QueueJob,
+    signal?: AbortSignal,
+  ): Promise<void> => {
+    try {
+      const { hash } = await this.tezos.sendOperation({
+        operation: job.operation,
+        source: job.source,
+        signal,
+        onForged: ({ opOb }) =>
+          this._update(job, {
+            state: 'forged',
+            branch: opOb.branch,
+            hash: undefined,
+            sopbytes: undefined,
+          }),
+        onSigned: ({ hash: signedHash, sopbytes, branch }) =>
+          this._update(job, {
+            state: 'signed',
+            hash: signedHash,
+            sopbytes,
+            branch,
+          }),
+      });
+
+      await this._update(job, { state: 'injected', hash });
+    } catch (e) {
+      if (e instanceof RequestAbortedError) {
+        // A signed operation may have reached the node, it is settled on resume
+        if (job.state !== 'signed') {
+          await this._update(job, { state: 'pending' });
+        }
+        throw e;
+      }
+
+      await this._update(job, { state: 'failed', error: e.message });
+    }
+  };
+
+  private _reconcile = async (
+    job: QueueJob,
+    blocks: { [level: number]: { block: string; hashes: string[] } },
+    signal?: AbortSignal,
+  ): Promise<void> => {
+    const query = (path: string): Promise<any> =>
+      this.tezos.query(
+        `/chains/${this.tezos.chain}/blocks/${path}`,
+        undefined,
+        undefined,
+        { signal },
+      );
+
+    // The operation was not signed, so it cannot have been injected
+    if (job.state === 'forged' || !job.hash || !job.sopbytes) {
+      await this._update(job, { state: 'pending', hash: undefined });
+      return;
+    }
+
+    const [head, metadata]: any[] = await Promise.all([
+      this.tezos.getHeader({ signal }),
+      this.tezos.getHeadMetadata({ signal }),
+    ]);
+    let branchLevel: number;
+
+    try {
+      ({ level: branchLevel } = await this.tezos.getHeader({
+        block: job.branch,
+        signal,
+      }));
+    } catch (e) {
+      // A branch unknown to the node, ie. on a node not synced yet, tells nothing about the
+      // operation: the job keeps its signed bytes until a later resume
+      if (e instanceof RpcError && e.status === 404) {
+        return;
+      }
+      throw e;
+    }
+
+    const expiresAt = branchLevel + (metadata.max_operations_ttl ?? 60);
+    let included: number | undefined;
+
+    for (
+      let level = branchLevel + 1;
+      level <= Math.min(head.level, expiresAt);
+      level++
+    ) {
+      if (!blocks[level]) {
+        // eslint-disable-next-line no-await-in-loop
+        const block: string = await query(`${level}/hash`);
+        // eslint-disable-next-line no-await-in-loop
+        const hashes: string[][] = await query(`${block}/operation_hashes`);
+        blocks[level] = {
+          block,
+          hashes: hashes.reduce((all, pass) => all.concat(pass), []),
+        };
+      }
+
+      if (blocks[level].hashes.includes(job.hash)) {
+        included = level;
+        break;
+      }
+    }
+
+    if (included !== undefined) {
+      await this._update(job, {
+        state: 'included',
+        block: blocks[included].block,
+        level: included,
+      });
+      return;
+    }
+
+    if (head.level <= expiresAt) {
+      const pending = await this.tezos.getPendingOperations(
+        { hash: job.hash },
+        { signal },
+      );
+
+      if (
+        LIVE_CLASSIFICATIONS.some(
+          (classification) =>
+            pending[classification as keyof typeof pending].length,
+        )
+      ) {
+        await this._update(job, { state: 'injected' });
+        return;
+      }
+
+      try {
+        await this.tezos.silentInject(job.sopbytes, { signal });
+        await this._update(job, { state: 'injected' });
+      } catch (e) {
+        if (e instanceof RequestAbortedError) {
+          throw e;
+        }
+        await this._update(job, { state: 'failed', error: e.message });
+      }
+      return;
+    }
+
+    // The head is past the expiry of the branch without the operation being included, it can be
+    // sent again
+    await this._update(job, {
+      state: 'pending',
+      hash: undefined,
+      sopbytes: undefined,
+      branch: undefined,
+    });
+  };
+}
@@ -0,0 +1,312 @@
+import { RpcErrorObject } from './errors';
+
+export type OperationStatus = 'applied' | 'failed' | 'skipped' | 'backtracked';
+
+/**
+ * @description A change of balance. `kind` is `contract` for the balance of an account,
+ *   `freezer` for the deposits, rewards and fees frozen by a baker, and `accumulator`, `minted`,
+ *   `burned` or `commitment` for the other balances of recent protocols, `category` telling which
+ *   one (ie. `fees`, `block fees` or `storage fees`).
+ */
+export interface BalanceUpdate {
+  kind: string;
+  category?: string;
+  contract?: string;
+  delegate?: string;
+  cycle?: number;
+  level?: number;
+  /** The change of the balance, in mutez */
+  change: string;
+  origin?: string;
+}
+
+/**
+ * @description A change of a big map. `update` and `remove` change a key of `bigMap`, `copy`
+ *   copies `sourceBigMap` into `bigMap` and `alloc` allocates `bigMap`.
+ */
+export interface BigMapDiff {
+  action: 'update' | 'remove' | 'copy' | 'alloc';
+  bigMap?: string;
+  sourceBigMap?: string;
+  keyHash?: string;
+  key?: any;
+  value?: any;
+  keyType?: any;
+  valueType?: any;
+}
+
+export interface OperationResult {
+  status: OperationStatus;
+  consumedGas: string;
+  consumedMilligas: string;
+  storageSize: string;
+  /** The number of bytes of storage paid for by the operation */
+  paidStorageSizeDiff: string;
+  balanceUpdates: BalanceUpdate[];
+  originatedContracts: string[];
+  bigMapDiff: BigMapDiff[];
+  errors: RpcErrorObject[];
+}
+
+export interface InternalOperationReceipt extends OperationResult {
+  kind: string;
+  source: string;
+  nonce: number;
+  destination?: string;
+  amount?: string;
+  entrypoint?: string;
+  parameters?: any;
+}
+
+export interface OperationReceipt extends OperationResult {
+  kind: string;
+  source?: string;
+  destination?: string;
+  counter?: string;
+  /** The fee of the operation, in mutez */
+  fee: string;
+  /** The payment of the fee */
+  feeBalanceUpdates: BalanceUpdate[];
+  internalOperations: InternalOperationReceipt[];
+  /** The operation, as returned by the node */
+  operation: any;
+}
+
+/**
+ * @description The receipt of an operation, with the totals of its operations and of their
+ *   internal operations
+ */
+export interface Receipt {
+  hash?: string;
+  /** `applied` when every operation was applied, otherwise `failed` */
+  status: 'applied' | 'failed';
+  consumedGas: string;
+  consumedMilligas: string;
+  paidStorageSizeDiff: string;
+  fee: string;
+  originatedContracts: string[];
+  errors: RpcErrorObject[];
+  operations: OperationReceipt[];
+}
+
+const toInteger = (value: any): number => parseInt(value ?? 0, 10) || 0;
+
+/**
+ * @description Normalizes a balance update of any protocol
+ * @param {Object} update The balance update, as returned by the node
+ * @returns {Object} The balance update
+ */
+export const parseBalanceUpdate = (update: any): BalanceUpdate => ({
+  kind: update.kind,
+  ...(update.category !== undefined ? { category: update.category } : {}),
+  ...(update.contract !== undefined ? { contract: update.contract } : {}),
+  // Freezer updates name the baker `baker` in some protocols
+  ...(update.delegate !== undefined || update.baker !== undefined
+    ? { delegate: update.delegate ?? update.baker }
+    : {}),
+  ...(update.cycle !== undefined ? { cycle: toInteger(update.cycle) } : {}),
+  ...(update.level !== undefined ? { level: toInteger(update.level) } : {}),
+  change: `${update.change}`,
+  ...(update.origin !== undefined ? { origin: update.origin } : {}),
+});
+
+/**
+ * @description Normalizes the big map diffs of a result, given as a `big_map_diff` before Edo
+ *   and as a `lazy_storage_diff` since
+ * @param {Object} result The result of an operation
+ * @returns {Array} The big map diffs
+ */
+export const parseBigMapDiff = (result: any): BigMapDiff[] => {
+  if (Array.isArray(result.lazy_storage_diff)) {
+    return result.lazy_storage_diff
+      .filter(({ kind }: any) => kind === 'big_map')
+      .reduce((diffs: BigMapDiff[], { id, diff }: any) => {
+        const bigMap = `${id}`;
+
+        if (diff.action === 'remove') {
+          return [...diffs, { action: 'remove', bigMap }];
+        }
+
+        const allocation: BigMapDiff[] = [];
+
+        if (diff.action === 'alloc') {
+          allocation.push({
+            action: 'alloc',
+            bigMap,
+            keyType: diff.key_type,
+            valueType: diff.value_type,
+          });
+        } else if (diff.action === 'copy') {
+          allocation.push({
+            action: 'copy',
+            bigMap,
+            sourceBigMap: `${diff.source}`,
+          });
+        }
+
+        return [
+          ...diffs,
+          ...allocation,
+          ...(diff.updates || []).map(
+            (update: any): BigMapDiff => ({
+              action: update.value === undefined ? 'remove' : 'update',
+              bigMap,
+              keyHash: update.key_hash,
+              key: update.key,
+              ...(update.value !== undefined ? { value: update.value } : {}),
+            }),
+          ),
+        ];
+      }, []);
+  }
+
+  return (result.big_map_diff || []).map(
+    (diff: any): BigMapDiff => {
+      switch (diff.action) {
+        case 'alloc':
+          return {
+            action: 'alloc',
+            bigMap: `${diff.big_map}`,
+            keyType: diff.key_type,
+            valueType: diff.value_type,
+          };
+        case 'copy':
+          return {
+            action: 'copy',
+            bigMap: `${diff.destination_big_map}`,
+            sourceBigMap: `${diff.source_big_map}`,
+          };
+        case 'remove':
+          return { action: 'remove', bigMap: `${diff.big_map}` };
+        default:
+          return {
+            action: diff.value === undefined ? 'remove' : 'update',
+            ...(diff.big_map !== undefined
+              ? { bigMap: `${diff.big_map}` }
+              : {}),
+            keyHash: diff.key_hash,
+            key: diff.key,
+            ...(diff.value !== undefined ? { value: diff.value } : {}),
+          };
+      }
+    },
+  );
+};
+
+/**
+ * @description Normalizes the result of an operation or of an internal operation. Gas is given
+ *   in gas units before Granada and in milligas since, both are returned.
+ * @param {Object} [result] The `operation_result` or the `result` of an internal operation
+ * @returns {Object} The result
+ */
+export const parseOperationResult = (result: any = {}): OperationResult => {
+  const consumedMilligas =
+    result.consumed_milligas !== undefined
+      ? toInteger(result.consumed_milligas)
+      : toInteger(result.consumed_gas) * 1000;
+
+  return {
+    status: result.status || 'applied',
+    consumedGas:
+      result.consumed_gas !== undefined
+        ? `${toInteger(result.consumed_gas)}`
+        : `${Math.ceil(consumedMilligas / 1000)}`,
+    consumedMilligas: `${consumedMilligas}`,
+    storageSize: `${toInteger(result.storage_size)}`,
+    paidStorageSizeDiff: `${toInteger(result.paid_storage_size_diff)}`,
+    balanceUpdates: (result.balance_updates || []).map(parseBalanceUpdate),
+    originatedContracts: result.originated_contracts || [],
+    bigMapDiff: parseBigMapDiff(result),
+    errors: result.errors || [],
+  };
+};
+
+const parseInternalOperation = (content: any): InternalOperationReceipt => ({
+  kind: content.kind,
+  source: content.source,
+  nonce: content.nonce,
+  ...(content.destination !== undefined
+    ? { destination: content.destination }
+    : {}),
+  ...(content.amount !== undefined ? { amount: `${content.amount}` } : {}),
+  ...(content.parameters !== undefined
+    ? {
+        entrypoint: content.parameters.entrypoint,
+        parameters: content.parameters.value,
+      }
+    : {}),
+  ...parseOperationResult(content.result),
+});
+
+/**
+ * @description Parses the receipt of an operation of a batch
+ * @param {Object} content The operation with its metadata, as returned by the node
+ * @returns {Object} The receipt of the operation
+ */
+export const parseOperationReceipt = (content: any): OperationReceipt => {
+  const metadata = content.metadata || {};
+
+  return {
+    kind: content.kind,
+    ...(content.source !== undefined ? { source: content.source } : {}),
+    ...(content.destination !== undefined
+      ? { destination: content.destination }
+      : {}),
+    ...(content.counter !== undefined ? { counter: content.counter } : {}),
+    fee: `${toInteger(content.fee)}`,
+    feeBalanceUpdates: (metadata.balance_updates || []).map(parseBalanceUpdate),
+    internalOperations: (
+      metadata.internal_operation_results || []
+    ).map((internal: any) => parseInternalOperation(internal)),
+    operation: content,
+    ...parseOperationResult(metadata.operation_result),
+  };
+};
+
+/**
+ * @description Parses the receipt of an operation, from the contents of an injected, simulated or
+ *   included operation
+ * @param {Array} contents The operations with their metadata, as returned by the node
+ * @param {string} [hash] The hash of the operation
+ * @returns {Object} The receipt
+ * @example
+ * const { receipt } = await sotez.transfer({ to: 'tz1...', amount: 1000000 });
+ * console.log(receipt.status, receipt.consumedGas, receipt.operations[0].balanceUpdates);
+ */
+export const parseReceipt = (contents: any[] = [], hash?: string): Receipt => {
+  const operations = contents.map(parseOperationReceipt);
+  const results: OperationResult[] = operations.reduce(
+    (all: OperationResult[], operation) => [
+      ...all,
+      operation,
+      ...operation.internalOperations,
+    ],
+    [],
+  );
+  const sum = (field: 'consumedMilligas' | 'paidStorageSizeDiff'): number =>
+    results.reduce((total, result) => total + toInteger(result[field]), 0);
+  const consumedMilligas = sum('consumedMilligas');
+
+  return {
+    ...(hash !== undefined ? { hash } : {}),
+    status: results.every(({ status }) => status === 'applied')
+      ? 'applied'
+      : 'failed',
+    consumedGas: `${Math.ceil(consumedMilligas / 1000)}`,
+    consumedMilligas: `${consumedMilligas}`,
+    paidStorageSizeDiff: `${sum('paidStorageSizeDiff')}`,
+    fee: `${operations.reduce((total, { fee }) => total + toInteger(fee), 0)}`,
+    originatedContracts: results.reduce(
+      (all: string[], { originatedContracts }) => [
+        ...all,
+        ...originatedContracts,
+      ],
+      [],
+    ),
+    errors: results.reduce(
+      (all: RpcErrorObject[], { errors }) => [...all, ...errors],
+      [],
+    ),
+    operations,
+  };
+};
@@ -0,0 +1,200 @@
+import {
+  Transport,
+  FetchTransport,
+  TransportRequest,
+  TransportResponse,
+} from './transport';
+import { SotezError, UnrecordedRequestError } from './errors';
+
+export interface Fixture {
+  method: string;
+  path: string;
+  body?: any;
+  response: {
+    ok: boolean;
+    status: number;
+    body: any;
+  };
+  chunks?: string[];
+}
+
+const sortKeys = (value: any): any => {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .reduce(
+        (sorted, key) => ({ ...sorted, [key]: sortKeys(value[key]) }),
+        {},
+      );
+  }
+
+  return value;
+};
+
+/**
+ * @description Strips the provider from the url of a request
+ * @param {string} url The url of the request
+ * @returns {string} The path of the request, with its query string
+ */
+export const fixturePath = (url: string): string =>
+  url.replace(/^[a-z]+:\/\/[^/]+/i, '');
+
+/**
+ * @description Parses the body of a request, with its object keys sorted, so that equivalent
+ *   bodies are recorded and matched identically
+ * @param {string} [body] The body of the request
+ * @returns {*} The normalized body
+ */
+export const normalizeBody = (body?: string): any => {
+  if (body === undefined) {
+    return undefined;
+  }
+
+  try {
+    return sortKeys(JSON.parse(body));
+  } catch (e) {
+    return body;
+  }
+};
+
+const fixtureKey = (method: string, path: string, body?: any): string =>
+  JSON.stringify([method, path, body === undefined ? null : body]);
+
+/**
+ * @description A transport recording every request and response pair sent through another
+ *   transport, to be served back by a `ReplayTransport`. The recorded `fixtures` can be saved as a
+ *   JSON fixture file with `saveFixtures` from `sotez/node`.
+ * @param {Object} [transport] The transport sending the requests (defaults to a `FetchTransport`)
+ * @example
+ * const recorder = new RecordingTransport();
+ * const tezos = new Sotez('https://127.0.0.1:8732', 'main', { transport: recorder });
+ * await tezos.transfer({ to: 'tz1...', amount: 1 });
+ * saveFixtures('./fixtures/transfer.json', recorder.fixtures);
+ */
+export class RecordingTransport implements Transport {
+  fixtures: Fixture[] = [];
+
+  constructor(private transport: Transport = new FetchTransport()) {}
+
+  request = async (request: TransportRequest): Promise<TransportResponse> => {
+    const response = await this.transport.request(request);
+
+    this.fixtures.push({
+      method: request.method,
+      path: fixturePath(request.url),
+      body: normalizeBody(request.body),
+      response,
+    });
+
+    return response;
+  };
+
+  stream = async (
+    request: TransportRequest,
+    onChunk: (chunk: string) => void,
+  ): Promise<TransportResponse> => {
+    if (!this.transport.stream) {
+      throw new SotezError('The transport does not support streaming');
+    }
+
+    const fixture: Fixture = {
+      method: request.method,
+      path: fixturePath(request.url),
+      body: normalizeBody(request.body),
+      response: { ok: true, status: 200, body: undefined },
+      chunks: [],
+    };
+    this.fixtures.push(fixture);
+
+    fixture.response = await this.transport.stream(request, (chunk) => {
+      fixture.chunks?.push(chunk);
+      onChunk(chunk);
+    });
+
+    return fixture.response;
+  };
+}
+
+/**
+ * @description A transport serving recorded responses, matched on the method, the path and the
+ *   normalized body of the requests. Identical requests are served the recorded responses in
+ *   order, the last one being served again once all of them have been used. Streams are served
+ *   their recorded chunks and then stay open until aborted, or end when they have no signal.
+ * @param {Array} fixtures The recorded fixtures, ie. loaded with `loadFixtures` from `sotez/node`
+ * @example
+ * const tezos = new Sotez('https://127.0.0.1:8732', 'main', {
+ *   transport: new ReplayTransport(loadFixtures('./fixtures/transfer.json')),
+ * });
+ */
+export class ReplayTransport implements Transport {
+  fixtures: Fixture[];
+
+  private _served: { [key: string]: number } = {};
+
+  constructor(fixtures: Fixture[]) {
+    this.fixtures = fixtures;
+  }
+
+  /**
+   * @description The fixtures which have not been served yet
+   * @returns {Array} The unused fixtures
+   */
+  get unused(): Fixture[] {
+    const counts: { [key: string]: number } = {};
+
+    return this.fixtures.filter(({ method, path, body }) => {
+      const key = fixtureKey(method, path, body);
+      counts[key] = (counts[key] || 0) + 1;
+      return counts[key] > (this._served[key] || 0);
+    });
+  }
+
+  request = async (request: TransportRequest): Promise<TransportResponse> =>
+    this._match(request).response;
+
+  stream = (
+    request: TransportRequest,
+    onChunk: (chunk: string) => void,
+  ): Promise<TransportResponse> => {
+    const { response, chunks = [] } = this._match(request);
+
+    if (!response.ok) {
+      return Promise.resolve(response);
+    }
+
+    chunks.forEach(onChunk);
+
+    const { signal } = request;
+
+    if (!signal || signal.aborted) {
+      return Promise.resolve(response);
+    }
+
+    return new Promise((resolve) => {
+      signal.addEventListener('abort', () => resolve(response));
+    });
+  };
+
+  private _match = ({ method, url, body }: TransportRequest): Fixture => {
+    const path = fixturePath(url);
+    const normalized = normalizeBody(body);
+    const key = fixtureKey(method, path, normalized);
+    const matches = this.fixtures.filter(
+      (fixture) =>
+        fixtureKey(fixture.method, fixture.path, fixture.body) === key,
+    );
+
+    if (!matches.length) {
+      throw new UnrecordedRequestError(method, path, normalized);
+    }
+
+    const served = this._served[key] || 0;
+    this._served[key] = served + 1;
+
+    return matches[Math.min(served, matches.length - 1)];
+  };
+}
@@ -1,17 +1,104 @@
-import { AbstractTezModule } from './tez-core';
+import {
+  AbstractTezModule,
+  BlockOptions,
+  QueryOptions,
+  RetryOptions,
+  resolveBlock,
+} from './tez-core';
+import { Transport } from './transport';
+import { ProviderPoolOptions } from './providerPool';
+import { CacheOptions } from './cache';
+import { MonitorOptions, Subscription } from './monitor';
+import { Logger } from './logger';
+import { Middleware } from './middleware';
+import {
+  MempoolFilter,
+  PendingOperation,
+  PendingOperations,
+  MEMPOOL_CLASSIFICATIONS,
+  MONITORED_CLASSIFICATIONS,
+  matchesMempoolFilter,
+  monitorOperationsQuery,
+  toPendingOperation,
+} from './mempool';
 import { Key } from './key';
 import { Contract } from './contract';
 import { forge } from './forge';
-import { mutez, totez, sexp2mic, ml2mic } from './utility';
-import { magicBytes, protocols } from './constants';
+import { CounterManager, CounterStore, MemoryCounterStore } from './counters';
+import { Receipt, parseReceipt } from './receipts';
+import {
+  FeeBreakdown,
+  FeeParameters,
+  FeeStrategy,
+  estimateFee,
+  feeStrategyName,
+  parseFeeParameters,
+} from './fees';
+import { signature as forgeSignature } from './encoding';
+import { verify } from './cryptoUtils';
+import {
+  SignedEnvelope,
+  UnsignedEnvelope,
+  ENVELOPE_VERSION,
+  validateEnvelope,
+} from './envelope';
+import { mutez, totez, sexp2mic, ml2mic, operationHash } from './utility';
+import { magicBytes } from './constants';
+import { getProtocol } from './protocols';
+import {
+  CounterInTheFutureError,
+  CounterInThePastError,
+  EnvelopeExpiredError,
+  FeeCapExceededError,
+  InvalidEnvelopeError,
+  InvalidSignatureError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  RpcError,
+  SotezError,
+  TransportError,
+  TezosRpcError,
+  parseRpcError,
+} from './errors';
 
 interface ModuleOptions {
   defaultFee?: number;
+  feeMargin?: number;
+  feeStrategy?: FeeStrategy;
+  counterStore?: CounterStore;
   localForge?: boolean;
   validateLocalForge?: boolean;
   debugMode?: boolean;
   useMutez?: boolean;
   dryRunLimiter?: boolean;
+  transport?: Transport;
+  retry?: RetryOptions;
+  pool?: ProviderPoolOptions;
+  timeout?: number;
+  cache?: boolean | CacheOptions;
+  logger?: Logger;
+  middleware?: Middleware[];
+}
+
+interface InlinedEndorsement {
+  branch: string;
+  operations: { kind: 'endorsement'; level: number };
+  signature?: string;
+}
+
+interface BlockHeader {
+  level: number;
+  proto: number;
+  predecessor: string;
+  timestamp: string;
+  validation_pass: number;
+  operations_hash: string;
+  fitness: string[];
+  context: string;
+  priority: number;
+  proof_of_work_nonce: string;
+  seed_nonce_hash?: string;
+  signature: string;
 }
 
 interface Operation {
@@ -40,6 +127,22 @@ interface Operation {
   script?: { code: Micheline; storage: Micheline };
   manager_pubkey?: string;
   managerPubkey?: string;
+  proposals?: string[];
+  slot?: number;
+  endorsement?: InlinedEndorsement;
+  op1?: InlinedEndorsement;
+  op2?: InlinedEndorsement;
+  bh1?: BlockHeader;
+  bh2?: BlockHeader;
+  value?: Micheline;
+  limit?: number | string;
+  ticket_contents?: Micheline;
+  ticket_ty?: Micheline;
+  ticket_ticketer?: string;
+  ticket_amount?: number | string;
+  entrypoint?: string;
+  pk?: string;
+  consensus_key?: string;
 }
 
 interface Head {
@@ -68,6 +171,22 @@ interface Header {
   signature: string;
 }
 
+interface Inclusion {
+  block: string;
+  level: number;
+  operation: any;
+  receipt: Receipt;
+  confirmations: number;
+}
+
+interface AwaitOperationOptions {
+  signal?: AbortSignal;
+  monitor?: boolean;
+  confirmations?: number;
+  fromLevel?: number;
+  onReorg?: (inclusion: Inclusion) => void;
+}
+
 interface Baker {
   balance: string;
   frozen_balance: string;
@@ -117,6 +236,22 @@ interface ConstructedOperation {
   script: { code: Micheline; storage: Micheline };
   manager_pubkey: string;
   managerPubkey: string;
+  proposals: string[];
+  slot: number;
+  endorsement: InlinedEndorsement;
+  op1: InlinedEndorsement;
+  op2: InlinedEndorsement;
+  bh1: BlockHeader;
+  bh2: BlockHeader;
+  value: Micheline;
+  limit?: string;
+  ticket_contents: Micheline;
+  ticket_ty: Micheline;
+  ticket_ticketer: string;
+  ticket_amount: string;
+  entrypoint: string;
+  pk: string;
+  consensus_key: string;
 }
 
 type Micheline =
@@ -169,6 +304,7 @@ interface RpcParams {
   amount: number;
   init?: string;
   fee?: number;
+  feeStrategy?: FeeStrategy;
   parameters?: string | Micheline;
   gasLimit?: number;
   storageLimit?: number;
@@ -184,6 +320,7 @@ interface AccountParams {
   delegatable?: boolean;
   delegate?: string;
   fee?: number;
+  feeStrategy?: FeeStrategy;
   gasLimit?: number;
   storageLimit?: number;
 }
@@ -191,10 +328,25 @@ interface AccountParams {
 interface OperationParams {
   operation: Operation | Operation[];
   source?: string;
+  feeStrategy?: FeeStrategy;
+  signal?: AbortSignal;
   skipPrevalidation?: boolean;
   skipSignature?: boolean;
   skipCounter?: boolean;
   skipEstimate?: boolean;
+  onForged?: (forged: ForgedBytes) => void | Promise<void>;
+  onSigned?: (signed: SignedOperation) => void | Promise<void>;
+}
+
+interface SignedOperation {
+  hash: string;
+  sopbytes: string;
+  branch: string;
+}
+
+interface InjectSignedOptions {
+  skipPrevalidation?: boolean;
+  signal?: AbortSignal;
 }
 
 interface ContractParams {
@@ -203,6 +355,7 @@ interface ContractParams {
   delegatable?: boolean;
   delegate?: string;
   fee?: number;
+  feeStrategy?: FeeStrategy;
   gasLimit?: number;
   init: string | Micheline;
   micheline?: boolean;
@@ -215,6 +368,7 @@ interface ForgedBytes {
   opOb: OperationObject;
   counter: number;
   chainId: string;
+  fees: FeeBreakdown;
 }
 
 interface Signed {
@@ -227,6 +381,35 @@ interface Signed {
 
 const DEFAULT_FEE = 1420;
 
+const DEFAULT_FEE_MARGIN = 100;
+
+// Failures after which an injected operation may or may not have reached the node
+const isAmbiguousInjectionError = (error: any): boolean =>
+  error instanceof RequestTimeoutError ||
+  error instanceof RequestAbortedError ||
+  error instanceof TransportError ||
+  (error instanceof RpcError && [502, 503, 504].includes(error.status || 0));
+
+// Failures of a check for an operation after which the next check may succeed
+const isTransientError = (error: any): boolean =>
+  error instanceof RequestTimeoutError ||
+  ((error instanceof RpcError || error instanceof TezosRpcError) &&
+    error.status !== undefined &&
+    error.status >= 500);
+
+// The operation kinds paying fees and consuming a counter of their source
+const MANAGER_OPERATIONS = [
+  'reveal',
+  'transaction',
+  'origination',
+  'delegation',
+  'register_global_constant',
+  'set_deposits_limit',
+  'increase_paid_storage',
+  'transfer_ticket',
+  'update_consensus_key',
+];
+
 /**
  * Main Sotez Library
  *
@@ -246,7 +429,13 @@ export class Sotez extends AbstractTezModule {
 
   _defaultFee: number;
 
-  _counters: { [key: string]: number };
+  _flatFee: boolean;
+
+  _feeMargin: number;
+
+  _feeStrategy: FeeStrategy;
+
+  _counterManager: CounterManager;
 
   _useMutez: boolean;
 
@@ -255,11 +444,11 @@ export class Sotez extends AbstractTezModule {
   key: Key;
 
   constructor(
-    provider = 'http://127.0.0.1:8732',
+    provider: string | string[] = 'http://127.0.0.1:8732',
     chain = 'main',
     options: ModuleOptions = {},
   ) {
-    super(provider, chain, options.debugMode);
+    super(provider, chain, options);
     this._localForge = options.localForge !== false;
     this._validateLocalForge = options.validateLocalForge || false;
     this._debugMode = options.debugMode || false;
@@ -267,7 +456,10 @@ export class Sotez extends AbstractTezModule {
     this._dryRunLimiter = options.dryRunLimiter || false;
     this._defaultFee =
       options.defaultFee || (this._useMutez ? DEFAULT_FEE : totez(DEFAULT_FEE));
-    this._counters = {};
+    this._flatFee = !!options.defaultFee && !options.feeStrategy;
+    this._feeMargin = options.feeMargin ?? DEFAULT_FEE_MARGIN;
+    this._feeStrategy = options.feeStrategy || 'minimal';
+    this._counterManager = new CounterManager(options.counterStore);
   }
 
   get defaultFee(): number {
@@ -276,6 +468,24 @@ export class Sotez extends AbstractTezModule {
 
   set defaultFee(fee: number) {
     this._defaultFee = fee;
+    this._flatFee = true;
+  }
+
+  get feeMargin(): number {
+    return this._feeMargin;
+  }
+
+  set feeMargin(margin: number) {
+    this._feeMargin = margin;
+  }
+
+  get feeStrategy(): FeeStrategy {
+    return this._feeStrategy;
+  }
+
+  set feeStrategy(strategy: FeeStrategy) {
+    this._feeStrategy = strategy;
+    this._flatFee = false;
   }
 
   get localForge(): boolean {
@@ -294,12 +504,17 @@ export class Sotez extends AbstractTezModule {
     this._validateLocalForge = value;
   }
 
+  get counterManager(): CounterManager {
+    return this._counterManager;
+  }
+
   get counters(): { [key: string]: number } {
-    return this._counters;
+    const { store } = this._counterManager;
+    return store instanceof MemoryCounterStore ? store.counters : {};
   }
 
   set counters(counters: { [key: string]: number }) {
-    this._counters = counters;
+    this._counterManager.store = new MemoryCounterStore(counters);
   }
 
   get debugMode(): boolean {
@@ -326,12 +541,6 @@ export class Sotez extends AbstractTezModule {
     this._dryRunLimiter = t;
   }
 
-  setProvider(provider: string, chain: string = this.chain): void {
-    super.setProvider(provider, chain);
-    this.provider = provider;
-    this.chain = chain;
-  }
-
   /**
    * @description Import a secret key
    * @param {string} key The secret key
@@ -378,7 +587,8 @@ export class Sotez extends AbstractTezModule {
    * @param {boolean} [paramObject.spendable] Whether the keyholder can spend the balance from the new account
    * @param {boolean} [paramObject.delegatable] Whether the new account is delegatable
    * @param {string} [paramObject.delegate] The delegate for the new account
-   * @param {number} [paramObject.fee=1420] The fee to set for the transaction
+   * @param {number} [paramObject.fee] The fee to set for the transaction (computed from its size and gas limit by default)
+   * @param {string|Object|Function} [paramObject.feeStrategy] The fee strategy of the operation, overriding the one of the instance
    * @param {number} [paramObject.gasLimit=10600] The gas limit to set for the transaction
    * @param {number} [paramObject.storageLimit=257] The storage limit to set for the transaction
    * @returns {Promise} Object containing the injected operation hash
@@ -388,14 +598,15 @@ export class Sotez extends AbstractTezModule {
    *   spendable: true,
    *   delegatable: true,
    *   delegate: 'tz1fXdNLZ4jrkjtgJWMcfeNpFDK9mbCBsaV4',
-   * }).then(res => console.log(res.operations[0].metadata.operation_result.originated_contracts[0]));
+   * }).then(res => console.log(res.receipt.originatedContracts[0]));
    */
   account = async ({
     balance,
     spendable,
     delegatable,
     delegate,
-    fee = this.defaultFee,
+    fee,
+    feeStrategy,
     gasLimit = 10600,
     storageLimit = 257,
   }: AccountParams): Promise<any> => {
@@ -420,33 +631,50 @@ export class Sotez extends AbstractTezModule {
       ...params,
     };
 
-    return this.sendOperation({ operation });
+    return this.sendOperation({ operation, feeStrategy });
   };
 
   /**
    * @description Get the balance for a contract
    * @param {string} address The contract for which to retrieve the balance
+   * @param {Object} [options] The query options
+   * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
    * @returns {Promise} The balance of the contract
    * @example
    * sotez.getBalance('tz1fXdNLZ4jrkjtgJWMcfeNpFDK9mbCBsaV4')
    *   .then(balance => console.log(balance));
    */
-  getBalance = (address: string): Promise<string> =>
+  getBalance = (address: string, options: BlockOptions = {}): Promise<string> =>
     this.query(
-      `/chains/${this.chain}/blocks/head/context/contracts/${address}/balance`,
+      `/chains/${this.chain}/blocks/${resolveBlock(
+        options.block,
+      )}/context/contracts/${address}/balance`,
+      undefined,
+      undefined,
+      options,
     );
 
   /**
    * @description Get the delegate for a contract
    * @param {string} address The contract for which to retrieve the delegate
+   * @param {Object} [options] The query options
+   * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
    * @returns {Promise} The delegate of a contract, if any
    * @example
    * sotez.getDelegate('tz1fXdNLZ4jrkjtgJWMcfeNpFDK9mbCBsaV4')
    *   .then(delegate => console.log(delegate));
    */
-  getDelegate = (address: string): Promise<string> =>
+  getDelegate = (
+    address: string,
+    options: BlockOptions = {},
+  ): Promise<string> =>
     this.query(
-      `/chains/${this.chain}/blocks/head/context/contracts/${address}/delegate`,
+      `/chains/${this.chain}/blocks/${resolveBlock(
+        options.block,
+      )}/context/contracts/${address}/delegate`,
+      undefined,
+      undefined,
+      options,
     ).then((delegate: string) => {
       if (!delegate) {
         return '';
@@ -457,32 +685,74 @@ export class Sotez extends AbstractTezModule {
   /**
    * @description Get the manager for a contract
    * @param {string} address The contract for which to retrieve the manager
+   * @param {Object} [options] The query options
+   * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
    * @returns {Promise} The manager of a contract
    * @example
    * sotez.getManager('tz1fXdNLZ4jrkjtgJWMcfeNpFDK9mbCBsaV4')
    *   .then(({ manager, key }) => console.log(manager, key));
    */
-  getManager = (address: string): Promise<{ manager: string; key: string }> =>
+  getManager = (
+    address: string,
+    options: BlockOptions = {},
+  ): Promise<{ manager: string; key: string }> =>
     this.query(
-      `/chains/${this.chain}/blocks/head/context/contracts/${address}/manager_key`,
+      `/chains/${this.chain}/blocks/${resolveBlock(
+        options.block,
+      )}/context/contracts/${address}/manager_key`,
+      undefined,
+      undefined,
+      options,
     );
 
   /**
    * @description Get the counter for an contract
    * @param {string} address The contract for which to retrieve the counter
+   * @param {Object} [options] The query options
+   * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
    * @returns {Promise} The counter of a contract, if any
    * @example
    * sotez.getCounter('tz1fXdNLZ4jrkjtgJWMcfeNpFDK9mbCBsaV4')
    *   .then(counter => console.log(counter));
    */
-  getCounter = (address: string): Promise<string> =>
+  getCounter = (address: string, options: BlockOptions = {}): Promise<string> =>
     this.query(
-      `/chains/${this.chain}/blocks/head/context/contracts/${address}/counter`,
+      `/chains/${this.chain}/blocks/${resolveBlock(
+        options.block,
+      )}/context/contracts/${address}/counter`,
+      undefined,
+      undefined,
+      options,
     );
 
+  /**
+   * @description Get the minimal fee parameters of the mempool of the node. Nodes which do not
+   *   expose their mempool filter are assumed to use the default parameters.
+   * @param {Object} [options] The query options
+   * @returns {Promise} The base fee in mutez, and the prices of a byte and of a gas unit in nanotez
+   * @example
+   * sotez.getFeeParameters()
+   *   .then(({ minimalFees, nanotezPerByte, nanotezPerGasUnit }) => console.log(minimalFees));
+   */
+  getFeeParameters = (options: QueryOptions = {}): Promise<FeeParameters> =>
+    this.query(
+      `/chains/${this.chain}/mempool/filter`,
+      undefined,
+      undefined,
+      options,
+    ).then(parseFeeParameters, (error) => {
+      if (error instanceof RequestAbortedError) {
+        throw error;
+      }
+
+      return parseFeeParameters();
+    });
+
   /**
    * @description Get the baker information for an address
    * @param {string} address The contract for which to retrieve the baker information
+   * @param {Object} [options] The query options
+   * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
    * @returns {Promise} The information of the delegate address
    * @example
    * sotez.getBaker('tz1fXdNLZ4jrkjtgJWMcfeNpFDK9mbCBsaV4')
@@ -506,58 +776,102 @@ export class Sotez extends AbstractTezModule {
    *     grace_period,
    *   ));
    */
-  getBaker = (address: string): Promise<Baker> =>
+  getBaker = (address: string, options: BlockOptions = {}): Promise<Baker> =>
     this.query(
-      `/chains/${this.chain}/blocks/head/context/delegates/${address}`,
+      `/chains/${this.chain}/blocks/${resolveBlock(
+        options.block,
+      )}/context/delegates/${address}`,
+      undefined,
+      undefined,
+      options,
     );
 
   /**
-   * @description Get the header of the current head
+   * @description Get the header of a block, the current head by default
+   * @param {Object} [options] The query options
+   * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
    * @returns {Promise} The whole block header
    * @example
    * sotez.getHeader().then(header => console.log(header));
    */
-  getHeader = (): Promise<Header> =>
-    this.query(`/chains/${this.chain}/blocks/head/header`);
+  getHeader = (options: BlockOptions = {}): Promise<Header> =>
+    this.query(
+      `/chains/${this.chain}/blocks/${resolveBlock(options.block)}/header`,
+      undefined,
+      undefined,
+      options,
+    );
 
   /**
-   * @description Get the metadata of the current head
-   * @returns {Promise} The head block metadata
+   * @description Get the metadata of a block, the current head by default
+   * @param {Object} [options] The query options
+   * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
+   * @returns {Promise} The block metadata
    * @example
    * sotez.getHeadMetadata().then(metadata => console.log(metadata));
    */
-  getHeadMetadata = (): Promise<Header> =>
-    this.query(`/chains/${this.chain}/blocks/head/metadata`);
+  getHeadMetadata = (options: BlockOptions = {}): Promise<Header> =>
+    this.query(
+      `/chains/${this.chain}/blocks/${resolveBlock(options.block)}/metadata`,
+      undefined,
+      undefined,
+      options,
+    );
 
   /**
-   * @description Get the current head block of the chain
-   * @returns {Promise} The current head block
+   * @description Get a block of the chain, the current head by default
+   * @param {Object} [options] The query options
+   * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
+   * @returns {Promise} The block
    * @example
    * sotez.getHead().then(head => console.log(head));
    */
-  getHead = (): Promise<Head> =>
-    this.query(`/chains/${this.chain}/blocks/head`);
+  getHead = (options: BlockOptions = {}): Promise<Head> =>
+    this.query(
+      `/chains/${this.chain}/blocks/${resolveBlock(options.block)}`,
+      undefined,
+      undefined,
+      options,
+    );
 
   /**
-   * @description Get the current head block hash of the chain
+   * @description Get the hash of a block, the current head by default
+   * @param {Object} [options] The query options
+   * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
    * @returns {Promise} The block's hash, its unique identifier
    * @example
    * sotez.getHeadHash().then(headHash => console.log(headHash))
    */
-  getHeadHash = (): Promise<string> =>
-    this.query(`/chains/${this.chain}/blocks/head/hash`);
+  getHeadHash = (options: BlockOptions = {}): Promise<string> =>
+    this.query(
+      `/chains/${this.chain}/blocks/${resolveBlock(options.block)}/hash`,
+      undefined,
+      undefined,
+      options,
+    );
 
   /**
    * @description Ballots casted so far during a voting period
+   * @param {Object} [options] The query options
+   * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
    * @returns {Promise} Ballots casted so far during a voting period
    * @example
    * sotez.getBallotList().then(ballotList => console.log(ballotList));
    */
-  getBallotList = (): Promise<any[]> =>
-    this.query(`/chains/${this.chain}/blocks/head/votes/ballot_list`);
+  getBallotList = (options: BlockOptions = {}): Promise<any[]> =>
+    this.query(
+      `/chains/${this.chain}/blocks/${resolveBlock(
+        options.block,
+      )}/votes/ballot_list`,
+      undefined,
+      undefined,
+      options,
+    );
 
   /**
    * @description List of proposals with number of supporters
+   * @param {Object} [options] The query options
+   * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
    * @returns {Promise} List of proposals with number of supporters
    * @example
    * sotez.getProposals().then(proposals => {
@@ -565,72 +879,273 @@ export class Sotez extends AbstractTezModule {
    *   console.log(proposals[1][0], proposals[1][1])
    * );
    */
-  getProposals = (): Promise<any[]> =>
-    this.query(`/chains/${this.chain}/blocks/head/votes/proposals`);
+  getProposals = (options: BlockOptions = {}): Promise<any[]> =>
+    this.query(
+      `/chains/${this.chain}/blocks/${resolveBlock(
+        options.block,
+      )}/votes/proposals`,
+      undefined,
+      undefined,
+      options,
+    );
 
   /**
    * @description Sum of ballots casted so far during a voting period
+   * @param {Object} [options] The query options
+   * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
    * @returns {Promise} Sum of ballots casted so far during a voting period
    * @example
    * sotez.getBallots().then(({ yay, nay, pass }) => console.log(yay, nay, pass));
    */
-  getBallots = (): Promise<{
+  getBallots = (
+    options: BlockOptions = {},
+  ): Promise<{
     yay: number;
     nay: number;
     pass: number;
-  }> => this.query(`/chains/${this.chain}/blocks/head/votes/ballots`);
+  }> =>
+    this.query(
+      `/chains/${this.chain}/blocks/${resolveBlock(
+        options.block,
+      )}/votes/ballots`,
+      undefined,
+      undefined,
+      options,
+    );
 
   /**
    * @description List of delegates with their voting weight, in number of rolls
+   * @param {Object} [options] The query options
+   * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
    * @returns {Promise} The ballots of the current voting period
    * @example
    * sotez.getListings().then(listings => console.log(listings));
    */
-  getListings = (): Promise<any[]> =>
-    this.query(`/chains/${this.chain}/blocks/head/votes/listings`);
+  getListings = (options: BlockOptions = {}): Promise<any[]> =>
+    this.query(
+      `/chains/${this.chain}/blocks/${resolveBlock(
+        options.block,
+      )}/votes/listings`,
+      undefined,
+      undefined,
+      options,
+    );
 
   /**
    * @description Current proposal under evaluation
+   * @param {Object} [options] The query options
+   * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
    * @returns {Promise} Current proposal under evaluation
    * @example
    * sotez.getCurrentProposal().then(currentProposal => console.log(currentProposal));
    */
-  getCurrentProposal = (): Promise<string> =>
-    this.query(`/chains/${this.chain}/blocks/head/votes/current_proposal`);
+  getCurrentProposal = (options: BlockOptions = {}): Promise<string> =>
+    this.query(
+      `/chains/${this.chain}/blocks/${resolveBlock(
+        options.block,
+      )}/votes/current_proposal`,
+      undefined,
+      undefined,
+      options,
+    );
 
   /**
    * @description Current period kind
+   * @param {Object} [options] The query options
+   * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
    * @returns {Promise} Current period kind
    * @example
    * sotez.getCurrentPeriod().then(currentPeriod => console.log(currentPeriod));
    */
-  getCurrentPeriod = () =>
-    this.query(`/chains/${this.chain}/blocks/head/votes/current_period_kind`);
+  getCurrentPeriod = (options: BlockOptions = {}): Promise<string> =>
+    this.query(
+      `/chains/${this.chain}/blocks/${resolveBlock(
+        options.block,
+      )}/votes/current_period_kind`,
+      undefined,
+      undefined,
+      options,
+    );
 
   /**
    * @description Current expected quorum
+   * @param {Object} [options] The query options
+   * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
    * @returns {Promise} Current expected quorum
    * @example
    * sotez.getCurrentQuorum().then(currentQuorum => console.log(currentQuorum));
    */
-  getCurrentQuorum = (): Promise<number> =>
-    this.query(`/chains/${this.chain}/blocks/head/votes/current_quorum`);
+  getCurrentQuorum = (options: BlockOptions = {}): Promise<number> =>
+    this.query(
+      `/chains/${this.chain}/blocks/${resolveBlock(
+        options.block,
+      )}/votes/current_quorum`,
+      undefined,
+      undefined,
+      options,
+    );
+
+  /**
+   * @description Subscribe to the new heads of the chain, as they are validated by the node
+   * @param {Object} [options] The monitor options
+   * @param {number} [options.reconnectDelay=1000] The delay before reconnecting (in ms)
+   * @returns {Object} A subscription emitting the header of each new head
+   * @example
+   * const subscription = sotez.monitorHeads();
+   * subscription.on('data', (head) => console.log(head.level, head.hash));
+   * // Later
+   * subscription.close();
+   */
+  monitorHeads = (options: MonitorOptions = {}): Subscription<Header> =>
+    this.monitor<Header>(`/monitor/heads/${this.chain}`, options);
+
+  /**
+   * @description Get the operations of the mempool of the node, grouped by classification
+   * @param {Object} [filter] The operations to include
+   * @param {string} [filter.source] Only include operations with a content from this source
+   * @param {string} [filter.destination] Only include operations with a content to this destination
+   * @param {string} [filter.hash] Only include the operation with this hash
+   * @param {Array} [filter.classifications] Only include operations with these classifications
+   * @param {Object} [options] The query options
+   * @returns {Promise} The pending operations, grouped as applied, refused, outdated,
+   *   branch_refused, branch_delayed and unprocessed
+   * @example
+   * sotez.getPendingOperations({ source: 'tz1fXdNLZ4jrkjtgJWMcfeNpFDK9mbCBsaV4' })
+   *   .then(({ applied, refused }) => {
+   *     applied.forEach(({ hash }) => console.log(hash));
+   *     refused.forEach(({ hash, reason }) => console.log(hash, reason.message));
+   *   });
+   */
+  getPendingOperations = async (
+    filter: MempoolFilter = {},
+    options: QueryOptions = {},
+  ): Promise<PendingOperations> => {
+    const { classifications = MEMPOOL_CLASSIFICATIONS } = filter;
+    const pending = await this.query(
+      `/chains/${this.chain}/mempool/pending_operations`,
+      undefined,
+      undefined,
+      options,
+    );
+
+    return MEMPOOL_CLASSIFICATIONS.reduce(
+      (grouped, classification) => ({
+        ...grouped,
+        [classification]: classifications.includes(classification)
+          ? (pending[classification] || [])
+              .map((entry: any) => toPendingOperation(entry, classification))
+              .filter((operation: PendingOperation) =>
+                matchesMempoolFilter(operation, filter),
+              )
+          : [],
+      }),
+      {} as PendingOperations,
+    );
+  };
 
   /**
-   * @description Check for the inclusion of an operation in new blocks
+   * @description Subscribe to the operations entering the mempool of the node. The node ends the
+   *   stream at each new block, the current operations of the mempool are emitted again then.
+   * @param {Object} [filter] The operations to emit
+   * @param {string} [filter.source] Only emit operations with a content from this source
+   * @param {string} [filter.destination] Only emit operations with a content to this destination
+   * @param {string} [filter.hash] Only emit the operation with this hash
+   * @param {Array} [filter.classifications] The classifications to monitor (defaults to applied,
+   *   refused, branch_refused and branch_delayed)
+   * @param {Object} [options] The monitor options
+   * @param {number} [options.reconnectDelay=1000] The delay before reconnecting (in ms)
+   * @returns {Object} A subscription emitting each pending operation
+   * @example
+   * const { hash } = await sotez.silentInject(sopbytes);
+   * const subscription = sotez.monitorMempool({ hash });
+   * subscription.on('data', ({ classification, reason }) => {
+   *   console.log(classification, reason);
+   * });
+   */
+  monitorMempool = (
+    filter: MempoolFilter = {},
+    options: MonitorOptions = {},
+  ): Subscription<PendingOperation> => {
+    const {
+      classifications = MONITORED_CLASSIFICATIONS.filter(
+        (classification) => classification !== 'outdated',
+      ),
+    } = filter;
+
+    // The classification of the streamed operations is not reported, stream each one separately
+    const streams = classifications.filter((classification) =>
+      MONITORED_CLASSIFICATIONS.includes(classification),
+    );
+
+    if (!streams.length) {
+      throw new SotezError(
+        `Cannot monitor the classifications [${classifications.join(', ')}]`,
+      );
+    }
+
+    return new Subscription<PendingOperation>(
+      (onValue, signal) =>
+        Promise.race(
+          streams.map((classification) =>
+            this._stream(
+              `/chains/${
+                this.chain
+              }/mempool/monitor_operations?${monitorOperationsQuery(
+                classification,
+              )}`,
+              (operations: any[]) =>
+                operations
+                  .map((entry) => toPendingOperation(entry, classification))
+                  .filter((operation) =>
+                    matchesMempoolFilter(operation, filter),
+                  )
+                  .forEach(onValue),
+              signal,
+            ),
+          ),
+        ),
+      options,
+    );
+  };
+
+  /**
+   * @description Check for the inclusion of an operation in new blocks. Every block from the level
+   *   at which waiting began is scanned, and the including block is tracked until it reaches the
+   *   expected number of confirmations. When the including block is dropped from the chain, the
+   *   reorg is reported and the following blocks are scanned again. A check failing with a
+   *   timeout or a server error is tried again with the next head, any other failure rejects.
    * @param {string} hash The operation hash to check
    * @param {number} [interval=10] The interval to check new blocks (in seconds)
    * @param {number} [timeout=180] The time before the operation times out (in seconds)
-   * @returns {Promise} The hash of the block in which the operation was included
+   * @param {Object} [options] The options
+   * @param {AbortSignal} [options.signal] A signal used to stop waiting for the operation
+   * @param {boolean} [options.monitor=false] Subscribe to new heads instead of polling the
+   *   head every interval, `interval` is then ignored
+   * @param {number} [options.confirmations=1] The number of blocks, including the block of the
+   *   operation, required before resolving
+   * @param {number} [options.fromLevel] The level to start scanning from (defaults to the level of
+   *   the head when waiting begins)
+   * @param {Function} [options.onReorg] Called with the inclusion which was dropped from the chain
+   * @returns {Promise} The hash and level of the block in which the operation was included, the
+   *   operation with its receipt and the number of confirmations
    * @example
-   * sotez.awaitOperation('ooYf5iK6EdTx3XfBusgDqS6znACTq5469D1zQSDFNrs5KdTuUGi')
-   *  .then((hash) => console.log(hash));
+   * sotez.awaitOperation('ooYf5iK6EdTx3XfBusgDqS6znACTq5469D1zQSDFNrs5KdTuUGi', 10, 180, {
+   *   confirmations: 3,
+   *   onReorg: ({ block }) => console.log(`Block ${block} was dropped`),
+   * }).then(({ block, level, operation }) => console.log(block, level, operation));
    */
   awaitOperation = (
     hash: string,
     interval = 10,
     timeout = 180,
-  ): Promise<string> => {
+    {
+      signal,
+      monitor = false,
+      confirmations = 1,
+      fromLevel,
+      onReorg,
+    }: AwaitOperationOptions = {},
+  ): Promise<Inclusion> => {
     if (!hash) {
       throw new Error('No operation hash provided to awaitOperation');
     }
@@ -643,31 +1158,182 @@ export class Sotez extends AbstractTezModule {
       throw new Error('Interval must be more than 0');
     }
 
+    if (confirmations < 1) {
+      throw new Error('Confirmations must be at least 1');
+    }
+
     let timeoutHandle: ReturnType<typeof setTimeout>;
+    let subscription: Subscription<Header> | undefined;
+    let nextLevel = fromLevel;
+    let inclusion: Inclusion | undefined;
+
+    const blockQuery = (block: string | number, path = ''): Promise<any> =>
+      this.query(
+        `/chains/${this.chain}/blocks/${block}${path}`,
+        undefined,
+        undefined,
+        { signal },
+      );
+
+    // Looks for the operation in a block, returning its inclusion if found
+    const scan = async (level: number): Promise<Inclusion | undefined> => {
+      const block: string = await blockQuery(level, '/hash');
+      const operationHashes: string[][] = await blockQuery(
+        block,
+        '/operation_hashes',
+      );
+
+      for (let pass = 0; pass < operationHashes.length; pass++) {
+        const index = operationHashes[pass].indexOf(hash);
+        if (index !== -1) {
+          // eslint-disable-next-line no-await-in-loop
+          const operation = await blockQuery(
+            block,
+            `/operations/${pass}/${index}`,
+          );
+          return {
+            block,
+            level,
+            operation,
+            receipt: parseReceipt(operation.contents, hash),
+            confirmations: 1,
+          };
+        }
+      }
+
+      return undefined;
+    };
+
+    // Scans the blocks up to the head, and checks the including block is still in the chain
+    const check = async (headLevel: number): Promise<Inclusion | undefined> => {
+      if (nextLevel === undefined) {
+        nextLevel = headLevel;
+      }
+
+      if (inclusion) {
+        const block = await blockQuery(inclusion.level, '/hash');
+
+        if (block !== inclusion.block) {
+          this._log('warn', 'Operation Reorg', {
+            hash,
+            block: inclusion.block,
+            level: inclusion.level,
+          });
+          onReorg?.(inclusion);
+          nextLevel = inclusion.level;
+          inclusion = undefined;
+        }
+      }
 
-    const operationCheck = (operation: Operation): boolean =>
-      operation.hash === hash;
+      while (!inclusion && nextLevel <= headLevel) {
+        // eslint-disable-next-line no-await-in-loop
+        inclusion = await scan(nextLevel);
+        nextLevel += 1;
+      }
+
+      if (inclusion) {
+        inclusion = {
+          ...inclusion,
+          confirmations: headLevel - inclusion.level + 1,
+        };
+
+        if (inclusion.confirmations >= confirmations) {
+          return inclusion;
+        }
+      }
+
+      return undefined;
+    };
 
     return new Promise((resolve, reject) => {
-      const clearTimeoutHandle = setTimeout(() => {
+      if (signal?.aborted) {
+        reject(new RequestAbortedError());
+        return;
+      }
+
+      let done = false;
+      let checking = Promise.resolve();
+
+      const finish = (): void => {
+        done = true;
         clearTimeout(timeoutHandle);
-        reject(
-          new Error(
-            `Timed out waiting for operation ${hash} after ${timeout} seconds`,
-          ),
-        );
+        clearTimeout(clearTimeoutHandle);
+        subscription?.close();
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const onAbort = (): void => {
+        finish();
+        reject(new RequestAbortedError());
+      };
+
+      signal?.addEventListener('abort', onAbort);
+
+      const clearTimeoutHandle = setTimeout(() => {
+        finish();
+        this._log('warn', 'Operation Timed Out', { hash, timeout });
+        reject(new RequestTimeoutError(timeout * 1000));
       }, timeout * 1000);
 
-      const repeater = (): void => {
-        this.getHead().then((head: Head) => {
-          for (let i = 3; i >= 0; i--) {
-            if (head.operations[i].some(operationCheck)) {
-              clearTimeout(clearTimeoutHandle);
-              resolve(head.hash);
+      this._log('debug', 'Awaiting Operation', {
+        hash,
+        confirmations,
+        fromLevel,
+        monitor,
+      });
+
+      // Checks run one at a time, in the order of the heads
+      const enqueue = (headLevel: () => Promise<number>): Promise<void> => {
+        checking = checking
+          .then(async () => {
+            if (done) {
+              return;
+            }
+
+            const found = await check(await headLevel());
+
+            if (found && !done) {
+              this._log('info', 'Operation Included', {
+                hash,
+                block: found.block,
+                level: found.level,
+                confirmations: found.confirmations,
+              });
+              finish();
+              resolve(found);
+            }
+          })
+          .catch((error) => {
+            if (done) {
               return;
             }
+
+            if (isTransientError(error)) {
+              this._log('warn', 'Operation Check Failed', { hash, error });
+              return;
+            }
+
+            finish();
+            reject(error);
+          });
+        return checking;
+      };
+
+      if (monitor) {
+        subscription = this.monitorHeads();
+        subscription.on('data', (head: Header) =>
+          enqueue(async () => head.level),
+        );
+        return;
+      }
+
+      const repeater = (): void => {
+        enqueue(() =>
+          this.getHeader({ signal }).then(({ level }) => level),
+        ).then(() => {
+          if (!done) {
+            timeoutHandle = setTimeout(repeater, interval * 1000);
           }
-          timeoutHandle = setTimeout(repeater, interval * 1000);
         });
       };
 
@@ -681,6 +1347,8 @@ export class Sotez extends AbstractTezModule {
    * @param {string} [paramObject.source] The source address of the operation
    * @param {boolean} paramObject.skipCounter Skip incrementing the counter within sotez
    * @param {boolean} paramObject.skipEstimate Skip the estimator if enabled
+   * @param {string|Object|Function} [paramObject.feeStrategy] The fee strategy of the operation, overriding the one of the instance
+   * @param {AbortSignal} [paramObject.signal] A signal used to abort the preparation
    * @param {Object | Array} paramObject.operation The operation to include in the transaction
    * @returns {Promise} Object containing the prepared operation
    * @example
@@ -700,16 +1368,19 @@ export class Sotez extends AbstractTezModule {
     source,
     skipCounter = false,
     skipEstimate = false,
+    feeStrategy,
+    signal,
   }: OperationParams): Promise<ForgedBytes> => {
     let counter: number;
+    let fees: FeeBreakdown;
     const opOb: OperationObject = {};
     const promises: any[] = [];
     let requiresReveal = false;
     let preOps: Operation[] = [];
     let head: Header;
 
-    promises.push(this.getHeader());
-    promises.push(this.getHeadMetadata());
+    promises.push(this.getHeader({ signal }));
+    promises.push(this.getHeadMetadata({ signal }));
 
     if (Array.isArray(operation)) {
       preOps = [...operation];
@@ -721,16 +1392,12 @@ export class Sotez extends AbstractTezModule {
 
     for (let i = 0; i < preOps.length; i++) {
       if (
-        [
-          'transaction',
-          'origination',
-          'delegation',
-          'baker_registration',
-        ].includes(preOps[i].kind)
+        MANAGER_OPERATIONS.includes(preOps[i].kind) ||
+        preOps[i].kind === 'baker_registration'
       ) {
         requiresReveal = true;
-        promises.push(this.getManager(publicKeyHash));
-        promises.push(this.getCounter(publicKeyHash));
+        promises.push(this.getManager(publicKeyHash, { signal }));
+        promises.push(this.getCounter(publicKeyHash, { signal }));
         break;
       }
     }
@@ -749,7 +1416,6 @@ export class Sotez extends AbstractTezModule {
           if (!managerKey && preOps.every((op) => op.kind !== 'reveal')) {
             preOps.unshift({
               kind: 'reveal',
-              fee: this.defaultFee,
               public_key: this.key.publicKey(),
               source: publicKeyHash,
               gas_limit: 10600,
@@ -760,22 +1426,26 @@ export class Sotez extends AbstractTezModule {
 
         counter = parseInt(headCounter, 10);
 
-        if (
-          !this._counters[publicKeyHash] ||
-          this._counters[publicKeyHash] < counter
-        ) {
-          this._counters[publicKeyHash] = counter;
-        }
-
         let ops = preOps;
 
         if (this.dryRunLimiter && !skipEstimate) {
-          ops = await this.estimateLimits(preOps, source);
+          ops = await this.estimateLimits(preOps, source, { signal });
+        }
+
+        if (requiresReveal) {
+          // The counter preceding the counters of the operation
+          counter = skipCounter
+            ? await this._counterManager.current(publicKeyHash, counter)
+            : await this._counterManager.reserve(
+                publicKeyHash,
+                counter,
+                ops.filter(({ kind }) => MANAGER_OPERATIONS.includes(kind))
+                  .length,
+              );
         }
 
         const constructOps = (cOps: Operation[]): ConstructedOperation[] => {
-          // In case prepareOperation should not increment the counter
-          let opCounter = this._counters[publicKeyHash];
+          let opCounter = counter;
 
           return cOps.map((op: Operation) => {
             // @ts-ignore
@@ -784,22 +1454,12 @@ export class Sotez extends AbstractTezModule {
             };
 
             if (
-              [
-                'proposals',
-                'ballot',
-                'transaction',
-                'origination',
-                'delegation',
-              ].includes(op.kind)
+              ['proposals', 'ballot', ...MANAGER_OPERATIONS].includes(op.kind)
             ) {
               constructedOp.source ||= publicKeyHash;
             }
 
-            if (
-              ['reveal', 'transaction', 'origination', 'delegation'].includes(
-                op.kind,
-              )
-            ) {
+            if (MANAGER_OPERATIONS.includes(op.kind)) {
               const fee = `${op.fee ?? this.defaultFee}`;
               constructedOp.fee = this.useMutez ? fee : mutez(fee);
               constructedOp.gas_limit = `${op.gas_limit ?? 0}`;
@@ -811,17 +1471,25 @@ export class Sotez extends AbstractTezModule {
                   : mutez(op.balance);
               }
 
+              // The amount of increase_paid_storage is a number of bytes
               if (typeof op.amount !== 'undefined') {
-                constructedOp.amount = this.useMutez
-                  ? `${op.amount}`
-                  : mutez(op.amount);
+                constructedOp.amount =
+                  this.useMutez || op.kind === 'increase_paid_storage'
+                    ? `${op.amount}`
+                    : mutez(op.amount);
+              }
+
+              if (typeof op.limit !== 'undefined') {
+                constructedOp.limit = this.useMutez
+                  ? `${op.limit}`
+                  : mutez(op.limit);
               }
 
-              if (skipCounter) {
-                constructedOp.counter = `${++opCounter}`;
-              } else {
-                constructedOp.counter = `${++this._counters[publicKeyHash]}`;
+              if (typeof op.ticket_amount !== 'undefined') {
+                constructedOp.ticket_amount = `${op.ticket_amount}`;
               }
+
+              constructedOp.counter = `${++opCounter}`;
             }
 
             return this._conformOperation(
@@ -833,22 +1501,51 @@ export class Sotez extends AbstractTezModule {
         opOb.branch = head.hash;
         opOb.contents = constructOps(ops);
 
+        try {
+          fees = await this._applyFees(
+            opOb.contents,
+            ops,
+            metadata.next_protocol,
+            feeStrategy,
+            signal,
+          );
+        } catch (e) {
+          // The operation is never sent, so its counters are not used
+          if (!skipCounter) {
+            await this._counterManager.reset(publicKeyHash, counter);
+          }
+          throw e;
+        }
+
         let remoteForgedBytes = '';
         if (!this._localForge || this._validateLocalForge) {
           remoteForgedBytes = await this.query(
             `/chains/${this.chain}/blocks/${head.hash}/helpers/forge/operations`,
             opOb,
+            undefined,
+            { signal },
           );
         }
 
         opOb.protocol = metadata.next_protocol;
 
+        this._log('info', 'Operation Prepared', {
+          source: publicKeyHash,
+          branch: opOb.branch,
+          protocol: opOb.protocol,
+          kinds: opOb.contents.map(({ kind }) => kind),
+          counters: opOb.contents
+            .map((content) => content.counter)
+            .filter((value) => value !== undefined),
+        });
+
         if (!this._localForge) {
           return {
             opbytes: remoteForgedBytes,
             opOb,
             counter,
             chainId: head.chain_id,
+            fees,
           };
         }
 
@@ -860,10 +1557,13 @@ export class Sotez extends AbstractTezModule {
               ...fullOp,
               counter,
               chainId: head.chain_id,
+              fees,
             };
           }
-          console.log(fullOp.opbytes);
-          console.log(remoteForgedBytes);
+          this._log('error', 'Forge Validation Failed', {
+            local: fullOp.opbytes,
+            remote: remoteForgedBytes,
+          });
           throw new Error(
             "Forge validation error - local and remote bytes don't match",
           );
@@ -873,6 +1573,7 @@ export class Sotez extends AbstractTezModule {
           ...fullOp,
           counter,
           chainId: head.chain_id,
+          fees,
         };
       },
     );
@@ -884,7 +1585,8 @@ export class Sotez extends AbstractTezModule {
    * @param {Object|Array} paramObject.operation The operation to include in the transaction
    * @param {string} [paramObject.source] The source address of the operation
    * @param {boolean} [paramObject.skipEstimate] The operation to include in the transaction
-   * @returns {Promise} The simulated operation result
+   * @param {AbortSignal} [paramObject.signal] A signal used to abort the simulation
+   * @returns {Promise} The simulated operation result, with its receipt
    * @example
    * sotez.simulateOperation({
    *   operation: {
@@ -901,12 +1603,14 @@ export class Sotez extends AbstractTezModule {
     operation,
     source,
     skipEstimate,
+    signal,
   }: OperationParams): Promise<any> =>
     this.prepareOperation({
       operation,
       source,
       skipCounter: true,
       skipEstimate,
+      signal,
     }).then((fullOp) => {
       delete fullOp.opOb.protocol;
       fullOp.opOb.signature =
@@ -917,17 +1621,31 @@ export class Sotez extends AbstractTezModule {
           chain_id: fullOp.chainId,
           operation: fullOp.opOb,
         },
-      );
+        undefined,
+        { signal },
+      ).then((result) => ({
+        ...result,
+        receipt: parseReceipt(result.contents || []),
+      }));
     });
 
   /**
-   * @description Send an operation
+   * @description Send an operation. Operations of the same source are sent one at a time, and
+   *   an operation rejected because of its counter is prepared again with the counter of the chain
+   *   and sent once more.
    * @param {Object} paramObject The parameters for the operation
    * @param {Object|Array} paramObject.operation The operation to include in the transaction
    * @param {string} [paramObject.source] The source address of the operation
    * @param {boolean} [paramObject.skipSignature=false] Use default signature for specific transactions
    * @param {boolean} [paramObject.skipPrevalidation=false] Skip prevalidation before injecting operation
-   * @returns {Promise} Object containing the injected operation hash
+   * @param {string|Object|Function} [paramObject.feeStrategy] The fee strategy of the operation, overriding the one of the instance
+   * @param {AbortSignal} [paramObject.signal] A signal used to abort the operation before its injection
+   * @param {Function} [paramObject.onForged] Called with the forged operation before it is signed
+   * @param {Function} [paramObject.onSigned] Called with the hash, the signed bytes and the branch of
+   *   the operation before it is injected
+   * @returns {Promise} Object containing the operation hash and the fees of the operation, with
+   *   `ambiguous` set when the injection timed out and the operation may or may not have reached
+   *   the node
    * @example
    * const operation = {
    *   kind: 'transaction',
@@ -942,101 +1660,247 @@ export class Sotez extends AbstractTezModule {
    *
    * sotez.sendOperation({ operation: [operation, operation] }).then(result => console.log(result));
    */
-  sendOperation = async ({
-    operation,
-    source,
-    skipPrevalidation = false,
-    skipSignature = false,
-  }: OperationParams): Promise<any> => {
-    const fullOp: ForgedBytes = await this.prepareOperation({
-      operation,
-      source,
-    });
-
-    if (skipSignature) {
-      fullOp.opbytes +=
-        '00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000';
-      fullOp.opOb.signature =
-        'edsigtXomBKi5CTRf5cjATJWSyaRvhfYNHqSUGrn4SdbYRcGwQrUGjzEfQDTuqHhuA8b2d8NarZjz8TRf65WkpQmo423BtomS8Q';
-    } else {
-      const signed: Signed = await this.key.sign(
-        fullOp.opbytes,
-        magicBytes.generic,
-      );
-      fullOp.opbytes = signed.sbytes;
-      fullOp.opOb.signature = signed.prefixSig;
-    }
+  sendOperation = async (paramObject: OperationParams): Promise<any> => {
+    const publicKeyHash = paramObject.source || this.key.publicKeyHash();
 
-    const publicKeyHash = source || this.key.publicKeyHash();
+    // Operations of the same source are sent one at a time so that they never share a counter
+    return this._counterManager.lock(publicKeyHash, () =>
+      this._sendOperation(paramObject).catch(async (error) => {
+        if (
+          !(error instanceof CounterInThePastError) &&
+          !(error instanceof CounterInTheFutureError)
+        ) {
+          throw error;
+        }
 
-    if (skipPrevalidation) {
-      return this.silentInject(fullOp.opbytes).catch((e) => {
-        this._counters[publicKeyHash] = fullOp.counter;
-        throw e;
-      });
-    }
+        const counter = parseInt(
+          await this.getCounter(publicKeyHash, { signal: paramObject.signal }),
+          10,
+        );
+        this._log('warn', 'Counter Resynced', {
+          source: publicKeyHash,
+          counter,
+          error,
+        });
+        await this._counterManager.reset(publicKeyHash, counter);
 
-    return this.inject(fullOp.opOb, fullOp.opbytes).catch((e) => {
-      this._counters[publicKeyHash] = fullOp.counter;
-      throw e;
-    });
+        return this._sendOperation(paramObject);
+      }),
+    );
   };
 
   /**
    * @description Inject an operation
    * @param {Object} opOb The operation object
    * @param {string} sopbytes The signed operation bytes
-   * @returns {Promise} Object containing the injected operation hash
+   * @param {Object} [options] The query options
+   * @returns {Promise} Object containing the injected operation hash, the preapplied operations
+   *   and their receipt
    */
-  inject = (opOb: OperationObject, sopbytes: string): Promise<any> => {
+  inject = (
+    opOb: OperationObject,
+    sopbytes: string,
+    options: QueryOptions = {},
+  ): Promise<any> => {
     const opResponse: any[] = [];
-    const errors: any[] = [];
 
     return this.query(
       `/chains/${this.chain}/blocks/head/helpers/preapply/operations`,
       [opOb],
+      undefined,
+      options,
     )
       .then((results) => {
         if (!Array.isArray(results)) {
-          throw new Error('RPC Fail');
+          throw new RpcError(results);
         }
 
-        results.forEach((result) => {
-          result.contents.forEach(
-            (content: {
-              metadata: { operation_result?: { status: string; errors?: any } };
-            }) => {
-              opResponse.push(content);
+        results.forEach((result) => opResponse.push(...result.contents));
 
-              if (content.metadata.operation_result?.status === 'failed') {
-                errors.push(content.metadata.operation_result.errors);
-              }
-            },
-          );
-        });
+        const { errors } = parseReceipt(opResponse);
 
         if (errors.length) {
-          throw new Error(
-            JSON.stringify({ error: 'Operation Failed', errors }, null, 2),
-          );
+          throw parseRpcError(errors);
         }
-        return this.query('/injection/operation', sopbytes);
       })
-      .then((hash) => ({
-        hash,
+      .catch((error) => {
+        this._log('error', 'Injection Failed', { error });
+        throw error;
+      })
+      .then(() => this.silentInject(sopbytes, options))
+      .then((injection) => ({
+        ...injection,
         operations: opResponse,
+        receipt: parseReceipt(opResponse, injection.hash),
       }));
   };
 
   /**
-   * @description Inject an operation without prevalidation
+   * @description Inject an operation without prevalidation. When the injection request times out,
+   *   is aborted or fails on the network or at a gateway, the node may or may not have received
+   *   the operation: the locally computed hash is then returned with `ambiguous` set, to be
+   *   looked up with `awaitOperation`.
    * @param {string} sopbytes The signed operation bytes
+   * @param {Object} [options] The query options
+   * @returns {Promise} Object containing the injected operation hash
+   */
+  silentInject = (
+    sopbytes: string,
+    options: QueryOptions = {},
+  ): Promise<{ hash: string; ambiguous?: boolean }> => {
+    const localHash = operationHash(sopbytes);
+
+    return this.query(
+      '/injection/operation',
+      sopbytes,
+      undefined,
+      options,
+    ).then(
+      (hash) => {
+        this._log('info', 'Operation Injected', { hash });
+        return { hash };
+      },
+      (error) => {
+        if (isAmbiguousInjectionError(error)) {
+          this._log('warn', 'Injection Ambiguous', { hash: localHash, error });
+          return { hash: localHash, ambiguous: true };
+        }
+
+        this._log('error', 'Injection Failed', { error });
+        throw error;
+      },
+    );
+  };
+
+  /**
+   * @description Prepare an operation to be signed offline. The envelope can be saved as JSON,
+   *   signed with `signEnvelope` on a machine without network access and injected later with
+   *   `injectSigned`, until the branch of the operation expires.
+   * @param {Object} paramObject The parameters for the operation
+   * @param {Object|Array} paramObject.operation The operation to include in the transaction
+   * @param {string} [paramObject.source] The source address of the operation
+   * @param {string|Object|Function} [paramObject.feeStrategy] The fee strategy of the operation, overriding the one of the instance
+   * @param {AbortSignal} [paramObject.signal] A signal used to abort the preparation
+   * @returns {Promise} The unsigned envelope
+   * @example
+   * const envelope = await sotez.exportUnsigned({
+   *   operation: { kind: 'transaction', amount: 1000, destination: 'tz1...' },
+   *   source: 'tz1...',
+   * });
+   * writeFileSync('./unsigned.json', JSON.stringify(envelope));
+   */
+  exportUnsigned = async ({
+    operation,
+    source,
+    feeStrategy,
+    signal,
+  }: OperationParams): Promise<UnsignedEnvelope> => {
+    const { opbytes, opOb, chainId } = await this._counterManager.lock(
+      source || this.key.publicKeyHash(),
+      () => this.prepareOperation({ operation, source, feeStrategy, signal }),
+    );
+    const branch = opOb.branch as string;
+    const [header, metadata]: any[] = await Promise.all([
+      this.getHeader({ block: branch, signal }),
+      this.getHeadMetadata({ block: branch, signal }),
+    ]);
+
+    return {
+      version: ENVELOPE_VERSION,
+      chainId,
+      protocol: opOb.protocol as string,
+      branch,
+      branchLevel: header.level,
+      expiresAt: header.level + (metadata.max_operations_ttl ?? 60),
+      source: source || this.key.publicKeyHash(),
+      opbytes,
+      opOb: {
+        branch,
+        contents: opOb.contents as ConstructedOperation[],
+        protocol: opOb.protocol as string,
+      },
+    };
+  };
+
+  /**
+   * @description Inject an envelope signed with `signEnvelope`. The envelope is rejected when it
+   *   is meant for another chain, when its branch has expired, when its bytes are not the forged
+   *   operation object, or when the signature was not made by the key of its source, revealed or
+   *   revealed by the operation itself.
+   * @param {Object} envelope The signed envelope
+   * @param {Object} [options] The injection options
+   * @param {boolean} [options.skipPrevalidation=false] Skip prevalidation before injecting operation
+   * @param {AbortSignal} [options.signal] A signal used to abort the injection
    * @returns {Promise} Object containing the injected operation hash
+   * @example
+   * const signed = JSON.parse(readFileSync('./signed.json', 'utf8'));
+   * const { hash } = await sotez.injectSigned(signed);
    */
-  silentInject = (sopbytes: string): Promise<any> =>
-    this.query('/injection/operation', sopbytes).then((hash) => ({
-      hash,
-    }));
+  injectSigned = async (
+    envelope: SignedEnvelope,
+    { skipPrevalidation = false, signal }: InjectSignedOptions = {},
+  ): Promise<any> => {
+    validateEnvelope(envelope);
+
+    if (typeof envelope.signature !== 'string') {
+      throw new InvalidEnvelopeError('The envelope is not signed');
+    }
+
+    // The prevalidation and the receipt use the operation object, which must be what was signed
+    const { opbytes } = await forge(envelope.opOb, 0, envelope.protocol);
+
+    if (opbytes !== envelope.opbytes.toLowerCase()) {
+      throw new InvalidEnvelopeError(
+        'The forged bytes do not match the operation object',
+      );
+    }
+
+    const header = await this.getHeader({ signal });
+
+    if (header.chain_id !== envelope.chainId) {
+      throw new InvalidEnvelopeError(
+        `The envelope is meant for chain ${envelope.chainId}, not ${header.chain_id}`,
+      );
+    }
+
+    if (header.level > envelope.expiresAt) {
+      throw new EnvelopeExpiredError(envelope.expiresAt, header.level);
+    }
+
+    const reveal = envelope.opOb.contents.find(
+      (content) =>
+        content.kind === 'reveal' && content.source === envelope.source,
+    );
+    const publicKey = reveal
+      ? reveal.public_key
+      : this.getManagerKey(
+          await this.getManager(envelope.source, { signal }),
+          header.protocol,
+        );
+    const verified =
+      !!publicKey &&
+      (await verify(
+        `03${envelope.opbytes}`,
+        envelope.signature,
+        publicKey,
+      ).catch(() => false));
+
+    if (!verified) {
+      throw new InvalidSignatureError(envelope.source);
+    }
+
+    const sopbytes = envelope.opbytes + forgeSignature(envelope.signature);
+
+    if (skipPrevalidation) {
+      return this.silentInject(sopbytes, { signal });
+    }
+
+    return this.inject(
+      { ...envelope.opOb, signature: envelope.signature },
+      sopbytes,
+      { signal },
+    );
+  };
 
   /**
    * @description Transfer operation
@@ -1044,10 +1908,13 @@ export class Sotez extends AbstractTezModule {
    * @param {string} transferParams.to The address of the recipient
    * @param {number} transferParams.amount The amount in tez to transfer for the initial balance
    * @param {string} [transferParams.source] The source address of the transfer
-   * @param {number} [transferParams.fee=1420] The fee to set for the transaction
+   * @param {number} [transferParams.fee] The fee to set for the transaction (computed from its size and gas limit by default)
+   * @param {string|Object|Function} [transferParams.feeStrategy] The fee strategy of the batch, overriding the one of the instance
    * @param {string} [transferParams.parameters] The parameter for the transaction
    * @param {number} [transferParams.gasLimit=10600] The gas limit to set for the transaction
    * @param {number} [transferParams.storageLimit=300] The storage limit to set for the transaction
+   * @param {Object} [options] The options
+   * @param {AbortSignal} [options.signal] A signal used to abort the transfer before its injection
    * @returns {Promise} Object containing the injected operation hash
    * @example
    * sotez.transfer({
@@ -1056,7 +1923,10 @@ export class Sotez extends AbstractTezModule {
    *   fee: 1420,
    * }).then(result => console.log(result));
    */
-  transfer = async (transferParams: RpcParams | RpcParams[]): Promise<any> => {
+  transfer = async (
+    transferParams: RpcParams | RpcParams[],
+    { signal }: { signal?: AbortSignal } = {},
+  ): Promise<any> => {
     const transfers = Array.isArray(transferParams)
       ? [...transferParams]
       : [transferParams];
@@ -1093,8 +1963,13 @@ export class Sotez extends AbstractTezModule {
       },
     );
 
+    const { feeStrategy } =
+      transfers.find((transfer) => transfer.feeStrategy) || {};
+
     return this.sendOperation({
       operation: operations,
+      feeStrategy,
+      signal,
     });
   };
 
@@ -1129,7 +2004,8 @@ export class Sotez extends AbstractTezModule {
    * @param {boolean} [paramObject.spendable=false] Whether the keyholder can spend the balance from the new account
    * @param {boolean} [paramObject.delegatable=false] Whether the new account is delegatable
    * @param {string} [paramObject.delegate] The delegate for the new account
-   * @param {number} [paramObject.fee=1420] The fee to set for the transaction
+   * @param {number} [paramObject.fee] The fee to set for the transaction (computed from its size and gas limit by default)
+   * @param {string|Object|Function} [paramObject.feeStrategy] The fee strategy of the operation, overriding the one of the instance
    * @param {number} [paramObject.gasLimit=10600] The gas limit to set for the transaction
    * @param {number} [paramObject.storageLimit=257] The storage limit to set for the transaction
    * @returns {Promise} Object containing the injected operation hash
@@ -1141,7 +2017,8 @@ export class Sotez extends AbstractTezModule {
     spendable = false,
     delegatable = false,
     delegate,
-    fee = this.defaultFee,
+    fee,
+    feeStrategy,
     gasLimit = 10600,
     storageLimit = 257,
   }: ContractParams): Promise<any> => {
@@ -1182,14 +2059,15 @@ export class Sotez extends AbstractTezModule {
       operation.delegate = delegate;
     }
 
-    return this.sendOperation({ operation });
+    return this.sendOperation({ operation, feeStrategy });
   };
 
   /**
    * @description Set a delegate for an account
    * @param {Object} paramObject The parameters for the operation
    * @param {string} [paramObject.delegate] The delegate for the new account
-   * @param {number} [paramObject.fee=1420] The fee to set for the transaction
+   * @param {number} [paramObject.fee] The fee to set for the transaction (computed from its size and gas limit by default)
+   * @param {string|Object|Function} [paramObject.feeStrategy] The fee strategy of the operation, overriding the one of the instance
    * @param {number} [paramObject.gasLimit=10600] The gas limit to set for the transaction
    * @param {string} [paramObject.source] The source address of the operation
    * @param {number} [paramObject.storageLimit=0] The storage limit to set for the transaction
@@ -1198,13 +2076,15 @@ export class Sotez extends AbstractTezModule {
   setDelegate = async ({
     delegate,
     source = this.key.publicKeyHash(),
-    fee = this.defaultFee,
+    fee,
+    feeStrategy,
     gasLimit = 10600,
     storageLimit = 0,
   }: {
     delegate: string;
     source?: string;
     fee?: number;
+    feeStrategy?: FeeStrategy;
     gasLimit?: number;
     storageLimit?: number;
   }): Promise<any> => {
@@ -1220,23 +2100,27 @@ export class Sotez extends AbstractTezModule {
     return this.sendOperation({
       operation,
       source,
+      feeStrategy,
     });
   };
 
   /**
    * @description Register an account as a delegate
    * @param {Object} paramObject The parameters for the operation
-   * @param {number} [paramObject.fee=1420] The fee to set for the transaction
+   * @param {number} [paramObject.fee] The fee to set for the transaction (computed from its size and gas limit by default)
+   * @param {string|Object|Function} [paramObject.feeStrategy] The fee strategy of the operation, overriding the one of the instance
    * @param {number} [paramObject.gasLimit=10600] The gas limit to set for the transaction
    * @param {number} [paramObject.storageLimit=0] The storage limit to set for the transaction
    * @returns {Promise} Object containing the injected operation hash
    */
   registerDelegate = async ({
-    fee = this.defaultFee,
+    fee,
+    feeStrategy,
     gasLimit = 10600,
     storageLimit = 0,
   }: {
     fee?: number;
+    feeStrategy?: FeeStrategy;
     gasLimit?: number;
     storageLimit?: number;
   } = {}): Promise<any> => {
@@ -1248,16 +2132,21 @@ export class Sotez extends AbstractTezModule {
       ...(storageLimit ? { storage_limit: storageLimit } : {}),
     };
 
-    return this.sendOperation({ operation });
+    return this.sendOperation({ operation, feeStrategy });
   };
 
   /**
    * @description Typechecks the provided code
    * @param {string | Micheline} code The code to typecheck
    * @param {number} gas The the gas limit
+   * @param {Object} [options] The query options
    * @returns {Promise} Typecheck result
    */
-  typecheckCode = (code: string | Micheline, gas = 10000): Promise<any> => {
+  typecheckCode = (
+    code: string | Micheline,
+    gas = 10000,
+    options: QueryOptions = {},
+  ): Promise<any> => {
     let _code = code;
 
     if (typeof code === 'string') {
@@ -1270,6 +2159,8 @@ export class Sotez extends AbstractTezModule {
         program: _code,
         gas,
       },
+      undefined,
+      options,
     );
   };
 
@@ -1277,11 +2168,13 @@ export class Sotez extends AbstractTezModule {
    * @description Serializes a piece of data to a binary representation
    * @param {string | Micheline} data The data
    * @param {string | Micheline} type The data type
+   * @param {Object} [options] The query options
    * @returns {Promise} Serialized data
    */
   packData = (
     data: string | Micheline,
     type: string | Micheline,
+    options: QueryOptions = {},
   ): Promise<any> => {
     let _data = data;
     let _type = type;
@@ -1303,6 +2196,8 @@ export class Sotez extends AbstractTezModule {
     return this.query(
       `/chains/${this.chain}/blocks/head/helpers/scripts/pack_data`,
       check,
+      undefined,
+      options,
     );
   };
 
@@ -1310,11 +2205,13 @@ export class Sotez extends AbstractTezModule {
    * @description Typechecks data against a type
    * @param {string | Micheline} data The data
    * @param {string | Micheline} type The data type
+   * @param {Object} [options] The query options
    * @returns {Promise} Typecheck result
    */
   typecheckData = (
     data: string | Micheline,
     type: string | Micheline,
+    options: QueryOptions = {},
   ): Promise<any> => {
     let _data = data;
     let _type = type;
@@ -1336,6 +2233,8 @@ export class Sotez extends AbstractTezModule {
     return this.query(
       `/chains/${this.chain}/blocks/head/helpers/scripts/typecheck_data`,
       check,
+      undefined,
+      options,
     );
   };
 
@@ -1346,6 +2245,7 @@ export class Sotez extends AbstractTezModule {
    * @param {string | Micheline} input Input to run though code
    * @param {string | Micheline} storage State of storage
    * @param {boolean} [trace=false] Whether to trace
+   * @param {Object} [options] The query options
    * @returns {Promise} Run results
    */
   runCode = (
@@ -1354,6 +2254,7 @@ export class Sotez extends AbstractTezModule {
     input: string | Micheline,
     storage: string | Micheline,
     trace = false,
+    options: QueryOptions = {},
   ): Promise<any> => {
     const ep = trace ? 'trace_code' : 'run_code';
 
@@ -1381,6 +2282,8 @@ export class Sotez extends AbstractTezModule {
         input: _input,
         storage: _storage,
       },
+      undefined,
+      options,
     );
   };
 
@@ -1394,24 +2297,152 @@ export class Sotez extends AbstractTezModule {
     if (!manager) {
       return null;
     }
-    const protocolMap = {
-      [protocols['001']]: manager.key,
-      [protocols['002']]: manager.key,
-      [protocols['003']]: manager.key,
-      [protocols['004']]: manager.key,
-      [protocols['005a']]: manager,
-      [protocols['005']]: manager,
-      [protocols['006']]: manager,
-      [protocols['007a']]: manager,
-      [protocols['007']]: manager,
-      [protocols['008a']]: manager,
-      [protocols['008']]: manager,
-      [protocols['009']]: manager,
+    return getProtocol(protocol).managerKey(manager);
+  };
+
+  /**
+   * @description Prepares, signs and injects an operation, see `sendOperation`
+   * @param {Object} paramObject The parameters for the operation
+   * @returns {Promise} Object containing the operation hash and the fees of the operation
+   */
+  private _sendOperation = async (
+    paramObject: OperationParams,
+  ): Promise<any> => {
+    const {
+      operation,
+      source,
+      skipPrevalidation = false,
+      skipSignature = false,
+      feeStrategy,
+      signal,
+      onForged,
+      onSigned,
+    } = paramObject;
+    const fullOp: ForgedBytes = await this.prepareOperation({
+      operation,
+      source,
+      feeStrategy,
+      signal,
+    });
+    const publicKeyHash = source || this.key.publicKeyHash();
+
+    try {
+      await onForged?.(fullOp);
+
+      if (skipSignature) {
+        fullOp.opbytes +=
+          '00000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000000';
+        fullOp.opOb.signature =
+          'edsigtXomBKi5CTRf5cjATJWSyaRvhfYNHqSUGrn4SdbYRcGwQrUGjzEfQDTuqHhuA8b2d8NarZjz8TRf65WkpQmo423BtomS8Q';
+      } else {
+        const signed: Signed = await this.key.sign(
+          fullOp.opbytes,
+          magicBytes.generic,
+        );
+        fullOp.opbytes = signed.sbytes;
+        fullOp.opOb.signature = signed.prefixSig;
+      }
+
+      const hash = operationHash(fullOp.opbytes);
+
+      this._log(
+        'info',
+        skipSignature ? 'Signature Skipped' : 'Operation Signed',
+        { source: publicKeyHash, hash },
+      );
+
+      // Called before the injection, so that the hash is known even if the process stops
+      await onSigned?.({
+        hash,
+        sopbytes: fullOp.opbytes,
+        branch: fullOp.opOb.branch as string,
+      });
+
+      const result = await (skipPrevalidation
+        ? this.silentInject(fullOp.opbytes, { signal })
+        : this.inject(fullOp.opOb, fullOp.opbytes, { signal }));
+
+      return { ...result, fees: fullOp.fees };
+    } catch (e) {
+      await this._counterManager.reset(publicKeyHash, fullOp.counter);
+      throw e;
+    }
+  };
+
+  /**
+   * @description Computes the fees of the manager operations of a batch given without a fee
+   * @param {Array} contents The constructed operations
+   * @param {Array} operations The operations as given
+   * @param {string} protocol The protocol the operations are forged for
+   * @param {string|Object|Function} [feeStrategy] The fee strategy of the call
+   * @param {AbortSignal} [signal] A signal used to abort the request of the fee parameters
+   * @returns {Promise} The fees of the batch
+   */
+  private _applyFees = async (
+    contents: ConstructedOperation[],
+    operations: Operation[],
+    protocol: string,
+    feeStrategy?: FeeStrategy,
+    signal?: AbortSignal,
+  ): Promise<FeeBreakdown> => {
+    const strategy = feeStrategy || this._feeStrategy;
+    const flat = this._flatFee && !feeStrategy;
+    const managed = contents
+      .map((content, index) => ({
+        content,
+        computed: !flat && operations[index].fee === undefined,
+      }))
+      .filter(({ content }) => MANAGER_OPERATIONS.includes(content.kind));
+    const parameters = managed.some(({ computed }) => computed)
+      ? await this.getFeeParameters({ signal })
+      : parseFeeParameters();
+
+    const breakdown: FeeBreakdown = {
+      strategy: flat ? 'flat' : feeStrategyName(strategy),
+      total: '0',
+      operations: [],
     };
-    if (!protocolMap[protocol]) {
-      throw new Error(`Unrecognized protocol: ${protocol}`);
+
+    const { opTags } = getProtocol(protocol);
+    // The base fee and the bytes shared by the batch are paid by the first computed fee
+    let first = true;
+
+    managed.forEach(({ content, computed }) => {
+      // Operations which cannot be forged locally to be sized keep the default fee
+      if (opTags[content.kind] === undefined) {
+        return;
+      }
+
+      const estimate = estimateFee(content, protocol, {
+        parameters,
+        margin: this._feeMargin,
+        first: computed && first,
+        strategy,
+      });
+
+      if (computed) {
+        content.fee = estimate.fee;
+        first = false;
+      }
+
+      breakdown.operations.push({ ...estimate, fee: content.fee, computed });
+    });
+
+    breakdown.total = `${managed.reduce(
+      (total, { content }) => total + parseInt(content.fee, 10),
+      0,
+    )}`;
+
+    if (
+      !flat &&
+      typeof strategy === 'object' &&
+      strategy.type === 'capped' &&
+      parseInt(breakdown.total, 10) > strategy.max
+    ) {
+      throw new FeeCapExceededError(strategy.max, breakdown.total);
     }
-    return protocolMap[protocol];
+
+    return breakdown;
   };
 
   /**
@@ -1423,55 +2454,28 @@ export class Sotez extends AbstractTezModule {
   private _conformOperation = (
     constructedOp: ConstructedOperation,
     nextProtocol: string,
-  ): ConstructedOperation => {
-    const constructOp001 = (op: ConstructedOperation): ConstructedOperation =>
-      op;
-    const constructOp005 = (op: ConstructedOperation): ConstructedOperation => {
-      // @ts-ignore
-      delete op.manager_pubkey;
-      // @ts-ignore
-      delete op.spendable;
-      // @ts-ignore
-      delete op.delegatable;
-      return op;
-    };
-
-    const protocolMap = {
-      [protocols['001']]: constructOp001,
-      [protocols['002']]: constructOp001,
-      [protocols['003']]: constructOp001,
-      [protocols['004']]: constructOp001,
-      [protocols['005a']]: constructOp005,
-      [protocols['005']]: constructOp005,
-      [protocols['006']]: constructOp005,
-      [protocols['007a']]: constructOp005,
-      [protocols['007']]: constructOp005,
-      [protocols['008a']]: constructOp005,
-      [protocols['008']]: constructOp005,
-      [protocols['009']]: constructOp005,
-    };
-
-    return protocolMap[nextProtocol](constructedOp);
-  };
+  ): ConstructedOperation =>
+    getProtocol(nextProtocol).conformOperation(constructedOp);
 
   /**
    * @description Given operation objects, return the operations with their estimated limits
    * @param {Object|Array} operation The operation object or list of objects
    * @param {string} [source] The source of the operation
+   * @param {Object} [options] The query options
    * @returns {Promise} The operations with populated limits
    */
   estimateLimits = async (
     operation: Operation | Operation[],
     source?: string,
+    options: QueryOptions = {},
   ) => {
     const operations = Array.isArray(operation) ? [...operation] : [operation];
 
     const simulated = operations.map((op) => {
-      if (
-        ['reveal', 'transaction', 'origination', 'delegation'].includes(op.kind)
-      ) {
+      if (MANAGER_OPERATIONS.includes(op.kind)) {
         return {
           ...op,
+          fee: op.fee ?? this.defaultFee,
           gas_limit: 1040000,
           storage_limit: 60000,
         };
@@ -1480,23 +2484,22 @@ export class Sotez extends AbstractTezModule {
       return op;
     });
 
-    const { contents: simulatedOperations } = await this.simulateOperation({
+    const { receipt } = await this.simulateOperation({
       operation: simulated,
       source,
       skipEstimate: true,
+      signal: options.signal,
     });
 
     return operations.map((op, index) => {
-      const metadata = simulatedOperations[index]?.metadata;
-
-      if (metadata?.operation_result?.status === 'applied') {
-        const {
-          consumed_gas = 0,
-          storage_size = 0,
-        } = metadata.operation_result;
+      const result = receipt.operations[index];
 
-        const consumedGas = parseInt(consumed_gas, 10);
-        const storageSize = parseInt(storage_size, 10);
+      if (
+        MANAGER_OPERATIONS.includes(op.kind) &&
+        result?.status === 'applied'
+      ) {
+        const consumedGas = parseInt(result.consumedGas, 10);
+        const storageSize = parseInt(result.storageSize, 10);
 
         return {
           gas_limit: consumedGas + 100,
@@ -1512,6 +2515,8 @@ export class Sotez extends AbstractTezModule {
   /**
    * @description Looks up a contract and returns an initialized contract
    * @param {Object} address The contract address
+   * @param {Object} [options] The query options
+   * @param {string|number} [options.block='head'] The block to load the contract at
    * @returns {Promise} An initialized contract class
    * @example
    * // Load contract
@@ -1531,8 +2536,11 @@ export class Sotez extends AbstractTezModule {
    *   storageLimit: '60000',
    * });
    */
-  loadContract = async (address: string): Promise<Contract> => {
-    const contract = new Contract(this, address);
+  loadContract = async (
+    address: string,
+    options: BlockOptions = {},
+  ): Promise<Contract> => {
+    const contract = new Contract(this, address, options);
     await contract.loaded;
     return contract;
   };
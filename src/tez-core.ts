@@ -1,24 +1,211 @@
-import 'isomorphic-fetch';
+import {
+  Transport,
+  FetchTransport,
+  TransportRequest,
+  TransportResponse,
+} from './transport';
+import {
+  ProviderPool,
+  ProviderPoolOptions,
+  ProviderNode,
+} from './providerPool';
+import {
+  SotezError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  TransportError,
+  RpcError,
+  TezosRpcError,
+  parseRpcError,
+} from './errors';
+import { Cache, CacheOptions, LRUCache, cachePolicy } from './cache';
+import { MonitorOptions, Subscription, ndjsonParser } from './monitor';
+import { Middleware, MiddlewareRequest, composeMiddleware } from './middleware';
+import {
+  ConsoleLogger,
+  LogFields,
+  LogLevel,
+  Logger,
+  redact,
+  silentLogger,
+} from './logger';
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  retryInjection?: boolean;
+}
+
+export interface QueryOptions {
+  signal?: AbortSignal;
+  timeout?: number;
+}
+
+export interface BlockOptions extends QueryOptions {
+  block?: string | number;
+}
+
+export interface CoreOptions {
+  debugMode?: boolean;
+  timeout?: number;
+  transport?: Transport;
+  retry?: RetryOptions;
+  pool?: ProviderPoolOptions;
+  cache?: boolean | CacheOptions;
+  logger?: Logger;
+  middleware?: Middleware[];
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelay: 250,
+  maxDelay: 5000,
+  retryInjection: false,
+};
+
+// POST helpers which do not alter the state of the node and can be resent safely
+const IDEMPOTENT_POST_PATHS = [
+  /\/helpers\/scripts\/run_operation$/,
+  /\/helpers\/preapply\/operations$/,
+  /\/helpers\/scripts\/pack_data$/,
+  /\/helpers\/forge\/operations$/,
+];
+
+const DEFAULT_TIMEOUT = 30000;
+
+const DEFAULT_HEAD_TTL = 1000;
+
+const debugLogger = new ConsoleLogger('debug');
+
+const BLOCK_ALIASES: { [key: string]: string } = {
+  finalized: 'head~2',
+};
+
+/**
+ * @description Resolves a block reference to the identifier used in RPC paths
+ * @param {string | number} [block='head'] A block hash, a level, a relative reference (ie. 'head~10') or an alias ('finalized')
+ * @returns {string} The block identifier
+ * @example
+ * resolveBlock(1400000); // '1400000'
+ * resolveBlock('finalized'); // 'head~2'
+ */
+export const resolveBlock = (block: string | number = 'head'): string => {
+  if (typeof block === 'number') {
+    if (!Number.isInteger(block) || block < 0) {
+      throw new Error(`Invalid block level: ${block}`);
+    }
+    return `${block}`;
+  }
+
+  return BLOCK_ALIASES[block] || block;
+};
+
+const RETRYABLE_STATUS_CODES = [429, 502, 503, 504];
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+const abortable = <T>(
+  promise: Promise<T>,
+  path: string,
+  signal?: AbortSignal,
+): Promise<T> => {
+  if (!signal) {
+    return promise;
+  }
+
+  if (signal.aborted) {
+    return Promise.reject(new RequestAbortedError(path));
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => reject(new RequestAbortedError(path));
+    signal.addEventListener('abort', onAbort);
+    promise
+      .then(resolve, reject)
+      .then(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+// Sends a request through a transport, wrapping its failures other than the errors of Sotez
+const transportCall = async (
+  call: () => Promise<TransportResponse>,
+  path: string,
+): Promise<TransportResponse> => {
+  try {
+    return await call();
+  } catch (e) {
+    throw e instanceof SotezError ? e : new TransportError(e, path);
+  }
+};
 
 export class AbstractTezModule {
-  _provider: string;
+  _pool: ProviderPool;
+
+  _healthCheckHandle?: ReturnType<typeof setInterval>;
 
   _chain: string;
 
   _debugMode: boolean;
 
-  constructor(provider: string, chain: string, debugMode = false) {
-    this._provider = provider;
+  _transport: Transport;
+
+  _retry: Required<RetryOptions>;
+
+  _timeout: number;
+
+  _cache?: Required<CacheOptions>;
+
+  _pending: { [path: string]: Promise<any> } = {};
+
+  _logger?: Logger;
+
+  _requestId = 0;
+
+  _middleware: Middleware[];
+
+  constructor(
+    provider: string | string[],
+    chain: string,
+    options: CoreOptions = {},
+  ) {
+    this._pool = new ProviderPool(provider, options.pool);
     this._chain = chain;
-    this._debugMode = debugMode;
+    this._debugMode = options.debugMode || false;
+    this._transport = options.transport || new FetchTransport();
+    this._retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    this._timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this._logger = options.logger;
+    this._middleware = [...(options.middleware || [])];
+
+    if (options.cache) {
+      this._cache = {
+        store: new LRUCache(),
+        headTtl: DEFAULT_HEAD_TTL,
+        ...(options.cache === true ? {} : options.cache),
+      };
+    }
+
+    if (this._pool.options.healthCheckInterval > 0) {
+      this.startHealthChecks();
+    }
   }
 
   get provider(): string {
-    return this._provider;
+    return this._pool.healthy()[0] || this._pool.providers[0];
   }
 
   set provider(provider: string) {
-    this._provider = provider;
+    this._pool = new ProviderPool(provider, this._pool.options);
+  }
+
+  get providers(): string[] {
+    return this._pool.providers;
+  }
+
+  get pool(): ProviderPool {
+    return this._pool;
   }
 
   get chain(): string {
@@ -37,22 +224,164 @@ export class AbstractTezModule {
     this._debugMode = value;
   }
 
-  setProvider(provider: string, chain: string = this.chain): void {
-    this._provider = provider;
+  get transport(): Transport {
+    return this._transport;
+  }
+
+  set transport(value: Transport) {
+    this._transport = value;
+  }
+
+  get timeout(): number {
+    return this._timeout;
+  }
+
+  set timeout(value: number) {
+    this._timeout = value;
+  }
+
+  get retry(): Required<RetryOptions> {
+    return this._retry;
+  }
+
+  set retry(value: Required<RetryOptions>) {
+    this._retry = { ...DEFAULT_RETRY_OPTIONS, ...value };
+  }
+
+  /**
+   * @description The logger receiving the activity of the instance. Unless a logger is provided,
+   *   messages are printed to the console in debug mode and discarded otherwise.
+   * @returns {Object} The logger
+   */
+  get logger(): Logger {
+    if (this._logger) {
+      return this._logger;
+    }
+
+    return this._debugMode ? debugLogger : silentLogger;
+  }
+
+  set logger(value: Logger) {
+    this._logger = value;
+  }
+
+  get cache(): Cache | undefined {
+    return this._cache?.store;
+  }
+
+  setProvider(provider: string | string[], chain: string = this.chain): void {
+    this._pool = new ProviderPool(provider, this._pool.options);
     this._chain = chain;
   }
 
+  /**
+   * @description Checks whether each provider of the pool is bootstrapped and synced, marking
+   *   the providers which are not as unhealthy
+   * @returns {Promise} The providers of the pool with their health
+   * @example
+   * sotez.checkHealth()
+   *   .then(nodes => nodes.forEach(({ url, healthy }) => console.log(url, healthy)));
+   */
+  checkHealth = async (): Promise<ProviderNode[]> => {
+    const pool = this._pool;
+
+    await Promise.all(
+      pool.providers.map(async (provider) => {
+        try {
+          const { ok, body } = await this._dispatch({
+            provider,
+            path: `/chains/${this.chain}/is_bootstrapped`,
+            method: 'GET',
+            headers: {},
+          });
+
+          if (!ok) {
+            pool.markUnhealthy(provider, body);
+          } else if (
+            !body.bootstrapped ||
+            (body.sync_state && body.sync_state !== 'synced')
+          ) {
+            pool.markUnhealthy(
+              provider,
+              new Error(`Provider ${provider} is not synced`),
+            );
+          } else {
+            pool.markHealthy(provider);
+          }
+        } catch (e) {
+          pool.markUnhealthy(provider, e);
+        }
+      }),
+    );
+
+    return pool.nodes;
+  };
+
+  /**
+   * @description Periodically checks the health of the providers
+   * @param {number} [interval] The interval between health checks (in ms)
+   */
+  startHealthChecks = (
+    interval: number = this._pool.options.healthCheckInterval,
+  ): void => {
+    this.stopHealthChecks();
+    this._healthCheckHandle = setInterval(() => {
+      this.checkHealth();
+    }, interval);
+    // Do not keep node processes alive because of the health checks
+    const handle: unknown = this._healthCheckHandle;
+    if (typeof handle === 'object' && handle !== null && 'unref' in handle) {
+      (handle as { unref: () => void }).unref();
+    }
+  };
+
+  /**
+   * @description Stops the periodic health checks
+   */
+  stopHealthChecks = (): void => {
+    if (this._healthCheckHandle) {
+      clearInterval(this._healthCheckHandle);
+      delete this._healthCheckHandle;
+    }
+  };
+
+  /**
+   * @description Adds a middleware to the chain wrapping every request sent to a node, including
+   *   the retried requests, the health checks and the monitored streams
+   * @param {Function} middleware The middleware, called with the request and the next handler
+   * @returns {Object} The instance, to chain calls
+   * @example
+   * sotez
+   *   .use((request, next) => next({
+   *     ...request,
+   *     headers: { ...request.headers, 'X-Api-Key': apiKey },
+   *   }))
+   *   .use((request, next) => next({ ...request, path: `/tezos${request.path}` }));
+   */
+  use = (middleware: Middleware): this => {
+    this._middleware.push(middleware);
+    return this;
+  };
+
   /**
    * @description Queries a node given a path and payload
    * @param {string} path The RPC path to query
    * @param {string} [payload] The payload of the query
    * @param {string} [method] The request method. Either 'GET' or 'POST'
+   * @param {Object} [options] The request options
+   * @param {AbortSignal} [options.signal] A signal used to abort the request
+   * @param {number} [options.timeout] The timeout of the request (in ms), 0 to disable
    * @returns {Promise} The response of the query
    * @example
    * sotez.query(`/chains/main/blocks/head`)
    *  .then(head => console.log(head));
    */
-  query = (path: string, payload?: any, method?: string): Promise<any> => {
+  query = (
+    path: string,
+    payload?: any,
+    method?: string,
+    { signal, timeout = this._timeout }: QueryOptions = {},
+  ): Promise<any> => {
     let queryMethod = method;
     let queryPayload = payload;
 
@@ -66,41 +395,495 @@ export class AbstractTezModule {
       queryMethod = 'POST';
     }
 
-    if (this._debugMode) {
-      console.log('Query Request:', path, payload);
+    const request: Omit<TransportRequest, 'url'> = {
+      method: queryMethod,
+      headers: {
+        ...(queryMethod === 'POST'
+          ? { 'Content-Type': 'application/json' }
+          : {}),
+      },
+      body: JSON.stringify(queryPayload),
+    };
+
+    if (this._cache && queryMethod === 'GET') {
+      return this._cachedQuery(path, request, { signal, timeout });
     }
 
-    return new Promise((resolve, reject) => {
-      fetch(`${this.provider}${path}`, {
-        method: queryMethod,
-        headers: {
-          ...(queryMethod === 'POST'
-            ? { 'Content-Type': 'application/json' }
-            : {}),
-        },
-        body: JSON.stringify(queryPayload),
-      })
-        .then(async (response) => {
-          if (this._debugMode) {
-            console.log('Query Response:', path, response);
+    return this._query(path, request, { signal, timeout });
+  };
+
+  /**
+   * @description Subscribes to a streamed RPC, such as the `/monitor` endpoints. The stream is
+   *   reopened, on the next healthy provider, whenever it fails or ends.
+   * @param {string} path The RPC path to monitor
+   * @param {Object} [options] The monitor options
+   * @param {number} [options.reconnectDelay=1000] The delay before reconnecting (in ms)
+   * @returns {Object} The subscription to the values of the stream
+   * @example
+   * const subscription = sotez.monitor('/monitor/valid_blocks');
+   * subscription.on('data', (block) => console.log(block.hash));
+   */
+  monitor = <T = any>(
+    path: string,
+    options: MonitorOptions = {},
+  ): Subscription<T> =>
+    new Subscription<T>(
+      (onValue, signal) => this._stream(path, onValue, signal),
+      options,
+    );
+
+  /**
+   * @description Opens a stream of newline-delimited JSON values
+   * @param {string} path The RPC path of the stream
+   * @param {Function} onValue Called with each value of the stream
+   * @param {AbortSignal} [signal] A signal used to close the stream
+   * @returns {Promise} Resolves once the stream ends
+   */
+  protected _stream = async (
+    path: string,
+    onValue: (value: any) => void,
+    signal?: AbortSignal,
+  ): Promise<void> => {
+    const { stream } = this._transport;
+
+    if (!stream) {
+      throw new SotezError('The transport does not support streaming');
+    }
+
+    const { provider } = this;
+    let response: TransportResponse;
+
+    this._log('debug', 'Monitor Request', { path, provider });
+
+    try {
+      response = await this._dispatch(
+        { provider, path, method: 'GET', headers: {}, signal },
+        ({ provider: url, path: streamPath, ...request }) =>
+          transportCall(
+            () =>
+              stream(
+                { ...request, url: `${url}${streamPath}` },
+                ndjsonParser(onValue),
+              ),
+            streamPath,
+          ),
+      );
+    } catch (e) {
+      if (!signal?.aborted) {
+        this._pool.markUnhealthy(provider, e);
+      }
+      throw e;
+    }
+
+    if (!response.ok) {
+      if (RETRYABLE_STATUS_CODES.includes(response.status)) {
+        this._pool.markUnhealthy(provider, response.body);
+      }
+      throw parseRpcError(response.body, response.status);
+    }
+  };
+
+  /**
+   * @description Answers a GET request from the cache when possible. Identical concurrent
+   *   requests share a single in-flight request, aborting one of them only stops waiting for it.
+   * @param {string} path The RPC path of the request
+   * @param {Object} request The transport request, without its url
+   * @param {Object} options The request options
+   * @param {AbortSignal} [options.signal] A signal used to stop waiting for the request
+   * @param {number} [options.timeout] The timeout of the request (in ms), 0 to disable
+   * @returns {Promise} The response of the query
+   */
+  private _cachedQuery = async (
+    path: string,
+    request: Omit<TransportRequest, 'url'>,
+    { signal, timeout }: QueryOptions,
+  ): Promise<any> => {
+    if (signal?.aborted) {
+      throw new RequestAbortedError(path);
+    }
+
+    const { store, headTtl } = this._cache as Required<CacheOptions>;
+    const policy = cachePolicy(path, headTtl);
+
+    if (policy) {
+      const cached = await store.get(policy.key);
+
+      if (cached !== undefined) {
+        this._log('debug', 'Query Cache Hit', { path });
+        return cached;
+      }
+    }
+
+    if (!this._pending[path]) {
+      const pending = this._query(path, request, { timeout })
+        .then(async (body) => {
+          if (policy) {
+            await store.set(policy.key, body, policy.ttl);
           }
+          return body;
+        })
+        .finally(() => {
+          delete this._pending[path];
+        });
 
-          const contentType = response.headers.get('content-type');
-          const isJson = contentType?.includes('application/json');
+      this._pending[path] = pending;
+    }
+
+    return abortable(this._pending[path], path, signal);
+  };
+
+  /**
+   * @description Sends a request, rejecting when it is aborted or times out
+   * @param {string} path The RPC path of the request
+   * @param {Object} request The transport request, without its url
+   * @param {Object} options The request options
+   * @param {AbortSignal} [options.signal] A signal used to abort the request
+   * @param {number} [options.timeout] The timeout of the request (in ms), 0 to disable
+   * @returns {Promise} The response of the query
+   */
+  private _query = (
+    path: string,
+    request: Omit<TransportRequest, 'url'>,
+    { signal, timeout = this._timeout }: QueryOptions,
+  ): Promise<any> => {
+    if (signal?.aborted) {
+      return Promise.reject(new RequestAbortedError(path));
+    }
+
+    const controller =
+      typeof AbortController !== 'undefined' ? new AbortController() : null;
+    const retryable = this._isRetryable(path, request.method);
+    this._requestId += 1;
+    const requestId = this._requestId;
+    const { method } = request;
+    const start = Date.now();
+
+    this._log('debug', 'Query Request', { requestId, method, path });
+
+    return new Promise((resolve, reject) => {
+      let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+      let settled = false;
+
+      const cleanup = (): void => {
+        settled = true;
+        if (timeoutHandle) {
+          clearTimeout(timeoutHandle);
+        }
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const fail = (error: Error): void => {
+        if (settled) {
+          return;
+        }
+        cleanup();
+        this._log('warn', 'Query Failed', {
+          requestId,
+          method,
+          path,
+          latency: Date.now() - start,
+          status:
+            error instanceof RpcError || error instanceof TezosRpcError
+              ? error.status
+              : undefined,
+          error,
+        });
+        reject(error);
+      };
+
+      const cancel = (error: Error): void => {
+        controller?.abort();
+        fail(error);
+      };
+
+      const onAbort = (): void => cancel(new RequestAbortedError(path));
+
+      signal?.addEventListener('abort', onAbort);
+
+      if (timeout > 0) {
+        timeoutHandle = setTimeout(
+          () => cancel(new RequestTimeoutError(timeout, path)),
+          timeout,
+        );
+      }
+
+      this._request(
+        path,
+        { ...request, ...(controller ? { signal: controller.signal } : {}) },
+        retryable,
+        requestId,
+      )
+        .then((response) => {
+          this._log('debug', 'Query Response', {
+            requestId,
+            method,
+            path,
+            status: response.status,
+            latency: Date.now() - start,
+          });
 
           if (!response.ok) {
-            if (isJson) {
-              return response.json().then(reject);
-            }
-            return response.text().then(reject);
+            throw parseRpcError(response.body, response.status);
           }
 
-          if (isJson) {
-            return response.json().then(resolve);
-          }
-          return response.text().then(resolve);
+          return response.body;
         })
-        .catch(reject);
+        .then((body) => {
+          cleanup();
+          resolve(body);
+        }, fail);
+    });
+  };
+
+  /**
+   * @description Sends a request to a provider through the middleware chain
+   * @param {Object} request The request, with its provider and path
+   * @param {Function} [handler] The handler sending the request, through the transport by default
+   * @returns {Promise} The transport response
+   */
+  private _dispatch = (
+    request: MiddlewareRequest,
+    handler = ({
+      provider,
+      path,
+      ...transportRequest
+    }: MiddlewareRequest): Promise<TransportResponse> =>
+      transportCall(
+        () =>
+          this._transport.request({
+            ...transportRequest,
+            url: `${provider}${path}`,
+          }),
+        path,
+      ),
+  ): Promise<TransportResponse> =>
+    composeMiddleware(this._middleware, handler)(request);
+
+  /**
+   * @description Sends a message to the logger, with its fields redacted
+   * @param {string} level The level of the message
+   * @param {string} message The message
+   * @param {Object} [fields] The structured fields of the message
+   */
+  protected _log = (
+    level: LogLevel,
+    message: string,
+    fields: LogFields = {},
+  ): void => {
+    const { logger } = this;
+
+    if (logger !== silentLogger) {
+      logger[level](message, redact(fields));
+    }
+  };
+
+  /**
+   * @description Whether a request can be safely sent more than once
+   * @param {string} path The RPC path of the request
+   * @param {string} method The request method
+   * @returns {boolean} Whether the request may be retried
+   */
+  private _isRetryable = (path: string, method: string): boolean => {
+    if (method === 'GET') {
+      return true;
+    }
+
+    if (path.startsWith('/injection/operation')) {
+      return this._retry.retryInjection;
+    }
+
+    return IDEMPOTENT_POST_PATHS.some((pattern) => pattern.test(path));
+  };
+
+  /**
+   * @description Sends a request through the provider pool, retrying transient failures with an
+   *   exponential backoff
+   * @param {string} path The RPC path of the request
+   * @param {Object} request The transport request, without its url
+   * @param {boolean} retryable Whether the request may be retried
+   * @param {number} [requestId] The id of the request, for logging
+   * @returns {Promise} The transport response
+   */
+  private _request = async (
+    path: string,
+    request: Omit<TransportRequest, 'url'>,
+    retryable: boolean,
+    requestId?: number,
+  ): Promise<TransportResponse> => {
+    const maxAttempts = retryable ? Math.max(this._retry.maxAttempts, 1) : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      let response: TransportResponse;
+
+      if (request.signal?.aborted) {
+        throw new RequestAbortedError(path);
+      }
+
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        response = await this._send(path, request, retryable);
+      } catch (e) {
+        if (attempt >= maxAttempts || request.signal?.aborted) {
+          throw e;
+        }
+        this._log('warn', 'Query Retry', {
+          requestId,
+          path,
+          attempt,
+          error: e,
+        });
+        // eslint-disable-next-line no-await-in-loop
+        await sleep(this._backoff(attempt));
+        continue;
+      }
+
+      if (
+        response.ok ||
+        attempt >= maxAttempts ||
+        !RETRYABLE_STATUS_CODES.includes(response.status)
+      ) {
+        return response;
+      }
+
+      this._log('warn', 'Query Retry', {
+        requestId,
+        path,
+        attempt,
+        status: response.status,
+      });
+
+      // eslint-disable-next-line no-await-in-loop
+      await sleep(this._backoff(attempt));
+    }
+  };
+
+  /**
+   * @description Sends a request to the providers of the pool, failing over to the next provider
+   *   when a provider is unreachable or unavailable
+   * @param {string} path The RPC path of the request
+   * @param {Object} request The transport request, without its url
+   * @param {boolean} retryable Whether the request may be sent to more than one provider
+   * @returns {Promise} The transport response
+   */
+  private _send = async (
+    path: string,
+    request: Omit<TransportRequest, 'url'>,
+    retryable: boolean,
+  ): Promise<TransportResponse> => {
+    const pool = this._pool;
+
+    if (
+      pool.options.broadcastInjection &&
+      path.startsWith('/injection/operation')
+    ) {
+      return this._broadcast(path, request);
+    }
+
+    const healthy = pool.healthy();
+    const candidates = pool.candidates();
+    const providers = retryable ? candidates : candidates.slice(0, 1);
+    let failure: { response?: TransportResponse; error?: any } = {};
+
+    for (let i = 0; i < providers.length; i++) {
+      const provider = providers[i];
+
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        const response = await this._dispatch({
+          ...request,
+          provider,
+          path,
+        });
+
+        if (response.ok || !RETRYABLE_STATUS_CODES.includes(response.status)) {
+          if (healthy.includes(provider)) {
+            pool.markHealthy(provider);
+          }
+          return response;
+        }
+
+        pool.markUnhealthy(provider, response.body);
+        failure = { response };
+      } catch (e) {
+        if (request.signal?.aborted) {
+          throw e;
+        }
+        pool.markUnhealthy(provider, e);
+        failure = { error: e };
+      }
+    }
+
+    if (failure.response) {
+      return failure.response;
+    }
+    throw failure.error;
+  };
+
+  /**
+   * @description Sends a request to every healthy provider of the pool, resolving with the first
+   *   successful response
+   * @param {string} path The RPC path of the request
+   * @param {Object} request The transport request, without its url
+   * @returns {Promise} The transport response
+   */
+  private _broadcast = (
+    path: string,
+    request: Omit<TransportRequest, 'url'>,
+  ): Promise<TransportResponse> => {
+    const pool = this._pool;
+    const healthy = pool.healthy();
+    const providers = healthy.length ? healthy : pool.candidates().slice(0, 1);
+
+    return new Promise((resolve, reject) => {
+      let pending = providers.length;
+      let failure: { response?: TransportResponse; error?: any } | undefined;
+
+      providers.forEach((provider) => {
+        this._dispatch({ ...request, provider, path })
+          .then(
+            (response) => {
+              if (response.ok) {
+                resolve(response);
+                return;
+              }
+              if (RETRYABLE_STATUS_CODES.includes(response.status)) {
+                pool.markUnhealthy(provider, response.body);
+              }
+              failure = failure || { response };
+            },
+            (error) => {
+              if (request.signal?.aborted) {
+                reject(error);
+                return;
+              }
+              pool.markUnhealthy(provider, error);
+              failure = failure || { error };
+            },
+          )
+          .then(() => {
+            pending -= 1;
+            if (pending === 0 && failure) {
+              if (failure.response) {
+                resolve(failure.response);
+              } else {
+                reject(failure.error);
+              }
+            }
+          });
+      });
     });
   };
+
+  /**
+   * @description Calculates the delay before the next attempt, using exponential backoff with jitter
+   * @param {number} attempt The number of the failed attempt
+   * @returns {number} The delay in milliseconds
+   */
+  private _backoff = (attempt: number): number => {
+    const delay = Math.min(
+      this._retry.maxDelay,
+      this._retry.baseDelay * 2 ** (attempt - 1),
+    );
+    return delay / 2 + (Math.random() * delay) / 2;
+  };
 }
@@ -0,0 +1,110 @@
+import 'isomorphic-fetch';
+
+export interface TransportRequest {
+  url: string;
+  method: string;
+  headers: { [key: string]: string };
+  body?: string;
+  signal?: AbortSignal;
+}
+
+export interface TransportResponse {
+  ok: boolean;
+  status: number;
+  body: any;
+}
+
+/**
+ * @description The interface used by Sotez to communicate with a node. Any implementation
+ *   (a custom http client, a proxy, an in-process mock, an ipc bridge) can be provided
+ *   through the `transport` module option. `stream` is only required by the monitoring
+ *   methods: it passes the chunks of the response body to `onChunk` as they are received,
+ *   and resolves once the stream ends (with the body of the response when it failed).
+ */
+export interface Transport {
+  request: (request: TransportRequest) => Promise<TransportResponse>;
+  stream?: (
+    request: TransportRequest,
+    onChunk: (chunk: string) => void,
+  ) => Promise<TransportResponse>;
+}
+
+/**
+ * @description The default transport, backed by the global fetch
+ * @example
+ * const tezos = new Sotez('https://127.0.0.1:8732', 'main', {
+ *   transport: new FetchTransport(),
+ * });
+ */
+export class FetchTransport implements Transport {
+  request = async ({
+    url,
+    method,
+    headers,
+    body,
+    signal,
+  }: TransportRequest): Promise<TransportResponse> => {
+    const response = await fetch(url, {
+      method,
+      headers,
+      body,
+      signal,
+    });
+
+    const contentType = response.headers.get('content-type');
+    const isJson = contentType?.includes('application/json');
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      body: isJson ? await response.json() : await response.text(),
+    };
+  };
+
+  stream = async (
+    { url, method, headers, body, signal }: TransportRequest,
+    onChunk: (chunk: string) => void,
+  ): Promise<TransportResponse> => {
+    const response = await fetch(url, {
+      method,
+      headers,
+      body,
+      signal,
+    });
+
+    if (!response.ok) {
+      return {
+        ok: false,
+        status: response.status,
+        body: await response.text(),
+      };
+    }
+
+    const stream: any = response.body;
+
+    if (stream && typeof stream.getReader === 'function') {
+      // WHATWG readable stream, in browsers
+      const reader = stream.getReader();
+      const decoder = new TextDecoder();
+
+      for (;;) {
+        // eslint-disable-next-line no-await-in-loop
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        onChunk(decoder.decode(value, { stream: true }));
+      }
+    } else if (stream) {
+      // Node readable stream
+      await new Promise((resolve, reject) => {
+        stream.setEncoding?.('utf8');
+        stream.on('data', (chunk: string) => onChunk(chunk.toString()));
+        stream.on('end', resolve);
+        stream.on('error', reject);
+      });
+    }
+
+    return { ok: true, status: response.status, body: undefined };
+  };
+}
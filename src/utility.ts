@@ -160,6 +160,21 @@ export const encodeExpr = (value: string): string => {
   return b58cencode(hash, prefix.expr);
 };
 
+/**
+ * @description Computes the hash of an operation from its signed bytes, as returned by a node on
+ *   injection
+ * @param {string} sopbytes The signed operation bytes
+ * @returns {string} The base58 encoded operation hash
+ * @example
+ * const hash = operationHash(sopbytes); // 'oo...'
+ */
+export const operationHash = (sopbytes: string): string => {
+  let hash = blake2b(32);
+  hash.update(hex2buf(sopbytes));
+  hash.digest((hash = Buffer.alloc(32)));
+  return b58cencode(hash, prefix.o);
+};
+
 export const sexp2mic = function me(mi: string): Micheline {
   mi = mi
     .replace(/(?:@[a-z_]+)|(?:#.*$)/gm, '')
@@ -347,6 +362,7 @@ export default {
   hexNonce,
   mergebuf,
   encodeExpr,
+  operationHash,
   sexp2mic,
   mic2arr,
   ml2mic,
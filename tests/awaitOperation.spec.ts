@@ -0,0 +1,113 @@
+import { Sotez, TransportResponse, parseReceipt } from '../src';
+
+describe('awaitOperation', () => {
+  let tez = new Sotez();
+  let headLevel = 10;
+  let blocks: { [level: number]: { hash: string; operations: string[][] } };
+  let failures: TransportResponse[];
+  const block = (hash: string, operations: string[] = []): any => ({
+    hash,
+    operations: [[], [], [], operations],
+  });
+
+  beforeEach(() => {
+    headLevel = 10;
+    failures = [];
+    blocks = {
+      10: block('B10'),
+      11: block('B11', ['ooOperation']),
+      12: block('B12'),
+      13: block('B13'),
+      14: block('B14'),
+    };
+    tez = new Sotez('http://127.0.0.1:8732', 'main', {
+      transport: {
+        request: async ({ url }) => {
+          const failure = failures.shift();
+          if (failure) {
+            return failure;
+          }
+
+          const [, id, path] =
+            url.match(/\/chains\/main\/blocks\/(\w+)\/(.*)$/) || [];
+          const level = Object.keys(blocks).find(
+            (l) => id === l || blocks[+l].hash === id,
+          );
+          const { hash, operations } = blocks[+(level as string)] || {};
+          const body: any = {
+            'head/header': { level: headLevel },
+            hash,
+            operation_hashes: operations,
+            'operations/3/0': { hash: 'ooOperation', contents: [] },
+          }[id === 'head' ? `head/${path}` : path];
+          return { ok: true, status: 200, body };
+        },
+      },
+      retry: { maxAttempts: 1 },
+    });
+  });
+
+  it('scans every block since waiting began', async () => {
+    const operation = tez.awaitOperation('ooOperation', 0.01, 180);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    headLevel = 13;
+
+    await expect(operation).resolves.toEqual({
+      block: 'B11',
+      level: 11,
+      operation: { hash: 'ooOperation', contents: [] },
+      receipt: parseReceipt([], 'ooOperation'),
+      confirmations: 3,
+    });
+  });
+
+  it('waits for confirmations and reports reorgs', async () => {
+    const reorgs: any[] = [];
+    const operation = tez.awaitOperation('ooOperation', 0.01, 180, {
+      confirmations: 3,
+      onReorg: (inclusion) => reorgs.push(inclusion),
+    });
+    headLevel = 11;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    blocks[11] = block('B11b');
+    blocks[12] = block('B12b', ['ooOperation']);
+    headLevel = 14;
+
+    await expect(operation).resolves.toMatchObject({
+      block: 'B12b',
+      level: 12,
+      confirmations: 3,
+    });
+    expect(reorgs).toEqual([
+      expect.objectContaining({ block: 'B11', level: 11 }),
+    ]);
+  });
+
+  it('scans from the given level', async () => {
+    headLevel = 12;
+    await expect(
+      tez.awaitOperation('ooOperation', 10, 180, { fromLevel: 10 }),
+    ).resolves.toMatchObject({ block: 'B11', confirmations: 2 });
+  });
+
+  it('checks again after transient failures', async () => {
+    headLevel = 11;
+    failures = [
+      { ok: false, status: 500, body: 'Internal error' },
+      { ok: false, status: 503, body: 'Unavailable' },
+    ];
+
+    await expect(
+      tez.awaitOperation('ooOperation', 0.01, 180),
+    ).resolves.toMatchObject({ block: 'B11', confirmations: 1 });
+  });
+
+  it('rejects on other failures', async () => {
+    failures = [{ ok: false, status: 404, body: 'Not found' }];
+
+    await expect(
+      tez.awaitOperation('ooOperation', 0.01, 180),
+    ).rejects.toMatchObject({ name: 'RpcError', status: 404 });
+  });
+});
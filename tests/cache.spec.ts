@@ -0,0 +1,104 @@
+import { Sotez, Transport, RequestAbortedError, LRUCache } from '../src';
+
+describe('cache', () => {
+  let tez = new Sotez();
+
+  const hash = 'BLwKJbvsZskBQ6AxWDNbjxdGZqM1KQsxf5KcJ6sXcQqsy73r6B1';
+  let urls: string[] = [];
+  const transport: Transport = {
+    request: async ({ url }) => {
+      urls.push(url);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return { ok: true, status: 200, body: { url } };
+    },
+  };
+
+  beforeEach(() => {
+    urls = [];
+    tez = new Sotez('http://127.0.0.1:8732', 'main', {
+      transport,
+      cache: { headTtl: 50 },
+    });
+  });
+
+  it('evicts the least recently used entries', () => {
+    const cache = new LRUCache(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBe(3);
+    expect(cache.size).toBe(2);
+  });
+
+  it('caches hash-addressed blocks and contract entrypoints', async () => {
+    await tez.getHeader({ block: hash });
+    await tez.getHeader({ block: hash });
+    await tez.query(
+      '/chains/main/blocks/head/context/contracts/KT1MKm4ynxPSzRjw26jPSJbaMFTqTc4dVPdK/entrypoints',
+    );
+    await tez.query(
+      '/chains/main/blocks/1400000/context/contracts/KT1MKm4ynxPSzRjw26jPSJbaMFTqTc4dVPdK/entrypoints',
+    );
+    expect(urls).toHaveLength(2);
+  });
+
+  it('caches contract scripts with their block', async () => {
+    await tez.query(
+      `/chains/main/blocks/${hash}/context/contracts/KT1MKm4ynxPSzRjw26jPSJbaMFTqTc4dVPdK/script`,
+    );
+    await tez.query(
+      `/chains/main/blocks/${hash}/context/contracts/KT1MKm4ynxPSzRjw26jPSJbaMFTqTc4dVPdK/script`,
+    );
+    await tez.query(
+      '/chains/main/blocks/1400000/context/contracts/KT1MKm4ynxPSzRjw26jPSJbaMFTqTc4dVPdK/script',
+    );
+    await tez.query(
+      '/chains/main/blocks/1400000/context/contracts/KT1MKm4ynxPSzRjw26jPSJbaMFTqTc4dVPdK/script',
+    );
+    expect(urls).toHaveLength(3);
+  });
+
+  it('caches head paths briefly', async () => {
+    await tez.getHead();
+    await tez.getHead();
+    expect(urls).toHaveLength(1);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    await tez.getHead();
+    expect(urls).toHaveLength(2);
+  });
+
+  it('does not cache other paths', async () => {
+    await tez.getBalance('tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs', {
+      block: 1400000,
+    });
+    await tez.getBalance('tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs', {
+      block: 1400000,
+    });
+    expect(urls).toHaveLength(2);
+  });
+
+  it('merges concurrent identical requests', async () => {
+    const balances = await Promise.all([
+      tez.getBalance('tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs', { block: 1 }),
+      tez.getBalance('tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs', { block: 1 }),
+      tez.getBalance('tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs', { block: 2 }),
+    ]);
+    expect(urls).toHaveLength(2);
+    expect(balances[0]).toEqual(balances[1]);
+  });
+
+  it('aborts a merged request without affecting the others', async () => {
+    const controller = new AbortController();
+    const aborted = tez.getHead({ signal: controller.signal });
+    const head = tez.getHead();
+    controller.abort();
+    await expect(aborted).rejects.toBeInstanceOf(RequestAbortedError);
+    await expect(head).resolves.toEqual({
+      url: 'http://127.0.0.1:8732/chains/main/blocks/head',
+    });
+    expect(urls).toHaveLength(1);
+  });
+});
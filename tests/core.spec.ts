@@ -1,4 +1,12 @@
-import { Sotez } from '../src';
+import {
+  Sotez,
+  Transport,
+  TransportRequest,
+  RequestAbortedError,
+  RequestTimeoutError,
+  resolveBlock,
+  operationHash,
+} from '../src';
 
 describe('core', () => {
   let tez = new Sotez();
@@ -35,4 +43,239 @@ describe('core', () => {
     tez.setProvider('http://127.0.0.1:8888');
     expect(tez.provider).toBe('http://127.0.0.1:8888');
   });
+
+  it('custom transport', async () => {
+    const requests: TransportRequest[] = [];
+    const transport: Transport = {
+      request: async (request) => {
+        requests.push(request);
+        return { ok: true, status: 200, body: '1000' };
+      },
+    };
+    tez = new Sotez('http://127.0.0.1:8732', 'main', { transport });
+    expect(tez.transport).toBe(transport);
+
+    const balance = await tez.getBalance(
+      'tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs',
+    );
+    expect(balance).toBe('1000');
+    expect(requests[0].method).toBe('GET');
+    expect(requests[0].url).toBe(
+      'http://127.0.0.1:8732/chains/main/blocks/head/context/contracts/tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs/balance',
+    );
+  });
+
+  it('custom transport errors', async () => {
+    tez.transport = {
+      request: async () => ({
+        ok: false,
+        status: 404,
+        body: 'Not found',
+      }),
+    };
+    await expect(tez.getHead()).rejects.toMatchObject({
+      body: 'Not found',
+      status: 404,
+    });
+
+    const cause = new Error('ECONNRESET');
+    tez.transport = {
+      request: async () => {
+        throw cause;
+      },
+    };
+    await expect(tez.getHead()).rejects.toMatchObject({
+      name: 'TransportError',
+      message: 'Request failed: /chains/main/blocks/head: ECONNRESET',
+      cause,
+    });
+  });
+
+  describe('retry', () => {
+    const failingTransport = (failures: number) => {
+      const requests: TransportRequest[] = [];
+      const transport: Transport = {
+        request: async (request) => {
+          requests.push(request);
+          if (requests.length <= failures) {
+            return { ok: false, status: 502, body: 'Bad Gateway' };
+          }
+          return { ok: true, status: 200, body: 'ok' };
+        },
+      };
+      return { requests, transport };
+    };
+
+    it('retries idempotent requests', async () => {
+      const { requests, transport } = failingTransport(2);
+      tez = new Sotez('http://127.0.0.1:8732', 'main', {
+        transport,
+        retry: { baseDelay: 1 },
+      });
+      await expect(tez.getHeadHash()).resolves.toBe('ok');
+      expect(requests).toHaveLength(3);
+    });
+
+    it('gives up after the max attempts', async () => {
+      const { requests, transport } = failingTransport(5);
+      tez = new Sotez('http://127.0.0.1:8732', 'main', {
+        transport,
+        retry: { baseDelay: 1, maxAttempts: 2 },
+      });
+      await expect(tez.getHeadHash()).rejects.toMatchObject({
+        body: 'Bad Gateway',
+      });
+      expect(requests).toHaveLength(2);
+    });
+
+    it('does not retry injection unless enabled', async () => {
+      const { requests, transport } = failingTransport(1);
+      tez = new Sotez('http://127.0.0.1:8732', 'main', {
+        transport,
+        retry: { baseDelay: 1 },
+      });
+      // The failed injection is not retried, and may have reached the node
+      await expect(tez.silentInject('00')).resolves.toEqual({
+        hash: operationHash('00'),
+        ambiguous: true,
+      });
+      expect(requests).toHaveLength(1);
+
+      tez.retry = { ...tez.retry, retryInjection: true };
+      await expect(tez.silentInject('00')).resolves.toEqual({ hash: 'ok' });
+    });
+  });
+
+  describe('cancellation', () => {
+    const hangingTransport: Transport = {
+      request: () => new Promise(() => {}),
+    };
+
+    it('times out requests', async () => {
+      tez = new Sotez('http://127.0.0.1:8732', 'main', {
+        transport: hangingTransport,
+        timeout: 10,
+      });
+      expect(tez.timeout).toBe(10);
+      await expect(tez.getHead()).rejects.toBeInstanceOf(RequestTimeoutError);
+      await expect(
+        tez.query('/chains/main/blocks/head', undefined, undefined, {
+          timeout: 20,
+        }),
+      ).rejects.toMatchObject({ timeout: 20 });
+    });
+
+    it('aborts requests', async () => {
+      tez = new Sotez('http://127.0.0.1:8732', 'main', {
+        transport: hangingTransport,
+      });
+      const controller = new AbortController();
+      const head = tez.getHead({ signal: controller.signal });
+      controller.abort();
+      await expect(head).rejects.toBeInstanceOf(RequestAbortedError);
+      await expect(
+        tez.getHead({ signal: controller.signal }),
+      ).rejects.toBeInstanceOf(RequestAbortedError);
+    });
+
+    it('keeps the providers healthy when a request is cancelled', async () => {
+      const urls: string[] = [];
+      const transport: Transport = {
+        request: ({ url, signal }) => {
+          urls.push(url);
+          return new Promise((resolve, reject) => {
+            signal?.addEventListener('abort', () =>
+              reject(new Error('The user aborted a request.')),
+            );
+          });
+        },
+      };
+      tez = new Sotez(['http://node1', 'http://node2'], 'main', {
+        transport,
+        timeout: 10,
+      });
+      const controller = new AbortController();
+      const head = tez.getHead({ signal: controller.signal });
+      controller.abort();
+      await expect(head).rejects.toBeInstanceOf(RequestAbortedError);
+      await expect(tez.getHeadHash()).rejects.toBeInstanceOf(
+        RequestTimeoutError,
+      );
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(tez.provider).toBe('http://node1');
+
+      tez = new Sotez(['http://node1', 'http://node2'], 'main', {
+        transport,
+        timeout: 10,
+        pool: { broadcastInjection: true },
+      });
+      await expect(tez.silentInject('00')).resolves.toMatchObject({
+        ambiguous: true,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await expect(tez.silentInject('00')).resolves.toMatchObject({
+        ambiguous: true,
+      });
+
+      expect(urls.map((url) => url.slice(0, 12))).toEqual([
+        'http://node1',
+        'http://node1',
+        'http://node1',
+        'http://node2',
+        'http://node1',
+        'http://node2',
+      ]);
+    });
+
+    it('aborts awaitOperation', async () => {
+      tez = new Sotez('http://127.0.0.1:8732', 'main', {
+        transport: hangingTransport,
+      });
+      const controller = new AbortController();
+      const operation = tez.awaitOperation('oo...', 10, 180, {
+        signal: controller.signal,
+      });
+      controller.abort();
+      await expect(operation).rejects.toBeInstanceOf(RequestAbortedError);
+    });
+  });
+
+  describe('block reference', () => {
+    it('resolves block references', () => {
+      expect(resolveBlock()).toBe('head');
+      expect(resolveBlock(1400000)).toBe('1400000');
+      expect(resolveBlock('head~10')).toBe('head~10');
+      expect(resolveBlock('finalized')).toBe('head~2');
+      expect(
+        resolveBlock('BLwKJbvsZskBQ6AxWDNbjxdGZqM1KQsxf5KcJ6sXcQqsy73r6B1'),
+      ).toBe('BLwKJbvsZskBQ6AxWDNbjxdGZqM1KQsxf5KcJ6sXcQqsy73r6B1');
+      expect(() => resolveBlock(-1)).toThrow('Invalid block level: -1');
+    });
+
+    it('queries getters at the given block', async () => {
+      const urls: string[] = [];
+      tez = new Sotez('http://127.0.0.1:8732', 'main', {
+        transport: {
+          request: async ({ url }) => {
+            urls.push(url);
+            return { ok: true, status: 200, body: '1000' };
+          },
+        },
+      });
+      await tez.getBalance('tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs');
+      await tez.getBalance('tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs', {
+        block: 1400000,
+      });
+      await tez.getCounter('tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs', {
+        block: 'finalized',
+      });
+      await tez.getHeader({ block: 'head~10' });
+      expect(urls).toEqual([
+        'http://127.0.0.1:8732/chains/main/blocks/head/context/contracts/tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs/balance',
+        'http://127.0.0.1:8732/chains/main/blocks/1400000/context/contracts/tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs/balance',
+        'http://127.0.0.1:8732/chains/main/blocks/head~2/context/contracts/tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs/counter',
+        'http://127.0.0.1:8732/chains/main/blocks/head~10/header',
+      ]);
+    });
+  });
 });
@@ -0,0 +1,148 @@
+import {
+  Sotez,
+  CounterManager,
+  CounterStore,
+  MemoryCounterStore,
+  CounterInTheFutureError,
+  MockNode,
+} from '../src';
+import { connect, destination, fundedNode } from './helpers';
+
+describe('counters', () => {
+  let tez = new Sotez();
+  let node = new MockNode();
+  let source = '';
+
+  beforeEach(async () => {
+    ({ node, source } = await fundedNode());
+  });
+
+  it('serializes the functions locking a source', async () => {
+    const manager = new CounterManager();
+    const events: string[] = [];
+    const task = (name: string, delay: number) => async () => {
+      events.push(`start ${name}`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      events.push(`end ${name}`);
+      return name;
+    };
+
+    const results = await Promise.all([
+      manager.lock('tz1a', task('a1', 20)),
+      manager.lock('tz1a', task('a2', 0)),
+      manager.lock('tz1b', task('b1', 0)),
+    ]);
+
+    expect(results).toEqual(['a1', 'a2', 'b1']);
+    expect(events).toEqual([
+      'start a1',
+      'start b1',
+      'end b1',
+      'end a1',
+      'start a2',
+      'end a2',
+    ]);
+
+    await expect(
+      manager.lock('tz1a', async () => {
+        throw new Error('failed');
+      }),
+    ).rejects.toThrow('failed');
+    await expect(manager.lock('tz1a', async () => 'next')).resolves.toBe(
+      'next',
+    );
+  });
+
+  it('reserves counters from the head or the last counter used', async () => {
+    const store = new MemoryCounterStore();
+    const manager = new CounterManager(store);
+
+    expect(await manager.reserve('tz1a', 5, 2)).toBe(5);
+    expect(await manager.reserve('tz1a', 5, 1)).toBe(7);
+    expect(await manager.reserve('tz1a', 10, 1)).toBe(10);
+    expect(store.counters).toEqual({ tz1a: 11 });
+
+    await manager.reset('tz1a', 3);
+    expect(await manager.current('tz1a', 8)).toBe(8);
+  });
+
+  it('sends concurrent operations of a source with distinct counters', async () => {
+    tez = await connect(node);
+
+    const results = await Promise.all(
+      [1, 2, 3].map((amount) => tez.transfer({ to: destination, amount })),
+    );
+
+    expect(results.every(({ hash }) => hash)).toBe(true);
+    expect(await tez.getBalance(destination)).toBe('6');
+    expect(await tez.getCounter(source)).toBe('4');
+    expect(tez.counters[source]).toBe(4);
+  });
+
+  it('resyncs the counter and sends the operation again', async () => {
+    const logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    tez = await connect(node, { logger });
+    await tez.transfer({ to: destination, amount: 1000 });
+
+    tez.counters[source] = 10;
+    const { hash } = await tez.transfer({ to: destination, amount: 1000 });
+
+    expect(hash).toMatch(/^o/);
+    expect(await tez.getCounter(source)).toBe('3');
+    expect(tez.counters[source]).toBe(3);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Counter Resynced',
+      expect.objectContaining({ source, counter: 2 }),
+    );
+  });
+
+  it('only sends the operation again once', async () => {
+    const set = jest.fn();
+    tez = await connect(node, { counterStore: { get: () => 100, set } });
+
+    await expect(
+      tez.transfer({ to: destination, amount: 1000 }),
+    ).rejects.toBeInstanceOf(CounterInTheFutureError);
+    expect(set.mock.calls).toEqual([
+      [source, 102],
+      [source, 100],
+      [source, 0],
+      [source, 102],
+      [source, 100],
+    ]);
+  });
+
+  it('shares the counters of processes through a store', async () => {
+    const counters = new MemoryCounterStore();
+    let queue = Promise.resolve();
+    const store: CounterStore = {
+      get: counters.get,
+      set: counters.set,
+      lock: async () => {
+        let release = () => {};
+        const previous = queue;
+        queue = new Promise((resolve) => {
+          release = resolve;
+        });
+        await previous;
+        return release;
+      },
+    };
+    const first = await connect(node, { counterStore: store });
+    const second = await connect(node, { counterStore: store });
+
+    await Promise.all([
+      first.transfer({ to: destination, amount: 1 }),
+      second.transfer({ to: destination, amount: 2 }),
+      first.transfer({ to: destination, amount: 3 }),
+    ]);
+
+    expect(await first.getBalance(destination)).toBe('6');
+    expect(counters.counters[source]).toBe(4);
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  Sotez,
+  MockNode,
+  Key,
+  signEnvelope,
+  InvalidEnvelopeError,
+  EnvelopeExpiredError,
+  InvalidSignatureError,
+} from '../src';
+import { destination, fundedNode, otherSk, sk } from './helpers';
+
+describe('offline signing', () => {
+  let node = new MockNode();
+  let key = new Key({ key: sk });
+  let online = new Sotez();
+
+  beforeEach(async () => {
+    ({ node, key } = await fundedNode());
+    online = new Sotez('http://mock', 'main', { transport: node });
+    // The online machine only knows the public key
+    await online.importKey(key.publicKey());
+  });
+
+  const exportUnsigned = async () =>
+    JSON.parse(
+      JSON.stringify(
+        await online.exportUnsigned({
+          operation: {
+            kind: 'transaction',
+            amount: 1000000,
+            destination,
+          },
+        }),
+      ),
+    );
+
+  it('exports, signs and injects an envelope', async () => {
+    const envelope = await exportUnsigned();
+    expect(envelope).toMatchObject({
+      version: 1,
+      chainId: node.chainId,
+      protocol: node.protocol,
+      branch: node.head.hash,
+      branchLevel: 1,
+      expiresAt: 61,
+      source: key.publicKeyHash(),
+    });
+    expect(envelope.opOb.contents.map(({ kind }: any) => kind)).toEqual([
+      'reveal',
+      'transaction',
+    ]);
+
+    const signed = await signEnvelope(envelope, key);
+    expect(signed.signature).toMatch(/^edsig/);
+
+    const { hash } = await online.injectSigned(
+      JSON.parse(JSON.stringify(signed)),
+    );
+    expect(hash).toMatch(/^o/);
+    expect(await online.getBalance(destination)).toBe('1000000');
+  });
+
+  it('refuses to sign bytes which are not the operation', async () => {
+    const envelope = await exportUnsigned();
+    envelope.opOb.contents[1].amount = '9000000';
+
+    await expect(signEnvelope(envelope, key)).rejects.toBeInstanceOf(
+      InvalidEnvelopeError,
+    );
+    await expect(
+      signEnvelope({ ...envelope, version: 2 }, key),
+    ).rejects.toThrow('Unsupported envelope version: 2');
+  });
+
+  it('rejects expired envelopes and envelopes for other chains', async () => {
+    const signed = await signEnvelope(await exportUnsigned(), key);
+    node.bake();
+
+    await expect(
+      online.injectSigned({ ...signed, expiresAt: 1 }),
+    ).rejects.toMatchObject({ expiresAt: 1, level: 2 });
+    await expect(
+      online.injectSigned({ ...signed, expiresAt: 1 }),
+    ).rejects.toBeInstanceOf(EnvelopeExpiredError);
+    await expect(
+      online.injectSigned({ ...signed, chainId: 'NetXxkAx4woPLyu' }),
+    ).rejects.toBeInstanceOf(InvalidEnvelopeError);
+  });
+
+  it('rejects signed envelopes whose operation was changed', async () => {
+    const signed = await signEnvelope(await exportUnsigned(), key);
+    signed.opOb.contents[1].destination = key.publicKeyHash();
+
+    await expect(online.injectSigned(signed)).rejects.toBeInstanceOf(
+      InvalidEnvelopeError,
+    );
+    expect(node.mempool).toHaveLength(0);
+  });
+
+  it('rejects signatures from another key', async () => {
+    const other = new Key({ key: otherSk });
+    await other.ready;
+    const signed = await signEnvelope(await exportUnsigned(), other);
+
+    await expect(online.injectSigned(signed)).rejects.toBeInstanceOf(
+      InvalidSignatureError,
+    );
+    expect(node.mempool).toHaveLength(0);
+  });
+});
@@ -0,0 +1,115 @@
+import {
+  parseRpcError,
+  RpcError,
+  TezosRpcError,
+  BalanceTooLowError,
+  CounterInThePastError,
+  ScriptRejectedError,
+  GasExhaustedError,
+  UnrevealedKeyError,
+  SotezError,
+} from '../src';
+
+describe('errors', () => {
+  it('parses non protocol errors', () => {
+    const error = parseRpcError('Not found', 404);
+    expect(error).toBeInstanceOf(RpcError);
+    expect(error).toBeInstanceOf(SotezError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toMatchObject({ body: 'Not found', status: 404 });
+  });
+
+  it('parses counter in the past', () => {
+    const error = parseRpcError(
+      [
+        {
+          kind: 'temporary',
+          id: 'proto.009-PsFLoren.contract.counter_in_the_past',
+          contract: 'tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs',
+          expected: '12',
+          found: '11',
+        },
+      ],
+      500,
+    );
+    expect(error).toBeInstanceOf(CounterInThePastError);
+    expect(error).toBeInstanceOf(TezosRpcError);
+    expect(error).toMatchObject({
+      kind: 'temporary',
+      shortId: 'contract.counter_in_the_past',
+      contract: 'tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs',
+      expected: '12',
+      found: '11',
+      status: 500,
+    });
+  });
+
+  it('parses balance too low', () => {
+    const error = parseRpcError([
+      {
+        kind: 'temporary',
+        id: 'proto.009-PsFLoren.contract.balance_too_low',
+        contract: 'tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs',
+        balance: '100',
+        amount: '1000',
+      },
+    ]);
+    expect(error).toBeInstanceOf(BalanceTooLowError);
+    expect(error).toMatchObject({ balance: '100', amount: '1000' });
+  });
+
+  it('parses script rejections', () => {
+    const errors = [
+      {
+        kind: 'temporary',
+        id: 'proto.009-PsFLoren.michelson_v1.runtime_error',
+        contract_handle: 'KT1MKm4ynxPSzRjw26jPSJbaMFTqTc4dVPdK',
+        contract_code: [],
+      },
+      {
+        kind: 'temporary',
+        id: 'proto.009-PsFLoren.michelson_v1.script_rejected',
+        location: 62,
+        with: { string: 'NotEnoughBalance' },
+      },
+    ];
+    const error = parseRpcError(errors);
+    expect(error).toBeInstanceOf(ScriptRejectedError);
+    expect(error).toMatchObject({
+      contract: 'KT1MKm4ynxPSzRjw26jPSJbaMFTqTc4dVPdK',
+      location: 62,
+      value: 'NotEnoughBalance',
+      errors,
+    });
+  });
+
+  it('parses gas exhaustion and unrevealed keys', () => {
+    expect(
+      parseRpcError([
+        {
+          kind: 'temporary',
+          id: 'proto.009-PsFLoren.gas_exhausted.operation',
+        },
+      ]),
+    ).toBeInstanceOf(GasExhaustedError);
+    expect(
+      parseRpcError([
+        {
+          kind: 'branch',
+          id: 'proto.009-PsFLoren.contract.unrevealed_key',
+          contract: 'tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs',
+        },
+      ]),
+    ).toBeInstanceOf(UnrevealedKeyError);
+  });
+
+  it('falls back to a generic protocol error', () => {
+    const error = parseRpcError([
+      { kind: 'permanent', id: 'proto.009-PsFLoren.some.unknown_error' },
+    ]);
+    expect(error.constructor).toBe(TezosRpcError);
+    expect(error.message).toBe(
+      'Tezos RPC error: proto.009-PsFLoren.some.unknown_error',
+    );
+  });
+});
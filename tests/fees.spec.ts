@@ -0,0 +1,260 @@
+import {
+  Sotez,
+  MockNode,
+  protocols,
+  op as forgeOperation,
+  minimalFee,
+  operationFee,
+  parseFeeParameters,
+  estimateFee,
+  FeeCapExceededError,
+  SotezError,
+} from '../src';
+import { connect, destination, fundedNode } from './helpers';
+
+describe('fees', () => {
+  let tez = new Sotez();
+  let node = new MockNode();
+
+  beforeEach(async () => {
+    ({ node } = await fundedNode());
+  });
+
+  it('reads the fee parameters of the mempool filter', async () => {
+    expect(
+      parseFeeParameters({
+        minimal_fees: '200',
+        minimal_nanotez_per_gas_unit: ['100', '1'],
+        minimal_nanotez_per_byte: ['2000', '2'],
+      }),
+    ).toEqual({
+      minimalFees: 200,
+      nanotezPerByte: 1000,
+      nanotezPerGasUnit: 100,
+    });
+    expect(parseFeeParameters()).toEqual({
+      minimalFees: 100,
+      nanotezPerByte: 1000,
+      nanotezPerGasUnit: 100,
+    });
+
+    tez = await connect(node);
+    await expect(tez.getFeeParameters()).resolves.toEqual(parseFeeParameters());
+
+    tez = new Sotez('http://127.0.0.1:8732', 'main', {
+      transport: {
+        request: async () => ({ ok: false, status: 403, body: 'Forbidden' }),
+      },
+    });
+    await expect(tez.getFeeParameters()).resolves.toEqual(parseFeeParameters());
+  });
+
+  it('computes the minimal fee from the size and the gas', () => {
+    expect(minimalFee(160, 1427)).toBe(403);
+    expect(
+      minimalFee(160, '1427', {
+        minimalFees: 0,
+        nanotezPerByte: 500,
+        nanotezPerGasUnit: 0,
+      }),
+    ).toBe(80);
+
+    const transaction = {
+      kind: 'transaction',
+      source: destination,
+      counter: '1',
+      gas_limit: '1427',
+      storage_limit: '0',
+      amount: '1000000',
+      destination,
+    };
+    const fee = operationFee(transaction, protocols['009'], { margin: 50 });
+    const size =
+      forgeOperation({ ...transaction, fee } as any, protocols['009']).length /
+        2 +
+      96;
+    expect(fee).toBe(`${minimalFee(size, 1427) + 50}`);
+    expect(
+      Number(operationFee(transaction, protocols['009'], { first: false })),
+    ).toBe(minimalFee(size - 96, 1427) - 100);
+  });
+
+  it('computes the fees of operations given without a fee', async () => {
+    tez = await connect(node);
+    const transaction = {
+      kind: 'transaction',
+      amount: 1000,
+      destination,
+      gas_limit: 1427,
+    };
+    const prepare = async (operation: any[]) => {
+      const { opbytes, opOb } = await tez.prepareOperation({
+        operation,
+        skipCounter: true,
+      });
+      const contents = opOb.contents as any[];
+      const sum = (field: string) =>
+        contents.reduce((total, content) => total + Number(content[field]), 0);
+      return {
+        contents,
+        fees: sum('fee'),
+        minimal: minimalFee(opbytes.length / 2 + 64, sum('gas_limit')),
+      };
+    };
+
+    const batch = await prepare([transaction, transaction]);
+    expect(batch.contents.map(({ kind }) => kind)).toEqual([
+      'reveal',
+      'transaction',
+      'transaction',
+    ]);
+    expect(batch.fees).toBeGreaterThanOrEqual(
+      batch.minimal + 3 * tez.feeMargin,
+    );
+    // Each fee is rounded up
+    expect(batch.fees).toBeLessThanOrEqual(
+      batch.minimal + 3 * tez.feeMargin + 3,
+    );
+
+    const explicit = await prepare([{ ...transaction, fee: 5000 }]);
+    expect(explicit.contents[1].fee).toBe('5000');
+    expect(Number(explicit.contents[0].fee)).toBeLessThan(5000);
+  });
+
+  it('uses a flat fee when a default fee is set', async () => {
+    tez = await connect(node, { defaultFee: 2000 });
+    const { opOb } = await tez.prepareOperation({
+      operation: { kind: 'transaction', amount: 1000, destination },
+    });
+
+    expect((opOb.contents as any[]).map(({ fee }) => fee)).toEqual([
+      '2000',
+      '2000',
+    ]);
+  });
+
+  it('chooses the fees with a fee strategy', async () => {
+    const transaction = {
+      kind: 'transaction',
+      source: destination,
+      counter: '1',
+      gas_limit: '1427',
+      storage_limit: '0',
+      amount: '1000000',
+      destination,
+    };
+    const minimal = estimateFee(transaction, protocols['009']);
+    expect(minimal.fee).toBe(minimal.minimalFee);
+
+    const priority = estimateFee(transaction, protocols['009'], {
+      strategy: { type: 'priority', multiplier: 2 },
+    });
+    expect(Number(priority.fee)).toBe(Number(priority.minimalFee) * 2);
+
+    const callback = jest.fn(() => 10000);
+    const custom = estimateFee(transaction, protocols['009'], {
+      strategy: callback,
+    });
+    expect(custom.fee).toBe('10000');
+    expect(callback).toHaveBeenCalledWith({
+      kind: 'transaction',
+      size: custom.size,
+      gasLimit: 1427,
+      storageLimit: 0,
+      minimalFee: Number(custom.minimalFee),
+    });
+
+    [NaN, Infinity, -1].forEach((fee) => {
+      expect(() =>
+        estimateFee(transaction, protocols['009'], { strategy: () => fee }),
+      ).toThrow(SotezError);
+    });
+  });
+
+  it('returns the fees of an operation', async () => {
+    tez = await connect(node, {
+      feeStrategy: { type: 'priority', multiplier: 1.5 },
+    });
+    const result = await tez.transfer({ to: destination, amount: 1000 });
+
+    expect(result.fees.strategy).toBe('priority');
+    expect(result.fees.operations.map(({ kind }: any) => kind)).toEqual([
+      'reveal',
+      'transaction',
+    ]);
+    result.fees.operations.forEach(({ fee, minimalFee: minimal }: any) => {
+      expect(Number(fee)).toBe(Math.ceil(Number(minimal) * 1.5));
+    });
+    expect(Number(result.fees.total)).toBe(
+      result.fees.operations.reduce(
+        (total: number, { fee }: any) => total + Number(fee),
+        0,
+      ),
+    );
+
+    const custom = await tez.transfer({
+      to: destination,
+      amount: 1000,
+      fee: 3000,
+      feeStrategy: () => 2000,
+    });
+    expect(custom.fees).toEqual({
+      strategy: 'custom',
+      total: '3000',
+      operations: [expect.objectContaining({ fee: '3000', computed: false })],
+    });
+  });
+
+  it('charges the base fee to the first computed fee of a batch', async () => {
+    tez = await connect(node);
+    await tez.transfer({ to: destination, amount: 1000 });
+
+    const transaction = { kind: 'transaction', destination, amount: '1000' };
+    const { fees } = await tez.prepareOperation({
+      operation: [{ ...transaction, fee: '5000' }, transaction],
+    });
+
+    const [given, computed] = fees.operations;
+    expect(given).toMatchObject({ fee: '5000', computed: false });
+    expect(computed.computed).toBe(true);
+    expect(Number(computed.minimalFee)).toBeGreaterThan(
+      Number(given.minimalFee) + 100,
+    );
+  });
+
+  it('rejects an operation exceeding a fee cap before signing', async () => {
+    tez = await connect(node);
+    const sign = jest.spyOn(tez.key, 'sign');
+
+    await expect(
+      tez.transfer({
+        to: destination,
+        amount: 1000,
+        feeStrategy: { type: 'capped', max: 500 },
+      }),
+    ).rejects.toThrow(FeeCapExceededError);
+    expect(sign).not.toHaveBeenCalled();
+
+    const result = await tez.transfer({
+      to: destination,
+      amount: 1000,
+      feeStrategy: { type: 'capped', max: 5000 },
+    });
+    expect(result.fees.strategy).toBe('capped');
+    expect(Number(result.fees.total)).toBeLessThanOrEqual(5000);
+  });
+
+  it('rejects an operation when the fee strategy fails', async () => {
+    tez = await connect(node);
+
+    await expect(
+      tez.transfer({
+        to: destination,
+        amount: 1000,
+        feeStrategy: () => {
+          throw new Error('Fee oracle unavailable');
+        },
+      }),
+    ).rejects.toThrow('Fee oracle unavailable');
+  });
+});
@@ -0,0 +1,431 @@
+import {
+  MockNode,
+  forge,
+  unforge,
+  publicKey as forgePublicKey,
+  signedZarith,
+  protocols,
+} from '../src';
+import { connect } from './helpers';
+
+describe('forge', () => {
+  describe('unforge', () => {
+    const branch = 'BLzyjjHKEKMULtvkpSHxuZxx6ei6fpntH2BTkYZiLgs8zLVstvX';
+    const source = 'tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs';
+    const manager = {
+      source,
+      fee: '1420',
+      counter: '31204',
+      gas_limit: '10600',
+      storage_limit: '300',
+    };
+    const contents: any[] = [
+      {
+        kind: 'reveal',
+        ...manager,
+        public_key: 'edpkthKSgqEffKMjuAqPfuAEJinqwC16RQMjyyqttLkFDQaShXBLak',
+      },
+      {
+        kind: 'transaction',
+        ...manager,
+        amount: '1000000',
+        destination: 'KT19DviPEGswtEDqDpDWxoBbMqCSUj73RBdk',
+        parameters: {
+          entrypoint: 'transfer',
+          value: {
+            prim: 'Pair',
+            args: [{ string: source }, { int: '10' }],
+          },
+        },
+      },
+      {
+        kind: 'transaction',
+        ...manager,
+        amount: '1',
+        destination: 'tz3LyCmHErZK7g6ujM2rb2vCtD1M2tpnEgw7',
+        parameters: { entrypoint: 'do', value: [] },
+      },
+      {
+        kind: 'origination',
+        ...manager,
+        balance: '0',
+        delegate: 'tz28xPoxLzRmj3ecK5xbb5Tq4r7qG4iLPy79',
+        script: {
+          code: [{ prim: 'parameter', args: [{ prim: 'unit' }] }],
+          storage: { bytes: '00FF' },
+        },
+      },
+      { kind: 'delegation', ...manager },
+      { kind: 'endorsement', level: 1400000 },
+      {
+        kind: 'ballot',
+        source,
+        period: 42,
+        proposal: 'PsFLorenaUUuikDWvMDr6fGBRG8kt3e3D3fHoXK1j1BFRxeSH4i',
+        ballot: 'nay',
+      },
+    ];
+
+    it('decodes forged operations', async () => {
+      const { opbytes } = await forge(
+        { branch, contents: JSON.parse(JSON.stringify(contents)) },
+        0,
+        protocols['009'],
+      );
+
+      expect(unforge(opbytes, protocols['009'])).toEqual({
+        branch,
+        contents,
+      });
+    });
+
+    it('decodes the legacy encodings', async () => {
+      const origination = {
+        kind: 'origination',
+        ...manager,
+        manager_pubkey: source,
+        balance: '10',
+        spendable: false,
+        delegatable: true,
+      };
+      const { opbytes } = await forge(
+        { branch, contents: [origination as any] },
+        0,
+        protocols['004'],
+      );
+
+      expect(unforge(opbytes, protocols['004']).contents).toEqual([
+        origination,
+      ]);
+    });
+
+    it('decodes a trailing signature', async () => {
+      const { opbytes } = await forge(
+        { branch, contents: [contents[4]] },
+        0,
+        protocols['009'],
+      );
+      const signed = `${opbytes}${'0'.repeat(126)}01`;
+
+      expect(unforge(signed, protocols['009'])).toEqual({
+        branch,
+        contents: [contents[4]],
+        signature: expect.stringMatching(/^sig/),
+      });
+      expect(() => unforge(`${opbytes}00`, protocols['009'])).toThrow(
+        'Unexpected end of bytes',
+      );
+    });
+  });
+
+  describe('evidence forging', () => {
+    const branch = 'BLzyjjHKEKMULtvkpSHxuZxx6ei6fpntH2BTkYZiLgs8zLVstvX';
+    const branchBytes =
+      'a99b946c97ada0f42c1bdeae0383db7893351232a832d00d0cd716eb6f66e561';
+    const sig1 =
+      'sigQDoDViNfDQ5Pwt4bSopViWWfHbh4uGM9C4689VzJS7narQbtnDeqesJhH7z9MqX6FJhgf22fF5GfJ61wtDs5bq1WiN9Vj';
+    const sig2 =
+      'sigSTJNiwaPuZXmU2FscxNy9scPjjwpbxpPD5rY1QRBbyb4gHXYU7jN9Wcbs9sE4GMzuiSSG5S2egeyJhUjW1uJEgw4AWAXj';
+    const roundTrip = async (content: any, protocol = protocols['009']) => {
+      const { opbytes } = await forge(
+        { branch, contents: [JSON.parse(JSON.stringify(content))] },
+        0,
+        protocol,
+      );
+      expect(unforge(opbytes, protocol)).toEqual({
+        branch,
+        contents: [content],
+      });
+      return opbytes;
+    };
+
+    it('forges proposals', async () => {
+      const opbytes = await roundTrip({
+        kind: 'proposals',
+        source: 'tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs',
+        period: 42,
+        proposals: [protocols['009'], protocols['008']],
+      });
+
+      expect(opbytes).toBe(
+        [
+          branchBytes,
+          '05',
+          '0044f7ea122cbf05efe17cd9e6e41226e4369af41f',
+          '0000002a',
+          '00000040',
+          '4596285c6871691e25196c6a8d26d90a3ac91375731e3926103c517a13a0ba56',
+          'c7ad4f7a000e28e9eefc58de8ea1172de843242bd2e688779953d3416a44640b',
+        ].join(''),
+      );
+    });
+
+    it('forges double endorsement evidence', async () => {
+      const evidence = {
+        kind: 'double_endorsement_evidence',
+        op1: {
+          branch,
+          operations: { kind: 'endorsement', level: 1400000 },
+          signature: sig1,
+        },
+        op2: {
+          branch,
+          operations: { kind: 'endorsement', level: 1400000 },
+          signature: sig2,
+        },
+        slot: 10,
+      };
+      const opbytes = await roundTrip(evidence);
+
+      expect(opbytes).toBe(
+        [
+          branchBytes,
+          '02',
+          '00000065',
+          branchBytes,
+          '00',
+          '00155cc0',
+          '11'.repeat(64),
+          '00000065',
+          branchBytes,
+          '00',
+          '00155cc0',
+          '22'.repeat(64),
+          '000a',
+        ].join(''),
+      );
+
+      // Evidence had no slot before endorsements had slots
+      const { slot, ...legacyEvidence } = evidence;
+      expect(await roundTrip(legacyEvidence, protocols['008'])).toBe(
+        opbytes.slice(0, -4),
+      );
+    });
+
+    it('forges endorsements with slot', async () => {
+      const opbytes = await roundTrip({
+        kind: 'endorsement_with_slot',
+        endorsement: {
+          branch,
+          operations: { kind: 'endorsement', level: 1400000 },
+          signature: sig1,
+        },
+        slot: 3,
+      });
+
+      expect(opbytes.slice(64, 66)).toBe('0a');
+      expect(opbytes.slice(-4)).toBe('0003');
+    });
+
+    it('forges double baking evidence', async () => {
+      const header = {
+        level: 1400000,
+        proto: 1,
+        predecessor: 'BLVP1K23ooyeBbpWaa1xMVuRpaXGHNV3g7eCdzjsAh4bzP28Jbr',
+        timestamp: '2021-05-01T12:00:00Z',
+        validation_pass: 4,
+        operations_hash:
+          'LLoZiFrAFbmXeJVpBeZmUNYCmZ16d7dfF3uXUsQxpQuHwVPAegxyC',
+        fitness: ['01', '0000000000155cc0'],
+        context: 'CnpHV7EbMaP37TBG8AdYtChHtRazt8TZVxnrqZ6C6QQm6pFFav3M',
+        priority: 0,
+        proof_of_work_nonce: '0102030405060708',
+        seed_nonce_hash:
+          'nceUsXkYFFtP4tG76pvmq4TsawJanBdZhvwqGzmnc12FkvT76BAsd',
+        signature: sig1,
+      };
+      const { seed_nonce_hash, ...header2 } = header;
+      const opbytes = await roundTrip({
+        kind: 'double_baking_evidence',
+        bh1: header,
+        bh2: { ...header2, signature: sig2 },
+      });
+      const headerBytes = (seedNonce: string, sig: string) =>
+        [
+          '00155cc0',
+          '01',
+          '66'.repeat(32),
+          '00000000608d42c0',
+          '04',
+          '33'.repeat(32),
+          '00000011',
+          '0000000101',
+          '000000080000000000155cc0',
+          '44'.repeat(32),
+          '0000',
+          '0102030405060708',
+          seedNonce,
+          sig.repeat(64),
+        ].join('');
+
+      expect(opbytes).toBe(
+        [
+          branchBytes,
+          '03',
+          '000000ee',
+          headerBytes(`ff${'55'.repeat(32)}`, '11'),
+          '000000ce',
+          headerBytes('00', '22'),
+        ].join(''),
+      );
+    });
+  });
+
+  describe('manager operations', () => {
+    const branch = 'BLzyjjHKEKMULtvkpSHxuZxx6ei6fpntH2BTkYZiLgs8zLVstvX';
+    const branchBytes =
+      'a99b946c97ada0f42c1bdeae0383db7893351232a832d00d0cd716eb6f66e561';
+    const source = 'tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs';
+    const sourceBytes = '0044f7ea122cbf05efe17cd9e6e41226e4369af41f';
+    const contract = 'KT19DviPEGswtEDqDpDWxoBbMqCSUj73RBdk';
+    const publicKey = 'edpkthKSgqEffKMjuAqPfuAEJinqwC16RQMjyyqttLkFDQaShXBLak';
+    const manager = {
+      source,
+      fee: '1420',
+      counter: '1',
+      gas_limit: '1000',
+      storage_limit: '0',
+    };
+    const managerBytes = `${sourceBytes}8c0b01e80700`;
+    const roundTrip = async (content: any) => {
+      const { opbytes } = await forge(
+        { branch, contents: [JSON.parse(JSON.stringify(content))] },
+        0,
+        protocols['015'],
+      );
+      expect(unforge(opbytes, protocols['015'])).toEqual({
+        branch,
+        contents: [content],
+      });
+      return opbytes;
+    };
+
+    it('forges signed zarith numbers', () => {
+      expect(signedZarith('63')).toBe('3f');
+      expect(signedZarith('-63')).toBe('7f');
+      expect(signedZarith('64')).toBe('8001');
+      expect(signedZarith('-100')).toBe('e401');
+      expect(() => signedZarith('abc')).toThrow(TypeError);
+    });
+
+    it('forges increase_paid_storage', async () => {
+      const opbytes = await roundTrip({
+        kind: 'increase_paid_storage',
+        ...manager,
+        amount: '-100',
+        destination: 'KT1PWx2mnDueood7fEmfbBDKx1D9BAnnXitn',
+      });
+
+      // The destination bytes of the helpers/forge/operations rpc, an originated contract_id
+      expect(opbytes).toBe(
+        [
+          branchBytes,
+          '71',
+          managerBytes,
+          'e401',
+          '01a3d0f58d8964bd1b37fb0a0c197b38cf46608d4900',
+        ].join(''),
+      );
+    });
+
+    it('rejects an implicit increase_paid_storage destination', async () => {
+      const content: any = {
+        kind: 'increase_paid_storage',
+        ...manager,
+        amount: '100',
+        destination: source,
+      };
+
+      await expect(
+        forge({ branch, contents: [content] }, 0, protocols['015']),
+      ).rejects.toThrow('Invalid increase_paid_storage destination');
+    });
+
+    it('forges update_consensus_key', async () => {
+      const opbytes = await roundTrip({
+        kind: 'update_consensus_key',
+        ...manager,
+        pk: publicKey,
+      });
+
+      expect(opbytes).toBe(
+        [branchBytes, '72', managerBytes, forgePublicKey(publicKey)].join(''),
+      );
+    });
+
+    it('forges the other manager operations', async () => {
+      await roundTrip({
+        kind: 'register_global_constant',
+        ...manager,
+        value: { prim: 'Pair', args: [{ int: '1' }, { string: 'a' }] },
+      });
+      await roundTrip({ kind: 'set_deposits_limit', ...manager });
+      await roundTrip({
+        kind: 'set_deposits_limit',
+        ...manager,
+        limit: '1000000',
+      });
+      await roundTrip({
+        kind: 'transfer_ticket',
+        ...manager,
+        ticket_contents: { string: 'ticket' },
+        ticket_ty: { prim: 'string' },
+        ticket_ticketer: contract,
+        ticket_amount: '5',
+        destination: contract,
+        entrypoint: 'receive',
+      });
+      const opbytes = await roundTrip({
+        kind: 'drain_delegate',
+        consensus_key: 'tz28xPoxLzRmj3ecK5xbb5Tq4r7qG4iLPy79',
+        delegate: source,
+        destination: 'tz3LyCmHErZK7g6ujM2rb2vCtD1M2tpnEgw7',
+      });
+
+      expect(opbytes.slice(64, 66)).toBe('09');
+    });
+
+    it('only forges the kinds supported by the protocol', async () => {
+      await expect(
+        forge(
+          {
+            branch,
+            contents: [
+              {
+                kind: 'update_consensus_key',
+                ...manager,
+                pk: publicKey,
+              } as any,
+            ],
+          },
+          0,
+          protocols['014'],
+        ),
+      ).rejects.toThrow('Unsupported operation kind: update_consensus_key');
+    });
+
+    it('prepares manager operations with a counter and a reveal', async () => {
+      const tez = await connect(new MockNode({ protocol: protocols['015'] }));
+
+      const { opOb } = await tez.prepareOperation({
+        operation: [
+          { kind: 'increase_paid_storage', amount: 100, destination: contract },
+          { kind: 'set_deposits_limit', limit: 1000 },
+          { kind: 'update_consensus_key', pk: publicKey },
+        ],
+      });
+
+      expect(opOb.contents).toMatchObject([
+        { kind: 'reveal', counter: '1' },
+        {
+          kind: 'increase_paid_storage',
+          source: tez.key.publicKeyHash(),
+          amount: '100',
+          counter: '2',
+        },
+        { kind: 'set_deposits_limit', limit: '1000', counter: '3' },
+        { kind: 'update_consensus_key', pk: publicKey, counter: '4' },
+      ]);
+    });
+  });
+});
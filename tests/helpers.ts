@@ -0,0 +1,44 @@
+import { Key, MockNode, MockNodeOptions, Sotez, Transport } from '../src';
+
+// The key signing the operations of the tests
+export const sk = 'edsk3Z2t7t1XimympW62RmUDQeBxn9dw3pQdxxhpAGngmkjiFuXUAj';
+
+export const otherSk =
+  'edskRv6ZnkLQMVustbYHFPNsABu1Js6pEEWyMUFJQTqEZjVCU2WHh8ckcc7YA4uBzPiJjZCsv3pC1NDdV99AnyLzPjSip4uC3y';
+
+// The recipient of the transfers of the tests
+export const destination = 'tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs';
+
+/**
+ * @description Creates a mock node on which the account of `sk` holds 10 tez
+ * @param {Object} [options] The options of the mock node
+ * @returns {Promise} The mock node, the key and its address
+ */
+export const fundedNode = async (
+  options: MockNodeOptions = {},
+): Promise<{ node: MockNode; key: Key; source: string }> => {
+  const key = new Key({ key: sk });
+  await key.ready;
+  const source = key.publicKeyHash();
+  const node = new MockNode({
+    ...options,
+    accounts: { [source]: { balance: 10000000 } },
+  });
+
+  return { node, key, source };
+};
+
+/**
+ * @description Creates a Sotez instance signing with `sk`
+ * @param {Object} transport The transport of the instance, usually a mock node
+ * @param {Object} [options] The other module options
+ * @returns {Promise} The instance
+ */
+export const connect = async (
+  transport: Transport,
+  options = {},
+): Promise<Sotez> => {
+  const tez = new Sotez('http://mock', 'main', { transport, ...options });
+  await tez.importKey(sk);
+  return tez;
+};
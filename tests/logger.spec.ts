@@ -0,0 +1,91 @@
+import { Sotez, ConsoleLogger, Logger, LogFields, redact } from '../src';
+
+describe('logger', () => {
+  let tez = new Sotez();
+  let logs: { level: string; message: string; fields?: LogFields }[];
+  const logger: Logger = {
+    debug: (message, fields) => logs.push({ level: 'debug', message, fields }),
+    info: (message, fields) => logs.push({ level: 'info', message, fields }),
+    warn: (message, fields) => logs.push({ level: 'warn', message, fields }),
+    error: (message, fields) => logs.push({ level: 'error', message, fields }),
+  };
+
+  beforeEach(() => {
+    logs = [];
+  });
+
+  it('redacts secret material and signed bytes', () => {
+    expect(
+      redact({
+        path: '/injection/operation',
+        sk: 'edsk3Z2t7t1XimympW62RmUDQeBxn9dw3pQdxxhpAGngmkjiFuXUAj',
+        nested: [
+          { sopbytes: 'abcd', hash: 'ooHash' },
+          'edsk3Z2t7t1XimympW62RmUDQeBxn9dw3pQdxxhpAGngmkjiFuXUAj',
+        ],
+        error: new Error('failed'),
+      }),
+    ).toEqual({
+      path: '/injection/operation',
+      sk: '[REDACTED]',
+      nested: [{ sopbytes: '[REDACTED]', hash: 'ooHash' }, '[REDACTED]'],
+      error: { name: 'Error', message: 'failed' },
+    });
+  });
+
+  it('logs queries with structured fields', async () => {
+    tez = new Sotez('http://127.0.0.1:8732', 'main', {
+      logger,
+      retry: { maxAttempts: 1 },
+      transport: {
+        request: async ({ url }) =>
+          url.endsWith('/injection/operation')
+            ? { ok: false, status: 500, body: 'Internal error' }
+            : { ok: true, status: 200, body: '1000' },
+      },
+    });
+
+    await tez.getBalance('tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs');
+    await expect(tez.silentInject('abcd')).rejects.toThrow();
+
+    const path =
+      '/chains/main/blocks/head/context/contracts/tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs/balance';
+    expect(logs.map(({ level, message }) => `${level} ${message}`)).toEqual([
+      'debug Query Request',
+      'debug Query Response',
+      'debug Query Request',
+      'debug Query Response',
+      'warn Query Failed',
+      'error Injection Failed',
+    ]);
+    expect(logs[0].fields).toEqual({ requestId: 1, method: 'GET', path });
+    expect(logs[1].fields).toMatchObject({
+      requestId: 1,
+      method: 'GET',
+      path,
+      status: 200,
+      latency: expect.any(Number),
+    });
+    expect(logs[4].fields).toMatchObject({
+      requestId: 2,
+      method: 'POST',
+      path: '/injection/operation',
+      status: 500,
+    });
+    expect(JSON.stringify(logs)).not.toContain('abcd');
+  });
+
+  it('logs to the console in debug mode', async () => {
+    tez = new Sotez('http://127.0.0.1:8732', 'main', {
+      transport: {
+        request: async () => ({ ok: true, status: 200, body: '1000' }),
+      },
+    });
+    expect(tez.logger).not.toBeInstanceOf(ConsoleLogger);
+    tez.debugMode = true;
+    expect(tez.logger).toBeInstanceOf(ConsoleLogger);
+    tez.logger = logger;
+    await tez.getBalance('tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs');
+    expect(logs).toHaveLength(2);
+  });
+});
@@ -0,0 +1,114 @@
+import { Sotez, CounterInThePastError, SotezError } from '../src';
+
+describe('mempool', () => {
+  let tez = new Sotez();
+
+  const transfer = (source: string, destination: string): any => ({
+    protocol: 'PsFLorenaUUuikDWvMDr6fGBRG8kt3e3D3fHoXK1j1BFRxeSH4i',
+    branch: 'BLwKJbvsZskBQ6AxWDNbjxdGZqM1KQsxf5KcJ6sXcQqsy73r6B1',
+    contents: [{ kind: 'transaction', source, destination, amount: '1' }],
+    signature: 'sig',
+  });
+  const counterError = {
+    kind: 'temporary',
+    id: 'proto.009-PsFLoren.contract.counter_in_the_past',
+    contract: 'tz1a',
+    expected: '10',
+    found: '9',
+  };
+
+  it('gets pending operations', async () => {
+    tez = new Sotez('http://127.0.0.1:8732', 'main', {
+      transport: {
+        request: async ({ url }) => {
+          expect(url).toBe(
+            'http://127.0.0.1:8732/chains/main/mempool/pending_operations',
+          );
+          return {
+            ok: true,
+            status: 200,
+            body: {
+              applied: [
+                { hash: 'ooApplied', ...transfer('tz1a', 'tz1b') },
+                { hash: 'ooOther', ...transfer('tz1c', 'tz1b') },
+              ],
+              refused: [
+                [
+                  'ooRefused',
+                  { ...transfer('tz1a', 'tz1c'), error: [counterError] },
+                ],
+              ],
+              branch_refused: [],
+              branch_delayed: [],
+              unprocessed: [],
+            },
+          };
+        },
+      },
+    });
+
+    const pending = await tez.getPendingOperations({ source: 'tz1a' });
+    expect(pending.applied.map(({ hash }) => hash)).toEqual(['ooApplied']);
+    expect(pending.outdated).toEqual([]);
+    expect(pending.refused[0]).toMatchObject({
+      hash: 'ooRefused',
+      classification: 'refused',
+    });
+    expect(pending.refused[0].reason).toBeInstanceOf(CounterInThePastError);
+
+    const byDestination = await tez.getPendingOperations({
+      destination: 'tz1b',
+      classifications: ['applied'],
+    });
+    expect(byDestination.applied).toHaveLength(2);
+    expect(byDestination.refused).toHaveLength(0);
+  });
+
+  it('monitors the mempool', async () => {
+    const urls: string[] = [];
+    tez = new Sotez('http://127.0.0.1:8732', 'main', {
+      transport: {
+        request: async () => ({ ok: true, status: 200, body: {} }),
+        stream: async ({ url }, onChunk) => {
+          urls.push(url);
+          if (url.includes('refused=true')) {
+            onChunk(
+              `${JSON.stringify([
+                { hash: 'ooRefused', ...transfer('tz1a', 'tz1c') },
+                { hash: 'ooOther', ...transfer('tz1c', 'tz1a') },
+              ])}\n`,
+            );
+          }
+          return new Promise(() => {});
+        },
+      },
+    });
+
+    const subscription = tez.monitorMempool({
+      source: 'tz1a',
+      classifications: ['applied', 'refused'],
+    });
+    const operation = await new Promise<any>((resolve) =>
+      subscription.on('data', resolve),
+    );
+    subscription.close();
+
+    expect(operation).toMatchObject({
+      hash: 'ooRefused',
+      classification: 'refused',
+    });
+    expect(urls).toEqual([
+      'http://127.0.0.1:8732/chains/main/mempool/monitor_operations?applied=true&refused=false&branch_refused=false&branch_delayed=false',
+      'http://127.0.0.1:8732/chains/main/mempool/monitor_operations?applied=false&refused=true&branch_refused=false&branch_delayed=false',
+    ]);
+  });
+
+  it('rejects classifications which cannot be monitored', () => {
+    expect(() =>
+      tez.monitorMempool({ classifications: ['unprocessed'] }),
+    ).toThrow(SotezError);
+    expect(() => tez.monitorMempool({ classifications: [] })).toThrow(
+      'Cannot monitor the classifications []',
+    );
+  });
+});
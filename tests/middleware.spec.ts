@@ -0,0 +1,70 @@
+import { Sotez, TransportRequest } from '../src';
+
+describe('middleware', () => {
+  let tez = new Sotez();
+
+  it('wraps every request', async () => {
+    const requests: TransportRequest[] = [];
+    const calls: string[] = [];
+    tez = new Sotez('http://127.0.0.1:8732', 'main', {
+      transport: {
+        request: async (request) => {
+          requests.push(request);
+          return { ok: true, status: 200, body: '1000' };
+        },
+      },
+      middleware: [
+        (request, next) => {
+          calls.push('first');
+          return next({
+            ...request,
+            headers: { ...request.headers, Authorization: 'Basic abc' },
+          });
+        },
+      ],
+    });
+
+    tez
+      .use((request, next) => {
+        calls.push('second');
+        return next({ ...request, path: `/gateway${request.path}` });
+      })
+      .use(async (request, next) => {
+        const response = await next(request);
+        return { ...response, body: `${response.body}0` };
+      });
+
+    const balance = await tez.getBalance(
+      'tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs',
+    );
+    expect(balance).toBe('10000');
+    expect(calls).toEqual(['first', 'second']);
+    expect(requests[0].url).toBe(
+      'http://127.0.0.1:8732/gateway/chains/main/blocks/head/context/contracts/tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs/balance',
+    );
+    expect(requests[0].headers).toEqual({ Authorization: 'Basic abc' });
+  });
+
+  it('transforms errors', async () => {
+    tez = new Sotez('http://127.0.0.1:8732', 'main', {
+      retry: { maxAttempts: 1 },
+      transport: {
+        request: async () => {
+          throw new Error('Network error');
+        },
+      },
+    });
+    tez.use((request, next) =>
+      next(request).catch(() => ({
+        ok: false,
+        status: 503,
+        body: 'Unavailable',
+      })),
+    );
+
+    await expect(tez.getHead()).rejects.toMatchObject({
+      status: 503,
+      body: 'Unavailable',
+    });
+  });
+});
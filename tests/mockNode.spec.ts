@@ -0,0 +1,165 @@
+import { Sotez, MockNode } from '../src';
+import { connect, destination, fundedNode } from './helpers';
+
+describe('mock node', () => {
+  let tez = new Sotez();
+  let node = new MockNode();
+  let source = '';
+
+  beforeEach(async () => {
+    ({ node, source } = await fundedNode());
+    tez = await connect(node);
+  });
+
+  it('serves the chain state', async () => {
+    const head = await tez.getHeader();
+    expect(head.level).toBe(1);
+    expect(head.hash).toMatch(/^B/);
+    expect(await tez.getBalance(source)).toBe('10000000');
+    expect(await tez.getCounter(source)).toBe('0');
+    expect(await tez.getManager(source)).toBe(null);
+    await expect(
+      tez.query('/chains/main/blocks/head/unknown'),
+    ).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('applies injected operations to the ledger', async () => {
+    const { hash } = await tez.transfer({
+      to: destination,
+      amount: 1000000,
+      fee: 1500,
+    });
+
+    expect(hash).toMatch(/^o/);
+    expect(node.head.level).toBe(2);
+    expect(await tez.getBalance(destination)).toBe('1000000');
+    // The fees of the reveal, computed from its size and gas, and of the transaction
+    expect(await tez.getBalance(source)).toBe(
+      `${10000000 - 1000000 - 1500 - 1418}`,
+    );
+    expect(await tez.getCounter(source)).toBe('2');
+    expect(await tez.getManager(source)).toBe(tez.key.publicKey());
+
+    const { block, operation } = await tez.awaitOperation(hash, 1, 5);
+    expect(block).toBe(node.head.hash);
+    expect(
+      operation.contents.map(
+        ({ metadata }: any) => metadata.operation_result.status,
+      ),
+    ).toEqual(['applied', 'applied']);
+  });
+
+  it('keeps operations in the mempool until baked', async () => {
+    node.autoBake = false;
+    const { hash } = await tez.transfer({ to: destination, amount: 1000000 });
+
+    const { applied } = await tez.getPendingOperations();
+    expect(applied.map(({ hash: h }) => h)).toEqual([hash]);
+    expect(await tez.getBalance(destination)).toBe('0');
+
+    node.bake();
+    expect(await tez.getBalance(destination)).toBe('1000000');
+    expect(await tez.getPendingOperations()).toMatchObject({ applied: [] });
+  });
+
+  it('rejects operations reusing the counter of a pending operation', async () => {
+    node.autoBake = false;
+    await tez.transfer({ to: destination, amount: 1000000 });
+    // Forget the counters, so that the next operation reuses the counters of the head
+    tez.counters = {};
+
+    await expect(
+      tez.transfer({ to: destination, amount: 1000000 }),
+    ).rejects.toMatchObject({
+      id: 'proto.009-PsFLoren.contract.counter_in_the_past',
+    });
+    expect(node.mempool).toHaveLength(1);
+  });
+
+  it('rejects failing operations', async () => {
+    await tez.transfer({ to: destination, amount: 1000000 });
+    await expect(
+      tez.transfer({ to: destination, amount: 100000000 }),
+    ).rejects.toMatchObject({
+      id: 'proto.009-PsFLoren.contract.balance_too_low',
+    });
+
+    expect(node.head.level).toBe(2);
+  });
+
+  it('originates contracts', async () => {
+    const code = [
+      {
+        prim: 'parameter',
+        args: [
+          {
+            prim: 'or',
+            args: [
+              { prim: 'int', annots: ['%increment'] },
+              { prim: 'unit', annots: ['%reset'] },
+            ],
+          },
+        ],
+      },
+      { prim: 'storage', args: [{ prim: 'int' }] },
+      { prim: 'code', args: [[{ prim: 'FAILWITH' }]] },
+    ];
+    const { operations } = await tez.originate({
+      balance: 1000000,
+      code,
+      init: { int: '0' },
+    });
+    const [address] = operations[
+      operations.length - 1
+    ].metadata.operation_result.originated_contracts;
+
+    expect(address).toMatch(/^KT1/);
+    expect(await tez.getBalance(address)).toBe('1000000');
+    expect(
+      await tez.query(
+        `/chains/main/blocks/head/context/contracts/${address}/storage`,
+      ),
+    ).toEqual({ int: '0' });
+    const { entrypoints } = await tez.query(
+      `/chains/main/blocks/head/context/contracts/${address}/entrypoints`,
+    );
+    expect(entrypoints).toEqual({
+      increment: { prim: 'int' },
+      reset: { prim: 'unit' },
+    });
+  });
+
+  it('injects operations without prevalidation', async () => {
+    const { hash } = await tez.sendOperation({
+      operation: {
+        kind: 'transaction',
+        destination,
+        amount: '1000000',
+      },
+      skipPrevalidation: true,
+    });
+
+    expect(node.head.operations[3][0].hash).toBe(hash);
+    expect(await tez.getBalance(destination)).toBe('1000000');
+    await expect(tez.silentInject('00ff')).rejects.toMatchObject({
+      status: 400,
+    });
+  });
+
+  it('streams the baked heads', async () => {
+    const subscription = tez.monitorHeads();
+    const levels: number[] = [];
+    const second = new Promise((resolve) =>
+      subscription.on('data', ({ level }) => {
+        levels.push(level);
+        if (level === 2) resolve(level);
+      }),
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    node.bake();
+    await second;
+    subscription.close();
+    expect(levels).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,101 @@
+import { Sotez, ndjsonParser } from '../src';
+
+describe('monitor', () => {
+  let tez = new Sotez();
+
+  const head = (level: number): string =>
+    JSON.stringify({ hash: `BL${level}`, level });
+
+  it('parses newline-delimited json', () => {
+    const values: any[] = [];
+    const parse = ndjsonParser((value) => values.push(value));
+    parse('{"level":1}\n{"lev');
+    parse('el":2}\n\n');
+    parse('{"level":3}');
+    expect(values).toEqual([{ level: 1 }, { level: 2 }]);
+    parse('\n');
+    expect(values).toEqual([{ level: 1 }, { level: 2 }, { level: 3 }]);
+  });
+
+  it('streams heads and reconnects', async () => {
+    const urls: string[] = [];
+    let connections = 0;
+    tez = new Sotez('http://127.0.0.1:8732', 'main', {
+      transport: {
+        request: async () => ({ ok: true, status: 200, body: {} }),
+        stream: async ({ url }, onChunk) => {
+          urls.push(url);
+          connections += 1;
+          onChunk(`${head(connections * 2 - 1)}\n${head(connections * 2)}`);
+          onChunk('\n');
+          return { ok: true, status: 200, body: undefined };
+        },
+      },
+    });
+
+    const levels: number[] = [];
+    const errors: Error[] = [];
+    const subscription = tez.monitorHeads({ reconnectDelay: 1 });
+    subscription.on('error', (e) => errors.push(e));
+    await new Promise<void>((resolve) => {
+      subscription.on('data', ({ level }) => {
+        levels.push(level);
+        if (level === 4) {
+          subscription.close();
+          resolve();
+        }
+      });
+    });
+
+    expect(levels).toEqual([1, 2, 3, 4]);
+    expect(errors).toHaveLength(0);
+    expect(subscription.closed).toBe(true);
+    expect(urls[0]).toBe('http://127.0.0.1:8732/monitor/heads/main');
+  });
+
+  it('awaits operations from the streamed heads', async () => {
+    tez = new Sotez('http://127.0.0.1:8732', 'main', {
+      transport: {
+        request: async ({ url }) => {
+          const [, block, resource] = url.match(/blocks\/(\w+)\/(\w+)/) || [];
+          if (resource === 'hash') {
+            return { ok: true, status: 200, body: `BL${block}` };
+          }
+          if (resource === 'operations') {
+            return { ok: true, status: 200, body: { hash: 'ooOperation' } };
+          }
+          return {
+            ok: true,
+            status: 200,
+            body:
+              block === 'BL2'
+                ? [[], [], [], ['ooOperation']]
+                : [[], [], [], []],
+          };
+        },
+        stream: async (request, onChunk) => {
+          onChunk(`${head(1)}\n${head(2)}\n`);
+          return new Promise(() => {});
+        },
+      },
+    });
+
+    await expect(
+      tez.awaitOperation('ooOperation', 10, 180, { monitor: true }),
+    ).resolves.toMatchObject({ block: 'BL2', level: 2 });
+  });
+
+  it('requires a streaming transport', async () => {
+    tez = new Sotez('http://127.0.0.1:8732', 'main', {
+      transport: {
+        request: async () => ({ ok: true, status: 200, body: {} }),
+      },
+    });
+    const subscription = tez.monitorHeads();
+    const error = await new Promise<Error>((resolve) =>
+      subscription.on('error', resolve),
+    );
+    subscription.close();
+    expect(error.message).toBe('The transport does not support streaming');
+  });
+});
@@ -0,0 +1,123 @@
+import { Sotez, TransportRequest, MockNode, operationHash } from '../src';
+import { connect, destination, fundedNode } from './helpers';
+
+describe('operation hash', () => {
+  let tez = new Sotez();
+  let node = new MockNode();
+
+  // Connects through a transport handling the injections with the given function
+  const connectInjection = async (
+    injection: (request: TransportRequest) => Promise<any>,
+  ) => {
+    ({ node } = await fundedNode());
+    tez = await connect(
+      {
+        request: (request) =>
+          request.url.endsWith('/injection/operation')
+            ? injection(request)
+            : node.request(request),
+      },
+      { timeout: 50 },
+    );
+  };
+
+  it('computes the hash of signed operation bytes', async () => {
+    await connectInjection((request) => node.request(request));
+    const { hash, ambiguous } = await tez.transfer({
+      to: destination,
+      amount: 1000000,
+    });
+    const [[operation]] = node.head.operations.slice(-1);
+
+    expect(ambiguous).toBeUndefined();
+    expect(hash).toBe(operation.hash);
+    expect(operationHash('00')).toMatch(/^o[1-9A-HJ-NP-Za-km-z]{50}$/);
+  });
+
+  it('returns the hash when the injection fails on the network', async () => {
+    await connectInjection(async (request) => {
+      await node.request(request);
+      throw new Error('socket hang up');
+    });
+    const { hash, ambiguous } = await tez.transfer({
+      to: destination,
+      amount: 1000000,
+    });
+
+    expect(ambiguous).toBe(true);
+    expect(hash).toBe(node.head.operations[3][0].hash);
+    expect(await tez.getBalance(destination)).toBe('1000000');
+  });
+
+  it('returns the hash when the injection times out', async () => {
+    await connectInjection(() => new Promise(() => {}));
+    const { hash, ambiguous } = await tez.transfer({
+      to: destination,
+      amount: 1000000,
+    });
+
+    expect(ambiguous).toBe(true);
+    expect(hash).toMatch(/^o/);
+  });
+
+  it('returns the hash when the injection is aborted', async () => {
+    await connectInjection(() => new Promise(() => {}));
+    const controller = new AbortController();
+    const sopbytes = `${'00'.repeat(32)}6c00`;
+    const injection = tez.silentInject(sopbytes, {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(injection).resolves.toEqual({
+      hash: operationHash(sopbytes),
+      ambiguous: true,
+    });
+  });
+
+  it('returns the hash when a gateway fails during the injection', async () => {
+    const statuses = [502, 503, 504];
+    await connectInjection(async (request) => {
+      await node.request(request);
+      return { ok: false, status: statuses.shift(), body: 'Bad gateway' };
+    });
+
+    for (let i = 0; i < 3; i++) {
+      // eslint-disable-next-line no-await-in-loop
+      const { ambiguous } = await tez.transfer({
+        to: destination,
+        amount: 1000000,
+      });
+      expect(ambiguous).toBe(true);
+    }
+
+    expect(statuses).toHaveLength(0);
+    expect(await tez.getBalance(destination)).toBe('3000000');
+  });
+
+  it('rejects errors thrown before the injection is sent', async () => {
+    await connectInjection((request) => node.request(request));
+    tez.use((request, next) => {
+      if (request.path.startsWith('/injection/operation')) {
+        throw new TypeError('Invalid injection request');
+      }
+      return next(request);
+    });
+
+    await expect(
+      tez.transfer({ to: destination, amount: 1000000 }),
+    ).rejects.toThrow(TypeError);
+  });
+
+  it('rejects errors returned by the node', async () => {
+    await connectInjection(async () => ({
+      ok: false,
+      status: 400,
+      body: 'Invalid operation',
+    }));
+
+    await expect(
+      tez.transfer({ to: destination, amount: 1000000 }),
+    ).rejects.toMatchObject({ status: 400 });
+  });
+});
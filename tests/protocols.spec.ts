@@ -0,0 +1,88 @@
+import {
+  Sotez,
+  forge,
+  protocols,
+  getProtocol,
+  registerProtocol,
+  isKnownProtocol,
+} from '../src';
+
+describe('protocols', () => {
+  const tez = new Sotez();
+
+  const transaction: any = {
+    kind: 'transaction',
+    source: 'tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs',
+    fee: '1420',
+    counter: '1',
+    gas_limit: '10600',
+    storage_limit: '0',
+    amount: '1000000',
+    destination: 'tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs',
+  };
+  const branch = 'BLzyjjHKEKMULtvkpSHxuZxx6ei6fpntH2BTkYZiLgs8zLVstvX';
+
+  it('forges with the definition of the protocol', async () => {
+    const { opbytes: athens } = await forge(
+      { branch, contents: [transaction] },
+      0,
+      protocols['004'],
+    );
+    const { opbytes: florence } = await forge(
+      { branch, contents: [transaction] },
+      0,
+      protocols['009'],
+    );
+
+    expect(athens.slice(64, 66)).toBe('08');
+    expect(florence.slice(64, 66)).toBe('6c');
+  });
+
+  it('registers the Jakarta operation tags', () => {
+    const jakarta = getProtocol(protocols['013']);
+
+    expect(isKnownProtocol(protocols['013'])).toBe(true);
+    expect(jakarta.version).toBe('013');
+    expect(jakarta.opTags.transfer_ticket).toBe(158);
+    expect(jakarta.opTags.increase_paid_storage).toBeUndefined();
+  });
+
+  it('falls back to the latest definition for unknown protocols', async () => {
+    const { opbytes } = await forge(
+      { branch, contents: [transaction] },
+      0,
+      'PtUnknownProtocol',
+    );
+
+    expect(isKnownProtocol('PtUnknownProtocol')).toBe(false);
+    expect(getProtocol('PtUnknownProtocol').hash).toBe(protocols['015']);
+    expect(opbytes.slice(64, 66)).toBe('6c');
+    expect(tez.getManagerKey('edpk', 'PtUnknownProtocol')).toBe('edpk');
+    expect(tez.getManagerKey({ key: 'edpk' }, protocols['001'])).toBe('edpk');
+  });
+
+  it('registers protocols at runtime', async () => {
+    registerProtocol({
+      ...getProtocol(protocols['009']),
+      hash: 'PtCustomProtocol',
+      version: '999',
+      opTags: { ...getProtocol(protocols['009']).opTags, transaction: 200 },
+    });
+    const { opbytes } = await forge(
+      { branch, contents: [transaction] },
+      0,
+      'PtCustomProtocol',
+    );
+
+    expect(isKnownProtocol('PtCustomProtocol')).toBe(true);
+    expect(opbytes.slice(64, 66)).toBe('c8');
+    expect(getProtocol('PtAnotherUnknownProtocol').version).toBe('999');
+    await expect(
+      forge(
+        { branch, contents: [{ ...transaction, kind: 'unknown' }] },
+        0,
+        protocols['009'],
+      ),
+    ).rejects.toThrow('Unsupported operation kind: unknown');
+  });
+});
@@ -0,0 +1,80 @@
+import { Sotez, Transport } from '../src';
+
+describe('provider pool', () => {
+  let tez = new Sotez();
+
+  const poolTransport = (down: string[]) => {
+    const urls: string[] = [];
+    const transport: Transport = {
+      request: async ({ url }) => {
+        urls.push(url);
+        if (down.some((provider) => url.startsWith(provider))) {
+          throw new Error('ECONNREFUSED');
+        }
+        if (url.endsWith('/is_bootstrapped')) {
+          return {
+            ok: true,
+            status: 200,
+            body: {
+              bootstrapped: true,
+              sync_state: url.startsWith('http://node3') ? 'stuck' : 'synced',
+            },
+          };
+        }
+        return { ok: true, status: 200, body: url };
+      },
+    };
+    return { urls, transport };
+  };
+
+  it('fails over to the next provider', async () => {
+    const { urls, transport } = poolTransport(['http://node1']);
+    tez = new Sotez(['http://node1', 'http://node2'], 'main', { transport });
+    expect(tez.providers).toEqual(['http://node1', 'http://node2']);
+
+    await expect(tez.getHeadHash()).resolves.toBe(
+      'http://node2/chains/main/blocks/head/hash',
+    );
+    expect(urls).toHaveLength(2);
+    expect(tez.provider).toBe('http://node2');
+
+    await tez.getHeadHash();
+    expect(urls).toHaveLength(3);
+  });
+
+  it('routes requests round-robin', async () => {
+    const { urls, transport } = poolTransport([]);
+    tez = new Sotez(['http://node1', 'http://node2'], 'main', {
+      transport,
+      pool: { strategy: 'round-robin' },
+    });
+    await tez.getHeadHash();
+    await tez.getHeadHash();
+    await tez.getHeadHash();
+    expect(urls.map((url) => url.slice(0, 12))).toEqual([
+      'http://node1',
+      'http://node2',
+      'http://node1',
+    ]);
+  });
+
+  it('marks unsynced providers as unhealthy', async () => {
+    const { transport } = poolTransport([]);
+    tez = new Sotez(['http://node3', 'http://node2'], 'main', { transport });
+    const nodes = await tez.checkHealth();
+    expect(nodes.map(({ healthy }) => healthy)).toEqual([false, true]);
+    expect(tez.provider).toBe('http://node2');
+  });
+
+  it('broadcasts injections', async () => {
+    const { urls, transport } = poolTransport(['http://node1']);
+    tez = new Sotez(['http://node1', 'http://node2'], 'main', {
+      transport,
+      pool: { broadcastInjection: true },
+    });
+    await expect(tez.silentInject('00')).resolves.toEqual({
+      hash: 'http://node2/injection/operation',
+    });
+    expect(urls).toHaveLength(2);
+  });
+});
@@ -0,0 +1,198 @@
+import { appendFileSync, readFileSync, unlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  Sotez,
+  OperationQueue,
+  MemoryQueueStore,
+  QueueJob,
+  QueueStore,
+  JobState,
+  MockNode,
+} from '../src';
+import { JsonFileQueueStore } from '../src/node';
+import { connect, destination, fundedNode } from './helpers';
+
+describe('operation queue', () => {
+  let tez = new Sotez();
+  let node = new MockNode();
+
+  beforeEach(async () => {
+    ({ node } = await fundedNode());
+    tez = await connect(node);
+  });
+
+  const transfer = (amount: number) => ({
+    kind: 'transaction',
+    destination,
+    amount,
+  });
+
+  // A store which stops persisting, as if the process stopped, when a job reaches a state
+  const crashingStore = (
+    store: QueueStore,
+    state: JobState,
+    persist: boolean,
+  ): QueueStore => {
+    let crashed = false;
+    return {
+      load: store.load,
+      save: (job: QueueJob) => {
+        if (!crashed && job.state === state) {
+          crashed = true;
+          if (persist) {
+            store.save(job);
+          }
+        }
+        if (crashed) {
+          throw new Error('The process stopped');
+        }
+        store.save(job);
+      },
+    };
+  };
+
+  it('sends the jobs in order and waits for their inclusion', async () => {
+    const store = new MemoryQueueStore();
+    const queue = new OperationQueue(tez, { store, interval: 1 });
+
+    await queue.add(transfer(1), { id: 'a' });
+    await queue.add(transfer(2), { id: 'b' });
+    await queue.add(transfer(100000000), { id: 'c' });
+    await queue.add(transfer(4), { id: 'd' });
+    await queue.add(transfer(1000), { id: 'a' });
+
+    const processed = await queue.process();
+    expect(processed.map(({ id, state }) => [id, state])).toEqual([
+      ['a', 'injected'],
+      ['b', 'injected'],
+      ['c', 'failed'],
+      ['d', 'injected'],
+    ]);
+    expect(processed[2].error).toMatch(/balance_too_low/);
+
+    const confirmed = await queue.confirm();
+    expect(confirmed.map(({ state }) => state)).toEqual([
+      'included',
+      'included',
+      'failed',
+      'included',
+    ]);
+    expect(confirmed[0]).toMatchObject({
+      block: node.blocks[1].hash,
+      level: 2,
+    });
+    expect(await tez.getBalance(destination)).toBe('7');
+    expect(store.load().map(({ state }) => state)).toEqual(
+      confirmed.map(({ state }) => state),
+    );
+  });
+
+  it('resumes an operation injected before the process stopped', async () => {
+    const store = new MemoryQueueStore();
+    const stopped = new OperationQueue(tez, {
+      store: crashingStore(store, 'injected', false),
+    });
+    await stopped.add(transfer(1), { id: 'a' });
+    await stopped.add(transfer(2), { id: 'b' });
+    await expect(stopped.process()).rejects.toThrow('The process stopped');
+    expect(store.load().map(({ state }) => state)).toEqual([
+      'signed',
+      'pending',
+    ]);
+
+    const queue = new OperationQueue(tez, { store });
+    const jobs = await queue.process();
+
+    expect(jobs.map(({ state }) => state)).toEqual(['included', 'injected']);
+    expect(jobs[0].hash).toBe(store.load()[0].hash);
+    expect(await tez.getBalance(destination)).toBe('3');
+  });
+
+  it('injects the signed bytes again when they did not reach the node', async () => {
+    const store = new MemoryQueueStore();
+    const stopped = new OperationQueue(tez, {
+      store: crashingStore(store, 'signed', true),
+    });
+    await stopped.add(transfer(1), { id: 'a' });
+    await expect(stopped.process()).rejects.toThrow('The process stopped');
+    const [signed] = store.load();
+    expect(signed.state).toBe('signed');
+    expect(node.head.level).toBe(1);
+
+    const queue = new OperationQueue(tez, { store });
+    const [job] = await queue.resume();
+
+    expect(job).toMatchObject({ state: 'injected', hash: signed.hash });
+    expect(node.blocks[1].operations[3][0].hash).toBe(signed.hash);
+    expect(await tez.getBalance(destination)).toBe('1');
+  });
+
+  it('sends an operation again once its branch has expired', async () => {
+    const store = new MemoryQueueStore();
+    const stopped = new OperationQueue(tez, {
+      store: crashingStore(store, 'signed', true),
+    });
+    await stopped.add(transfer(1), { id: 'a' });
+    await expect(stopped.process()).rejects.toThrow('The process stopped');
+    const [signed] = store.load();
+
+    for (let i = 0; i < 61; i++) {
+      node.bake();
+    }
+
+    const queue = new OperationQueue(tez, { store });
+    expect((await queue.resume())[0].state).toBe('pending');
+
+    const [job] = await queue.process();
+    expect(job.state).toBe('injected');
+    expect(job.hash).not.toBe(signed.hash);
+    expect(await tez.getBalance(destination)).toBe('1');
+  });
+
+  it('keeps an operation signed while its branch is unknown', async () => {
+    const store = new MemoryQueueStore();
+    const stopped = new OperationQueue(tez, {
+      store: crashingStore(store, 'signed', true),
+    });
+    await stopped.add(transfer(1), { id: 'a' });
+    await expect(stopped.process()).rejects.toThrow('The process stopped');
+    const [signed] = store.load();
+    store.save({
+      ...signed,
+      branch: 'BLzyjjHKEKMULtvkpSHxuZxx6ei6fpntH2BTkYZiLgs8zLVstvX',
+    });
+
+    for (let i = 0; i < 61; i++) {
+      node.bake();
+    }
+
+    const queue = new OperationQueue(tez, { store });
+    const [job] = await queue.process();
+
+    expect(job).toMatchObject({ state: 'signed', hash: signed.hash });
+    expect(await tez.getBalance(destination)).toBe('0');
+  });
+
+  it('persists the jobs to a JSON file', async () => {
+    const file = join(tmpdir(), `sotez-queue-${Date.now()}.jsonl`);
+    const store = new JsonFileQueueStore(file);
+    const queue = new OperationQueue(tez, { store });
+
+    await queue.add(transfer(1), { id: 'a' });
+    await queue.add(transfer(2), { id: 'b' });
+    await queue.process();
+    appendFileSync(file, '{"id":"c","sta');
+
+    const reloaded = new OperationQueue(tez, {
+      store: new JsonFileQueueStore(file),
+    });
+    await reloaded.load();
+    expect(reloaded.jobs).toEqual(queue.jobs);
+
+    store.compact();
+    expect(readFileSync(file, 'utf8').trim().split('\n')).toHaveLength(2);
+    expect(store.load()).toEqual(queue.jobs);
+    unlinkSync(file);
+  });
+});
@@ -0,0 +1,320 @@
+import { parseReceipt } from '../src';
+import { connect, destination, fundedNode } from './helpers';
+
+describe('receipts', () => {
+  const contract = 'KT1MKm4ynxPSzRjw26jPSJbaMFTqTc4dVPdK';
+  const baker = 'tz1P1n8LvweoarK3DTPSnAHtiGVRujhvR2vk';
+
+  it('parses the receipt of a contract call', () => {
+    const receipt = parseReceipt(
+      [
+        {
+          kind: 'transaction',
+          source: destination,
+          fee: '1500',
+          counter: '12',
+          gas_limit: '20000',
+          storage_limit: '300',
+          amount: '0',
+          destination: contract,
+          parameters: { entrypoint: 'mint', value: { int: '1' } },
+          metadata: {
+            balance_updates: [
+              {
+                kind: 'contract',
+                contract: destination,
+                change: '-1500',
+                origin: 'block',
+              },
+              {
+                kind: 'accumulator',
+                category: 'block fees',
+                change: '1500',
+                origin: 'block',
+              },
+            ],
+            operation_result: {
+              status: 'applied',
+              storage: { int: '2' },
+              balance_updates: [
+                {
+                  kind: 'contract',
+                  contract: destination,
+                  change: '-17250',
+                  origin: 'block',
+                },
+                {
+                  kind: 'burned',
+                  category: 'storage fees',
+                  change: '17250',
+                  origin: 'block',
+                },
+              ],
+              consumed_milligas: '4012345',
+              storage_size: '5120',
+              paid_storage_size_diff: '69',
+              lazy_storage_diff: [
+                {
+                  kind: 'big_map',
+                  id: '42',
+                  diff: {
+                    action: 'update',
+                    updates: [
+                      {
+                        key_hash:
+                          'exprtZBwZUeYYYfUs9B9Rg2ywHezVHnCCnmF9WsDQVrs582dSK63dC',
+                        key: { int: '1' },
+                        value: { string: 'one' },
+                      },
+                      {
+                        key_hash:
+                          'exprvD1v8DRXdzvTnkyQ5hsyBRH6d2gHwTFjm2XRN57cRN2TeAmVsp',
+                        key: { int: '0' },
+                      },
+                    ],
+                  },
+                },
+                {
+                  kind: 'sapling_state',
+                  id: '3',
+                  diff: { action: 'update' },
+                },
+              ],
+            },
+            internal_operation_results: [
+              {
+                kind: 'origination',
+                source: contract,
+                nonce: 0,
+                balance: '0',
+                result: {
+                  status: 'applied',
+                  originated_contracts: [
+                    'KT1Hkg5qeNhfwpKW4fXvq7HGZB9z2EnmCCA9',
+                  ],
+                  consumed_milligas: '1500001',
+                  storage_size: '38',
+                  paid_storage_size_diff: '38',
+                },
+              },
+              {
+                kind: 'transaction',
+                source: contract,
+                nonce: 1,
+                amount: '10',
+                destination: baker,
+                result: {
+                  status: 'applied',
+                  balance_updates: [
+                    { kind: 'contract', contract, change: '-10' },
+                    { kind: 'contract', contract: baker, change: '10' },
+                  ],
+                  consumed_milligas: '1000000',
+                },
+              },
+            ],
+          },
+        },
+      ],
+      'ooYf5iK6EdTx3XfBusgDqS6znACTq5469D1zQSDFNrs5KdTuUGi',
+    );
+
+    expect(receipt).toMatchObject({
+      hash: 'ooYf5iK6EdTx3XfBusgDqS6znACTq5469D1zQSDFNrs5KdTuUGi',
+      status: 'applied',
+      consumedGas: '6513',
+      consumedMilligas: '6512346',
+      paidStorageSizeDiff: '107',
+      fee: '1500',
+      originatedContracts: ['KT1Hkg5qeNhfwpKW4fXvq7HGZB9z2EnmCCA9'],
+      errors: [],
+    });
+
+    const [operation] = receipt.operations;
+    expect(operation).toMatchObject({
+      kind: 'transaction',
+      source: destination,
+      destination: contract,
+      counter: '12',
+      status: 'applied',
+      consumedGas: '4013',
+      consumedMilligas: '4012345',
+      storageSize: '5120',
+      paidStorageSizeDiff: '69',
+    });
+    expect(operation.feeBalanceUpdates).toEqual([
+      {
+        kind: 'contract',
+        contract: destination,
+        change: '-1500',
+        origin: 'block',
+      },
+      {
+        kind: 'accumulator',
+        category: 'block fees',
+        change: '1500',
+        origin: 'block',
+      },
+    ]);
+    expect(operation.balanceUpdates[1]).toEqual({
+      kind: 'burned',
+      category: 'storage fees',
+      change: '17250',
+      origin: 'block',
+    });
+    expect(operation.bigMapDiff).toEqual([
+      {
+        action: 'update',
+        bigMap: '42',
+        keyHash: 'exprtZBwZUeYYYfUs9B9Rg2ywHezVHnCCnmF9WsDQVrs582dSK63dC',
+        key: { int: '1' },
+        value: { string: 'one' },
+      },
+      {
+        action: 'remove',
+        bigMap: '42',
+        keyHash: 'exprvD1v8DRXdzvTnkyQ5hsyBRH6d2gHwTFjm2XRN57cRN2TeAmVsp',
+        key: { int: '0' },
+      },
+    ]);
+    expect(
+      operation.internalOperations.map(
+        ({ kind, nonce, consumedGas, originatedContracts }) => [
+          kind,
+          nonce,
+          consumedGas,
+          originatedContracts,
+        ],
+      ),
+    ).toEqual([
+      ['origination', 0, '1501', ['KT1Hkg5qeNhfwpKW4fXvq7HGZB9z2EnmCCA9']],
+      ['transaction', 1, '1000', []],
+    ]);
+    expect(operation.internalOperations[1]).toMatchObject({
+      destination: baker,
+      amount: '10',
+    });
+  });
+
+  it('parses the receipts of earlier protocols', () => {
+    const receipt = parseReceipt([
+      {
+        kind: 'transaction',
+        source: destination,
+        fee: '1420',
+        counter: '3',
+        amount: '0',
+        destination: contract,
+        metadata: {
+          balance_updates: [
+            { kind: 'contract', contract: destination, change: '-1420' },
+            {
+              kind: 'freezer',
+              category: 'fees',
+              delegate: baker,
+              cycle: 312,
+              change: '1420',
+            },
+          ],
+          operation_result: {
+            status: 'failed',
+            errors: [
+              {
+                kind: 'temporary',
+                id: 'proto.009-PsFLoren.michelson_v1.script_rejected',
+              },
+            ],
+          },
+        },
+      },
+      {
+        kind: 'transaction',
+        source: destination,
+        fee: '1420',
+        counter: '4',
+        amount: '0',
+        destination: contract,
+        metadata: {
+          balance_updates: [],
+          operation_result: {
+            status: 'applied',
+            consumed_gas: '2500',
+            big_map_diff: [
+              {
+                action: 'update',
+                big_map: '7',
+                key_hash:
+                  'exprtZBwZUeYYYfUs9B9Rg2ywHezVHnCCnmF9WsDQVrs582dSK63dC',
+                key: { int: '1' },
+                value: { int: '2' },
+              },
+              {
+                action: 'copy',
+                source_big_map: '7',
+                destination_big_map: '8',
+              },
+            ],
+          },
+        },
+      },
+    ]);
+
+    expect(receipt).toMatchObject({
+      status: 'failed',
+      consumedGas: '2500',
+      consumedMilligas: '2500000',
+      fee: '2840',
+      errors: [{ id: 'proto.009-PsFLoren.michelson_v1.script_rejected' }],
+    });
+    expect(receipt.operations[0].feeBalanceUpdates[1]).toEqual({
+      kind: 'freezer',
+      category: 'fees',
+      delegate: baker,
+      cycle: 312,
+      change: '1420',
+    });
+    expect(receipt.operations[1].bigMapDiff).toEqual([
+      {
+        action: 'update',
+        bigMap: '7',
+        keyHash: 'exprtZBwZUeYYYfUs9B9Rg2ywHezVHnCCnmF9WsDQVrs582dSK63dC',
+        key: { int: '1' },
+        value: { int: '2' },
+      },
+      { action: 'copy', bigMap: '8', sourceBigMap: '7' },
+    ]);
+  });
+
+  it('returns the receipts of sent, simulated and included operations', async () => {
+    const { node, source } = await fundedNode();
+    const tez = await connect(node);
+
+    const { receipt: simulated } = await tez.simulateOperation({
+      operation: {
+        kind: 'transaction',
+        amount: 1000,
+        destination,
+        gas_limit: 10600,
+      },
+    });
+    expect(simulated.status).toBe('applied');
+    expect(simulated.operations.map(({ kind }: any) => kind)).toEqual([
+      'reveal',
+      'transaction',
+    ]);
+    expect(simulated.consumedGas).toBe('2427');
+
+    const { hash, receipt } = await tez.transfer({
+      to: destination,
+      amount: 1000,
+    });
+    expect(receipt).toMatchObject({ hash, status: 'applied' });
+    expect(receipt.operations[1].balanceUpdates).toEqual([
+      { kind: 'contract', contract: source, change: '-1000' },
+      { kind: 'contract', contract: destination, change: '1000' },
+    ]);
+
+    const { receipt: included } = await tez.awaitOperation(hash, 1, 5);
+    expect(included).toEqual(receipt);
+  });
+});
@@ -0,0 +1,133 @@
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  Sotez,
+  RecordingTransport,
+  ReplayTransport,
+  UnrecordedRequestError,
+} from '../src';
+import { loadFixtures, saveFixtures } from '../src/node';
+
+describe('record and replay', () => {
+  let tez = new Sotez();
+  let counter = 0;
+  const recorder = new RecordingTransport({
+    request: async ({ url }) => {
+      if (url.endsWith('/counter')) {
+        counter += 1;
+        return { ok: true, status: 200, body: `${counter}` };
+      }
+      if (url.endsWith('/pack_data')) {
+        return { ok: true, status: 200, body: { packed: '05' } };
+      }
+      return { ok: false, status: 404, body: 'Not found' };
+    },
+    stream: async (request, onChunk) => {
+      onChunk('{"level":1}\n');
+      return { ok: true, status: 200, body: undefined };
+    },
+  });
+  const file = join(tmpdir(), `sotez-fixtures-${Date.now()}.json`);
+
+  beforeAll(async () => {
+    tez = new Sotez('http://127.0.0.1:8732', 'main', {
+      transport: recorder,
+      retry: { maxAttempts: 1 },
+    });
+    await tez.getCounter('tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs');
+    await tez.getCounter('tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs');
+    await tez.packData({ int: '1' }, { prim: 'int' });
+    await expect(tez.getHead()).rejects.toMatchObject({ status: 404 });
+    const subscription = tez.monitorHeads();
+    await new Promise((resolve) => subscription.on('data', resolve));
+    subscription.close();
+    saveFixtures(file, recorder.fixtures);
+  });
+
+  it('records requests and responses', () => {
+    expect(recorder.fixtures[0]).toEqual({
+      method: 'GET',
+      path:
+        '/chains/main/blocks/head/context/contracts/tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs/counter',
+      body: undefined,
+      response: { ok: true, status: 200, body: '1' },
+    });
+    expect(recorder.fixtures[2].body).toEqual({
+      data: { int: '1' },
+      gas: '4000000',
+      type: { prim: 'int' },
+    });
+    expect(recorder.fixtures[4].chunks).toEqual(['{"level":1}\n']);
+  });
+
+  it('replays recorded responses', async () => {
+    const replayer = new ReplayTransport(loadFixtures(file));
+    tez = new Sotez('https://another.node', 'main', {
+      transport: replayer,
+      retry: { maxAttempts: 1 },
+    });
+
+    expect(await tez.getCounter('tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs')).toBe(
+      '1',
+    );
+    expect(await tez.getCounter('tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs')).toBe(
+      '2',
+    );
+    expect(await tez.getCounter('tz1RvhdZ5pcjD19vCCK9PgZpnmErTba3dsBs')).toBe(
+      '2',
+    );
+    await expect(
+      tez.query('/chains/main/blocks/head/helpers/scripts/pack_data', {
+        type: { prim: 'int' },
+        gas: '4000000',
+        data: { int: '1' },
+      }),
+    ).resolves.toEqual({ packed: '05' });
+    await expect(tez.getHead()).rejects.toMatchObject({ status: 404 });
+
+    const subscription = tez.monitorHeads();
+    const head = await new Promise((resolve) =>
+      subscription.on('data', resolve),
+    );
+    subscription.close();
+    expect(head).toEqual({ level: 1 });
+    expect(replayer.unused).toEqual([]);
+  });
+
+  it('ends replayed streams without a signal or already aborted', async () => {
+    const replayer = new ReplayTransport(recorder.fixtures);
+    const request = {
+      method: 'GET',
+      url: 'http://127.0.0.1:8732/monitor/heads/main',
+      headers: {},
+    };
+    const chunks: string[] = [];
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      replayer.stream(request, (chunk) => chunks.push(chunk)),
+    ).resolves.toMatchObject({ ok: true });
+    await expect(
+      replayer.stream({ ...request, signal: controller.signal }, (chunk) =>
+        chunks.push(chunk),
+      ),
+    ).resolves.toMatchObject({ ok: true });
+    expect(chunks).toEqual(['{"level":1}\n', '{"level":1}\n']);
+  });
+
+  it('rejects unrecorded requests', async () => {
+    tez = new Sotez('http://127.0.0.1:8732', 'main', {
+      transport: new ReplayTransport(recorder.fixtures),
+      retry: { maxAttempts: 1 },
+    });
+
+    const error = await tez
+      .packData({ int: '2' }, { prim: 'int' })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(UnrecordedRequestError);
+    expect(error.message).toBe(
+      'No recorded response for POST /chains/main/blocks/head/helpers/scripts/pack_data with body {"data":{"int":"2"},"gas":"4000000","type":{"prim":"int"}}',
+    );
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * @description The interface of the stores used to cache rpc responses. Any implementation
+ *   (an in-memory map, redis, localStorage) can be provided through the `cache` module option.
+ *   `get` resolves with `undefined` when the key is missing or expired.
+ */
+export interface Cache {
+    get: (key: string) => any | Promise<any>;
+    set: (key: string, value: any, ttl?: number) => void | Promise<void>;
+}
+export interface CacheOptions {
+    store?: Cache;
+    headTtl?: number;
+}
+export interface CachePolicy {
+    key: string;
+    ttl?: number;
+}
+/**
+ * @description Determines whether the response of a GET request can be cached, and for how long
+ * @param {string} path The RPC path of the request
+ * @param {number} headTtl How long responses for paths relative to the head are cached (in ms)
+ * @returns {Object|null} The cache key and time to live (forever when undefined) of the response,
+ *   or null when the response must not be cached
+ */
+export declare const cachePolicy: (path: string, headTtl: number) => CachePolicy | null;
+/**
+ * @description The default cache, an in-memory store evicting the least recently used entries.
+ *   Values are stored serialized so that callers cannot mutate cached responses.
+ * @param {number} [maxEntries=1000] The maximum number of entries to keep
+ * @example
+ * const tezos = new Sotez('https://127.0.0.1:8732', 'main', {
+ *   cache: { store: new LRUCache(5000) },
+ * });
+ */
+export declare class LRUCache implements Cache {
+    maxEntries: number;
+    private entries;
+    constructor(maxEntries?: number);
+    get size(): number;
+    get: (key: string) => any;
+    set: (key: string, value: any, ttl?: number | undefined) => void;
+    delete: (key: string) => void;
+    clear: () => void;
+}
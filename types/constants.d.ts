@@ -48,6 +48,12 @@ export declare const protocols: {
     '008a': string;
     '008': string;
     '009': string;
+    '010': string;
+    '011': string;
+    '012': string;
+    '013': string;
+    '014': string;
+    '015': string;
 };
 declare const _default: {
     prefix: {
@@ -100,6 +106,12 @@ declare const _default: {
         '008a': string;
         '008': string;
         '009': string;
+        '010': string;
+        '011': string;
+        '012': string;
+        '013': string;
+        '014': string;
+        '015': string;
     };
 };
 export default _default;
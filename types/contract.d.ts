@@ -1,4 +1,5 @@
 import { ParameterSchema, Schema } from '@taquito/michelson-encoder';
+import { BlockOptions } from './tez-core';
 interface RpcParams {
     to: string;
     source?: string;
@@ -63,12 +64,15 @@ interface SendParams {
     storageLimit?: number;
     gasLimit?: number;
     amount?: number;
+    signal?: AbortSignal;
 }
 /**
  * @description Creates an initialized contract class abstraction
  * @class Contract
  * @param {Object} client Initialized Sotez client
  * @param {string} address Contract address
+ * @param {Object} [options] The query options used to load the contract
+ * @param {string|number} [options.block='head'] The block to load the contract at
  * @example
  * const contract = new Contract(sotez, 'KT1MKm4ynxPSzRjw26jPSJbaMFTqTc4dVPdK');
  */
@@ -82,19 +86,24 @@ export declare class Contract {
     parameterSchema: ParameterSchema;
     entrypoints: any;
     loaded: Promise<boolean>;
-    constructor(client: any, address: string);
-    _init: (address: string) => Promise<boolean>;
+    constructor(client: any, address: string, options?: BlockOptions);
+    _init: (address: string, options?: BlockOptions) => Promise<boolean>;
     _initializeMethods: (address: string, parameterSchema: ParameterSchema, entrypoints: any) => void;
     /**
      * @description Return a friendly representation of the smart contract storage
+     * @param {Object} [options] The query options
+     * @param {string|number} [options.block='head'] The block to read the storage at. The big maps
+     *   of the storage are read at the same block.
      * @returns {Promise} The contract storage
      */
-    storage: () => Promise<any>;
+    storage: (options?: BlockOptions) => Promise<any>;
     /**
      * @description Return the contract balance
+     * @param {Object} [options] The query options
+     * @param {string|number} [options.block='head'] The block to read the balance at
      * @returns {Promise<string>} The contract balance
      */
-    balance: () => Promise<string>;
+    balance: (options?: BlockOptions) => Promise<string>;
 }
 /**
  * @description Utility class to send smart contract operation
@@ -0,0 +1,72 @@
+/**
+ * @description The interface of the stores keeping the last counter used by each source. Any
+ *   implementation (an in-memory object, redis, a database) can be provided through the
+ *   `counterStore` module option so that several processes signing for the same source share
+ *   their counters. `get` resolves with `undefined` when no counter was used yet. Stores shared
+ *   between processes should also implement `lock`, resolving with a function releasing the lock
+ *   once the source is free.
+ */
+export interface CounterStore {
+    get: (source: string) => number | undefined | Promise<number | undefined>;
+    set: (source: string, counter: number) => void | Promise<void>;
+    lock?: (source: string) => Promise<() => void | Promise<void>>;
+}
+/**
+ * @description The default counter store, keeping the counters of the current process
+ * @param {Object} [counters={}] The last counter used by each source
+ */
+export declare class MemoryCounterStore implements CounterStore {
+    counters: {
+        [source: string]: number;
+    };
+    constructor(counters?: {
+        [source: string]: number;
+    });
+    get: (source: string) => number | undefined;
+    set: (source: string, counter: number) => void;
+}
+/**
+ * @description Hands out the counters of the operations of each source. Operations of the same
+ *   source are serialized with `lock`, so that concurrent operations never use the same counter.
+ * @param {Object} [store] The store of the counters (an in-memory store by default)
+ * @example
+ * const counters = new CounterManager();
+ * await counters.lock('tz1...', async () => {
+ *   const counter = await counters.reserve('tz1...', headCounter, 2);
+ *   // The operations use the counters counter + 1 and counter + 2
+ * });
+ */
+export declare class CounterManager {
+    store: CounterStore;
+    private queues;
+    constructor(store?: CounterStore);
+    /**
+     * @description Runs a function once the previous functions locking the same source are done
+     * @param {string} source The source to lock
+     * @param {Function} fn The function to run
+     * @returns {Promise} The result of the function
+     */
+    lock: <T>(source: string, fn: () => Promise<T>) => Promise<T>;
+    /**
+     * @description Gets the last counter used by a source
+     * @param {string} source The source of the operations
+     * @param {number} headCounter The counter of the source at the head of the chain
+     * @returns {Promise} The last counter used, never lower than the counter of the head
+     */
+    current: (source: string, headCounter: number) => Promise<number>;
+    /**
+     * @description Reserves the counters of the operations of a batch
+     * @param {string} source The source of the operations
+     * @param {number} headCounter The counter of the source at the head of the chain
+     * @param {number} count The number of operations needing a counter
+     * @returns {Promise} The last counter used before the reserved ones
+     */
+    reserve: (source: string, headCounter: number, count: number) => Promise<number>;
+    /**
+     * @description Sets the last counter used by a source, after a failed operation or to resync
+     *   it with the chain
+     * @param {string} source The source of the operations
+     * @param {number} counter The last counter used
+     */
+    reset: (source: string, counter: number) => Promise<void>;
+}
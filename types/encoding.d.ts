@@ -0,0 +1,239 @@
+export declare type Micheline = {
+    entrypoint: string;
+    value: {
+        prim: string;
+        args?: MichelineArray;
+        annots?: string[];
+    } | {
+        bytes: string;
+    } | {
+        int: string;
+    } | {
+        string: string;
+    } | {
+        address: string;
+    } | {
+        contract: string;
+    } | {
+        key: string;
+    } | {
+        key_hash: string;
+    } | {
+        signature: string;
+    } | MichelineArray;
+} | {
+    prim: string;
+    args?: MichelineArray;
+    annots?: string[];
+} | {
+    bytes: string;
+} | {
+    int: string;
+} | {
+    string: string;
+} | {
+    address: string;
+} | {
+    contract: string;
+} | {
+    key: string;
+} | {
+    key_hash: string;
+} | {
+    signature: string;
+} | MichelineArray;
+export declare type MichelineArray = Array<Micheline>;
+/**
+ * @description Convert bytes from Int32
+ * @param {number} num Number to convert to bytes
+ * @returns {Object} The converted number
+ */
+export declare const toBytesInt32: (num: number) => any;
+/**
+ * @description Convert hex from Int32
+ * @param {number} num Number to convert to hex
+ * @returns {string} The converted number
+ */
+export declare const toBytesInt32Hex: (num: number) => string;
+/**
+ * @description Convert bytes from Int16
+ * @param {number} num Number to convert to bytes
+ * @returns {Object} The converted number
+ */
+export declare const toBytesInt16: (num: number) => any;
+/**
+ * @description Convert hex from Int16
+ * @param {number} num Number to convert to hex
+ * @returns {string} The converted number
+ */
+export declare const toBytesInt16Hex: (num: number) => string;
+/**
+ * @description Forge boolean
+ * @param {boolean} boolArg Boolean value to convert
+ * @returns {string} The converted boolean
+ */
+export declare const bool: (boolArg: boolean) => string;
+/**
+ * @description Forge script bytes
+ * @param {Object} scriptArg Script to forge
+ * @param {string} scriptArg.code Script code
+ * @param {string} scriptArg.storage Script storage
+ * @returns {string} Forged script bytes
+ */
+export declare const script: (scriptArg: {
+    code: Micheline;
+    storage: Micheline;
+}) => string;
+/**
+ * @description Forge Micheline bytes prefixed with their length
+ * @param {Object} value Micheline to forge
+ * @returns {string} Forged Micheline bytes
+ */
+export declare const micheline: (value: Micheline) => string;
+/**
+ * @description Forge public key hash bytes
+ * @param {string} pkh Public key hash to forge
+ * @returns {string} Forged public key hash bytes
+ */
+export declare const publicKeyHash: (pkh: string) => string;
+/**
+ * @description Forge address bytes
+ * @param {string} addressArg Address to forge
+ * @returns {string} Forged address bytes
+ */
+export declare const address: (addressArg: string) => string;
+/**
+ * @description Forge zarith bytes
+ * @param {number} n Zarith to forge
+ * @returns {string} Forged zarith bytes
+ */
+export declare const zarith: (n: string) => string;
+/**
+ * @description Forge signed zarith bytes. The first byte holds the sign and the 6 lowest bits.
+ * @param {string} n Signed zarith to forge
+ * @returns {string} Forged signed zarith bytes
+ */
+export declare const signedZarith: (n: string) => string;
+/**
+ * @description Forge public key bytes
+ * @param {number} pk Public key to forge
+ * @returns {string} Forged public key bytes
+ */
+export declare const publicKey: (pk: string) => string;
+/**
+ * @description Forge signature bytes
+ * @param {string} sig Signature to forge
+ * @returns {string} Forged signature bytes
+ */
+export declare const signature: (sig: string) => string;
+/**
+ * @description Decode raw bytes
+ * @param {string} bytes The bytes to decode
+ * @returns {Object} Decoded raw bytes
+ */
+export declare const decodeRawBytes: (bytes: string) => Micheline;
+/**
+ * @description Encode raw bytes
+ * @param {Object} input The value to encode
+ * @returns {string} Encoded value as bytes
+ */
+export declare const encodeRawBytes: (input: Micheline) => string;
+/**
+ * @description A cursor over forged bytes, used to decode them field by field
+ * @param {string} bytes The forged bytes
+ * @example
+ * const reader = new BytesReader('ff00');
+ * decodeBool(reader); // true
+ * reader.remaining; // 1
+ */
+export declare class BytesReader {
+    bytes: string;
+    index: number;
+    constructor(bytes: string);
+    /**
+     * @description The number of bytes left to read
+     * @returns {number} The number of bytes
+     */
+    get remaining(): number;
+    /**
+     * @description Reads the next bytes
+     * @param {number} length The number of bytes to read
+     * @returns {string} The bytes as hex
+     */
+    read: (length: number) => string;
+}
+/**
+ * @description Decode an Int32
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {number} The decoded number
+ */
+export declare const decodeInt32: (reader: BytesReader) => number;
+/**
+ * @description Decode an Int16
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {number} The decoded number
+ */
+export declare const decodeInt16: (reader: BytesReader) => number;
+/**
+ * @description Decode a boolean
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {boolean} The decoded boolean
+ */
+export declare const decodeBool: (reader: BytesReader) => boolean;
+/**
+ * @description Decode zarith bytes
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {string} The decoded number
+ */
+export declare const decodeZarith: (reader: BytesReader) => string;
+/**
+ * @description Decode signed zarith bytes
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {string} The decoded number
+ */
+export declare const decodeSignedZarith: (reader: BytesReader) => string;
+/**
+ * @description Decode public key hash bytes
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {string} The decoded public key hash
+ */
+export declare const decodePublicKeyHash: (reader: BytesReader) => string;
+/**
+ * @description Decode address bytes
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {string} The decoded address
+ */
+export declare const decodeAddress: (reader: BytesReader) => string;
+/**
+ * @description Decode public key bytes
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {string} The decoded public key
+ */
+export declare const decodePublicKey: (reader: BytesReader) => string;
+/**
+ * @description Decode Micheline bytes prefixed with their length
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {Object} The decoded Micheline
+ */
+export declare const decodeMicheline: (reader: BytesReader) => Micheline;
+/**
+ * @description Decode script bytes
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {Object} The decoded code and storage
+ */
+export declare const decodeScript: (reader: BytesReader) => {
+    code: Micheline;
+    storage: Micheline;
+};
+/**
+ * @description Decode signature bytes
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {string} The decoded signature, with the generic prefix
+ */
+export declare const decodeSignature: (reader: BytesReader) => string;
+/**
+ * @description Reads bytes prefixed with their length
+ * @param {Object} reader The reader of the forged bytes
+ * @returns {Object} A reader of the prefixed bytes
+ */
+export declare const decodeDynamic: (reader: BytesReader) => BytesReader;
@@ -0,0 +1,50 @@
+import { Key } from './key';
+export declare const ENVELOPE_VERSION = 1;
+/**
+ * @description A prepared operation which can be saved as JSON, signed offline and injected later
+ */
+export interface UnsignedEnvelope {
+    /** The version of the envelope format */
+    version: number;
+    /** The id of the chain the operation is meant for */
+    chainId: string;
+    /** The protocol the operation was forged for */
+    protocol: string;
+    /** The hash of the block the operation is branched on */
+    branch: string;
+    /** The level of the branch */
+    branchLevel: number;
+    /** The last level at which the operation can be included */
+    expiresAt: number;
+    /** The address signing the operation */
+    source: string;
+    /** The forged operation bytes */
+    opbytes: string;
+    /** The operation object */
+    opOb: {
+        branch: string;
+        contents: any[];
+        protocol: string;
+    };
+}
+export interface SignedEnvelope extends UnsignedEnvelope {
+    /** The signature of the forged bytes */
+    signature: string;
+}
+/**
+ * @description Checks that an envelope has every field of the supported version
+ * @param {Object} envelope The envelope, usually parsed from JSON
+ */
+export declare const validateEnvelope: (envelope: UnsignedEnvelope) => void;
+/**
+ * @description Signs an envelope, after checking that its bytes are the forged operation object
+ *   so that what is signed is what was reviewed. Signing needs no connection to a node.
+ * @param {Object} envelope The unsigned envelope
+ * @param {Object} key The key of the source
+ * @returns {Promise} The signed envelope
+ * @example
+ * const key = new Key({ key: 'edsk...' });
+ * await key.ready;
+ * const signed = await signEnvelope(JSON.parse(unsigned), key);
+ */
+export declare const signEnvelope: (envelope: UnsignedEnvelope, key: Key) => Promise<SignedEnvelope>;
@@ -0,0 +1,207 @@
+/**
+ * @description The base class of the errors thrown by Sotez
+ * @class SotezError
+ * @param {string} message The error message
+ */
+export declare class SotezError extends Error {
+    constructor(message: string);
+}
+/**
+ * @description Thrown when a request is cancelled through its AbortSignal
+ * @class RequestAbortedError
+ * @param {string} [path] The RPC path of the aborted request
+ */
+export declare class RequestAbortedError extends SotezError {
+    path?: string | undefined;
+    constructor(path?: string | undefined);
+}
+/**
+ * @description Thrown when a request does not complete in time
+ * @class RequestTimeoutError
+ * @param {number} timeout The timeout which elapsed (in ms)
+ * @param {string} [path] The RPC path of the request
+ */
+export declare class RequestTimeoutError extends SotezError {
+    timeout: number;
+    path?: string | undefined;
+    constructor(timeout: number, path?: string | undefined);
+}
+/**
+ * @description Thrown when the transport fails to send a request or to receive its response,
+ *   ie. on a network failure
+ * @class TransportError
+ * @param {*} cause The error thrown by the transport
+ * @param {string} [path] The RPC path of the request
+ */
+export declare class TransportError extends SotezError {
+    cause: any;
+    path?: string | undefined;
+    constructor(cause: any, path?: string | undefined);
+}
+/**
+ * @description Thrown by the replay transport when no recorded response matches a request
+ * @class UnrecordedRequestError
+ * @param {string} method The request method
+ * @param {string} path The RPC path of the request
+ * @param {*} [body] The normalized body of the request
+ */
+export declare class UnrecordedRequestError extends SotezError {
+    method: string;
+    path: string;
+    body?: any;
+    constructor(method: string, path: string, body?: any);
+}
+/**
+ * @description Thrown when an operation envelope is malformed, of an unsupported version, or
+ *   meant for another chain
+ * @class InvalidEnvelopeError
+ * @param {string} message The reason the envelope is invalid
+ */
+export declare class InvalidEnvelopeError extends SotezError {
+    constructor(message: string);
+}
+/**
+ * @description Thrown when a signed envelope is injected after the last level its branch is valid
+ * @class EnvelopeExpiredError
+ * @param {number} expiresAt The last level at which the operation can be included
+ * @param {number} level The level of the current head
+ */
+export declare class EnvelopeExpiredError extends SotezError {
+    expiresAt: number;
+    level: number;
+    constructor(expiresAt: number, level: number);
+}
+/**
+ * @description Thrown when the signature of an envelope was not made by the key of its source
+ * @class InvalidSignatureError
+ * @param {string} source The source of the operation
+ */
+export declare class InvalidSignatureError extends SotezError {
+    source: string;
+    constructor(source: string);
+}
+/**
+ * @description Thrown before signing when the fees of an operation exceed the maximum of a capped
+ *   fee strategy
+ * @class FeeCapExceededError
+ * @param {number} max The maximum fee, in mutez
+ * @param {string} fee The fees of the operation, in mutez
+ */
+export declare class FeeCapExceededError extends SotezError {
+    max: number;
+    fee: string;
+    constructor(max: number, fee: string);
+}
+export interface RpcErrorObject {
+    kind: string;
+    id: string;
+    contract?: string;
+    contract_handle?: string;
+    location?: number;
+    [key: string]: any;
+}
+/**
+ * @description Thrown when a node answers a request with an error which is not a list of
+ *   protocol errors
+ * @class RpcError
+ * @param {*} body The body of the response
+ * @param {number} [status] The http status of the response
+ */
+export declare class RpcError extends SotezError {
+    body: any;
+    status?: number | undefined;
+    constructor(body: any, status?: number | undefined);
+}
+/**
+ * @description Thrown when a node rejects a request or an operation with a list of protocol errors.
+ *   The most relevant error of the list determines the class of the thrown error.
+ * @class TezosRpcError
+ * @param {Object} error The most relevant error of the list
+ * @param {Array} [errors] The full list of errors returned by the node
+ * @param {number} [status] The http status of the response
+ */
+export declare class TezosRpcError extends SotezError {
+    id: string;
+    kind: string;
+    contract?: string;
+    location?: number;
+    errors: RpcErrorObject[];
+    status?: number;
+    constructor(error: RpcErrorObject, errors?: RpcErrorObject[], status?: number);
+    /**
+     * @description The error id without its protocol prefix, ie. 'contract.balance_too_low'
+     * @returns {string} The error id
+     */
+    get shortId(): string;
+}
+/**
+ * @description The counter of the operation has already been used
+ * @class CounterInThePastError
+ */
+export declare class CounterInThePastError extends TezosRpcError {
+    expected: string;
+    found: string;
+    constructor(error: RpcErrorObject, errors?: RpcErrorObject[], status?: number);
+}
+/**
+ * @description The counter of the operation is ahead of the counter of the contract
+ * @class CounterInTheFutureError
+ */
+export declare class CounterInTheFutureError extends TezosRpcError {
+    expected: string;
+    found: string;
+    constructor(error: RpcErrorObject, errors?: RpcErrorObject[], status?: number);
+}
+/**
+ * @description The balance of the contract is too low to cover the operation
+ * @class BalanceTooLowError
+ */
+export declare class BalanceTooLowError extends TezosRpcError {
+    balance: string;
+    amount: string;
+    constructor(error: RpcErrorObject, errors?: RpcErrorObject[], status?: number);
+}
+/**
+ * @description A script called by the operation reached a FAILWITH instruction
+ * @class ScriptRejectedError
+ */
+export declare class ScriptRejectedError extends TezosRpcError {
+    with: any;
+    value: any;
+    constructor(error: RpcErrorObject, errors?: RpcErrorObject[], status?: number);
+}
+/**
+ * @description The operation or the block ran out of gas
+ * @class GasExhaustedError
+ */
+export declare class GasExhaustedError extends TezosRpcError {
+    constructor(error: RpcErrorObject, errors?: RpcErrorObject[], status?: number);
+}
+/**
+ * @description The public key of the source has not been revealed
+ * @class UnrevealedKeyError
+ */
+export declare class UnrevealedKeyError extends TezosRpcError {
+    constructor(error: RpcErrorObject, errors?: RpcErrorObject[], status?: number);
+}
+/**
+ * @description Strips the protocol prefix of an error id
+ * @param {string} id The error id, ie. 'proto.009-PsFLoren.contract.balance_too_low'
+ * @returns {string} The error id without its protocol prefix
+ */
+export declare const shortErrorId: (id?: string) => string;
+/**
+ * @description Converts the errors returned by a node into a typed error
+ * @param {*} body The list of errors, or the body of a failed response
+ * @param {number} [status] The http status of the response
+ * @returns {Object} The typed error
+ * @example
+ * try {
+ *   await sotez.transfer({ to: 'tz1...', amount: 1 });
+ * } catch (e) {
+ *   if (e instanceof BalanceTooLowError) {
+ *     console.log(e.balance, e.amount);
+ *   }
+ * }
+ */
+export declare const parseRpcError: (body: any, status?: number | undefined) => TezosRpcError | RpcError;
@@ -0,0 +1,125 @@
+/**
+ * @description The minimal fee a node requires to accept an operation in its mempool. An
+ *   operation pays at least `minimalFees` mutez plus a price per byte of its signed bytes and per
+ *   unit of its gas limit.
+ */
+export interface FeeParameters {
+    /** The base fee of an operation, in mutez */
+    minimalFees: number;
+    /** The price of a byte, in nanotez */
+    nanotezPerByte: number;
+    /** The price of a gas unit, in nanotez */
+    nanotezPerGasUnit: number;
+}
+export declare const DEFAULT_FEE_PARAMETERS: FeeParameters;
+/**
+ * @description Reads the fee parameters of the mempool filter configuration of a node
+ * @param {Object} filter The response of `/chains/main/mempool/filter`
+ * @returns {Object} The fee parameters, with defaults for the missing ones
+ */
+export declare const parseFeeParameters: (filter?: any) => FeeParameters;
+/**
+ * @description Computes the minimal fee of an operation
+ * @param {number} size The size of the operation, in bytes
+ * @param {number|string} gasLimit The gas limit of the operation
+ * @param {Object} [parameters] The fee parameters of the node
+ * @returns {number} The minimal fee, in mutez
+ * @example
+ * minimalFee(160, 1427); // 403
+ */
+export declare const minimalFee: (size: number, gasLimit: number | string, parameters?: FeeParameters) => number;
+/**
+ * @description What a fee strategy is given to choose the fee of an operation
+ */
+export interface FeeEstimate {
+    /** The kind of the operation */
+    kind: string;
+    /** The size of the forged operation, in bytes, including the branch and the signature for the
+     * first operation of a batch */
+    size: number;
+    /** The gas limit of the operation */
+    gasLimit: number;
+    /** The storage limit of the operation */
+    storageLimit: number;
+    /** The minimal fee of the operation with the safety margin, in mutez */
+    minimalFee: number;
+}
+export declare type FeeCallback = (estimate: FeeEstimate) => number | string;
+/**
+ * @description How the fees of operations given without a fee are chosen:
+ *   - `'minimal'`: the minimal fee with the safety margin
+ *   - `{ type: 'priority', multiplier }`: the minimal fee multiplied, to be included sooner
+ *   - `{ type: 'capped', max }`: the minimal fee, rejecting operations whose fees exceed `max`
+ *     mutez before they are signed
+ *   - a callback returning the fee in mutez
+ */
+export declare type FeeStrategy = 'minimal' | {
+    type: 'priority';
+    multiplier: number;
+} | {
+    type: 'capped';
+    max: number;
+} | FeeCallback;
+export interface OperationFee {
+    kind: string;
+    /** The fee of the operation, in mutez */
+    fee: string;
+    /** The minimal fee of the operation with the safety margin, in mutez */
+    minimalFee: string;
+    size: number;
+    gasLimit: string;
+    storageLimit: string;
+    /** Whether the fee was chosen by the strategy rather than given */
+    computed: boolean;
+}
+/**
+ * @description The fees of the operations of a batch
+ */
+export interface FeeBreakdown {
+    /** The name of the strategy: `minimal`, `priority`, `capped`, `custom` or `flat` */
+    strategy: string;
+    /** The sum of the fees, in mutez */
+    total: string;
+    operations: OperationFee[];
+}
+/**
+ * @description Names a fee strategy in a fee breakdown
+ * @param {string|Object|Function} strategy The fee strategy
+ * @returns {string} The name of the strategy
+ */
+export declare const feeStrategyName: (strategy: FeeStrategy) => string;
+/**
+ * @description Computes the fee of an operation of a batch from its forged size and its gas
+ *   limit. The fee is part of the forged bytes, so it is computed again until its own size stops
+ *   changing. The base fee and the bytes of the branch and of the signature are paid by the first
+ *   operation of the batch.
+ * @param {Object} content The operation, with its gas limit
+ * @param {string} protocol The protocol the operation is forged for
+ * @param {Object} [options] The fee options
+ * @param {Object} [options.parameters] The fee parameters of the node
+ * @param {number} [options.margin=0] A safety margin added to the fee, in mutez
+ * @param {boolean} [options.first=true] Whether the operation is the first of the batch
+ * @param {string|Object|Function} [options.strategy='minimal'] The fee strategy
+ * @returns {Object} The fee, with the minimal fee and the estimates it was chosen from
+ */
+export declare const estimateFee: (content: any, protocol: string, { parameters, margin, first, strategy, }?: {
+    parameters?: FeeParameters | undefined;
+    margin?: number | undefined;
+    first?: boolean | undefined;
+    strategy?: FeeStrategy | undefined;
+}) => Omit<OperationFee, 'computed'>;
+/**
+ * @description Computes the minimal fee of an operation of a batch, see `estimateFee`
+ * @param {Object} content The operation, with its gas limit
+ * @param {string} protocol The protocol the operation is forged for
+ * @param {Object} [options] The fee options
+ * @param {Object} [options.parameters] The fee parameters of the node
+ * @param {number} [options.margin=0] A safety margin added to the fee, in mutez
+ * @param {boolean} [options.first=true] Whether the operation is the first of the batch
+ * @returns {string} The fee, in mutez
+ */
+export declare const operationFee: (content: any, protocol: string, options?: {
+    parameters?: FeeParameters;
+    margin?: number;
+    first?: boolean;
+}) => string;
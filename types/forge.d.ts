@@ -1,3 +1,5 @@
+import { Micheline, signedZarith, toBytesInt32, toBytesInt32Hex, toBytesInt16, toBytesInt16Hex, bool, script, publicKeyHash, address, zarith, publicKey, decodeRawBytes, encodeRawBytes } from './encoding';
+export { toBytesInt32, toBytesInt32Hex, toBytesInt16, toBytesInt16Hex, bool, script, publicKeyHash, address, zarith, signedZarith, publicKey, decodeRawBytes, encodeRawBytes, };
 interface ConstructedOperation {
     kind: string;
     level: number;
@@ -27,6 +29,44 @@ interface ConstructedOperation {
     };
     manager_pubkey: string;
     managerPubkey: string;
+    proposals: string[];
+    slot: number;
+    endorsement: InlinedEndorsement;
+    op1: InlinedEndorsement;
+    op2: InlinedEndorsement;
+    bh1: BlockHeader;
+    bh2: BlockHeader;
+    value: Micheline;
+    limit?: string;
+    ticket_contents: Micheline;
+    ticket_ty: Micheline;
+    ticket_ticketer: string;
+    ticket_amount: string;
+    entrypoint: string;
+    pk: string;
+    consensus_key: string;
+}
+interface InlinedEndorsement {
+    branch: string;
+    operations: {
+        kind: 'endorsement';
+        level: number;
+    };
+    signature?: string;
+}
+interface BlockHeader {
+    level: number;
+    proto: number;
+    predecessor: string;
+    timestamp: string;
+    validation_pass: number;
+    operations_hash: string;
+    fitness: string[];
+    context: string;
+    priority: number;
+    proof_of_work_nonce: string;
+    seed_nonce_hash?: string;
+    signature: string;
 }
 interface OperationObject {
     branch?: string;
@@ -39,92 +79,6 @@ interface ForgedBytes {
     opOb: OperationObject;
     counter: number;
 }
-declare type Micheline = {
-    entrypoint: string;
-    value: {
-        prim: string;
-        args?: MichelineArray;
-        annots?: string[];
-    } | {
-        bytes: string;
-    } | {
-        int: string;
-    } | {
-        string: string;
-    } | {
-        address: string;
-    } | {
-        contract: string;
-    } | {
-        key: string;
-    } | {
-        key_hash: string;
-    } | {
-        signature: string;
-    } | MichelineArray;
-} | {
-    prim: string;
-    args?: MichelineArray;
-    annots?: string[];
-} | {
-    bytes: string;
-} | {
-    int: string;
-} | {
-    string: string;
-} | {
-    address: string;
-} | {
-    contract: string;
-} | {
-    key: string;
-} | {
-    key_hash: string;
-} | {
-    signature: string;
-} | MichelineArray;
-declare type MichelineArray = Array<Micheline>;
-/**
- * @description Convert bytes from Int32
- * @param {number} num Number to convert to bytes
- * @returns {Object} The converted number
- */
-export declare const toBytesInt32: (num: number) => any;
-/**
- * @description Convert hex from Int32
- * @param {number} num Number to convert to hex
- * @returns {string} The converted number
- */
-export declare const toBytesInt32Hex: (num: number) => string;
-/**
- * @description Convert bytes from Int16
- * @param {number} num Number to convert to bytes
- * @returns {Object} The converted number
- */
-export declare const toBytesInt16: (num: number) => any;
-/**
- * @description Convert hex from Int16
- * @param {number} num Number to convert to hex
- * @returns {string} The converted number
- */
-export declare const toBytesInt16Hex: (num: number) => string;
-/**
- * @description Forge boolean
- * @param {boolean} boolArg Boolean value to convert
- * @returns {string} The converted boolean
- */
-export declare const bool: (boolArg: boolean) => string;
-/**
- * @description Forge script bytes
- * @param {Object} scriptArg Script to forge
- * @param {string} scriptArg.code Script code
- * @param {string} scriptArg.storage Script storage
- * @returns {string} Forged script bytes
- */
-export declare const script: (scriptArg: {
-    code: Micheline;
-    storage: Micheline;
-}) => string;
 /**
  * @description Forge parameter bytes
  * @param {string} parameter Script to forge
@@ -132,30 +86,6 @@ export declare const script: (scriptArg: {
  * @returns {string} Forged parameter bytes
  */
 export declare const parameters: (parameter: any, protocol: string) => string;
-/**
- * @description Forge public key hash bytes
- * @param {string} pkh Public key hash to forge
- * @returns {string} Forged public key hash bytes
- */
-export declare const publicKeyHash: (pkh: string) => string;
-/**
- * @description Forge address bytes
- * @param {string} addressArg Address to forge
- * @returns {string} Forged address bytes
- */
-export declare const address: (addressArg: string) => string;
-/**
- * @description Forge zarith bytes
- * @param {number} n Zarith to forge
- * @returns {string} Forged zarith bytes
- */
-export declare const zarith: (n: string) => string;
-/**
- * @description Forge public key bytes
- * @param {number} pk Public key to forge
- * @returns {string} Forged public key bytes
- */
-export declare const publicKey: (pk: string) => string;
 /**
  * @description Forge operation bytes
  * @param {Object} opArg Operation to forge
@@ -175,16 +105,37 @@ export declare const endorsement: (opArg: ConstructedOperation) => string;
  * @returns {string} Forged operation bytes
  */
 export declare const seedNonceRevelation: (opArg: ConstructedOperation) => string;
+/**
+ * @description Forge inlined endorsement bytes, prefixed with their length
+ * @param {Object} inlined The inlined endorsement
+ * @returns {string} Forged inlined endorsement bytes
+ */
+export declare const inlinedEndorsement: (inlined: InlinedEndorsement) => string;
+/**
+ * @description Forge block header bytes, prefixed with their length
+ * @param {Object} header The block header
+ * @returns {string} Forged block header bytes
+ */
+export declare const blockHeader: (header: BlockHeader) => string;
+/**
+ * @description Forge endorsement_with_slot operation bytes
+ * @param {Object} opArg Operation to forge
+ * @returns {string} Forged operation bytes
+ */
+export declare const endorsementWithSlot: (opArg: ConstructedOperation) => string;
 /**
  * @description Forge double_endorsement_evidence operation bytes
+ * @param {Object} opArg Operation to forge
+ * @param {string} protocol Current protocol
  * @returns {string} Forged operation bytes
  */
-export declare const doubleEndorsementEvidence: () => string;
+export declare const doubleEndorsementEvidence: (opArg: ConstructedOperation, protocol: string) => string;
 /**
  * @description Forge double_baking_evidence operation bytes
+ * @param {Object} opArg Operation to forge
  * @returns {string} Forged operation bytes
  */
-export declare const doubleBakingEvidence: () => string;
+export declare const doubleBakingEvidence: (opArg: ConstructedOperation) => string;
 /**
  * @description Forge activate_account operation bytes
  * @param {Object} opArg Operation to forge
@@ -193,9 +144,10 @@ export declare const doubleBakingEvidence: () => string;
 export declare const activateAccount: (opArg: ConstructedOperation) => string;
 /**
  * @description Forge proposals operation bytes
+ * @param {Object} opArg Operation to forge
  * @returns {string} Forged operation bytes
  */
-export declare const proposals: () => string;
+export declare const proposals: (opArg: ConstructedOperation) => string;
 /**
  * @description Forge ballot operation bytes
  * @param {Object} opArg Operation to forge
@@ -228,6 +180,42 @@ export declare const origination: (opArg: ConstructedOperation, protocol: string
  * @returns {string} Forged operation bytes
  */
 export declare const delegation: (opArg: ConstructedOperation) => string;
+/**
+ * @description Forge register_global_constant operation bytes
+ * @param {Object} opArg Operation to forge
+ * @returns {string} Forged operation bytes
+ */
+export declare const registerGlobalConstant: (opArg: ConstructedOperation) => string;
+/**
+ * @description Forge set_deposits_limit operation bytes
+ * @param {Object} opArg Operation to forge
+ * @returns {string} Forged operation bytes
+ */
+export declare const setDepositsLimit: (opArg: ConstructedOperation) => string;
+/**
+ * @description Forge increase_paid_storage operation bytes
+ * @param {Object} opArg Operation to forge
+ * @returns {string} Forged operation bytes
+ */
+export declare const increasePaidStorage: (opArg: ConstructedOperation) => string;
+/**
+ * @description Forge transfer_ticket operation bytes
+ * @param {Object} opArg Operation to forge
+ * @returns {string} Forged operation bytes
+ */
+export declare const transferTicket: (opArg: ConstructedOperation) => string;
+/**
+ * @description Forge update_consensus_key operation bytes
+ * @param {Object} opArg Operation to forge
+ * @returns {string} Forged operation bytes
+ */
+export declare const updateConsensusKey: (opArg: ConstructedOperation) => string;
+/**
+ * @description Forge drain_delegate operation bytes
+ * @param {Object} opArg Operation to forge
+ * @returns {string} Forged operation bytes
+ */
+export declare const drainDelegate: (opArg: ConstructedOperation) => string;
 /**
  * @description Forge operation bytes
  * @param {Object} opOb The operation object(s)
@@ -251,38 +239,47 @@ export declare const delegation: (opArg: ConstructedOperation) => string;
  */
 export declare const forge: (opOb: OperationObject, counter: number, protocol: string) => Promise<ForgedBytes>;
 /**
- * @description Decode raw bytes
- * @param {string} bytes The bytes to decode
- * @returns {Object} Decoded raw bytes
- */
-export declare const decodeRawBytes: (bytes: string) => Micheline;
-/**
- * @description Encode raw bytes
- * @param {Object} input The value to encode
- * @returns {string} Encoded value as bytes
+ * @description Decode forged operation bytes back to an operation object. A trailing signature
+ *   is decoded when the bytes left after the contents are not an operation.
+ * @param {string} bytes The forged bytes, optionally followed by a signature
+ * @param {string} protocol The protocol the bytes were forged for
+ * @returns {Object} The operation object
+ * @example
+ * const { branch, contents, signature } = unforge(opbytes, protocols['009']);
  */
-export declare const encodeRawBytes: (input: Micheline) => string;
+export declare const unforge: (bytes: string, protocol: string) => OperationObject;
 declare const _default: {
     address: (addressArg: string) => string;
+    unforge: (bytes: string, protocol: string) => OperationObject;
     decodeRawBytes: (bytes: string) => Micheline;
     encodeRawBytes: (input: Micheline) => string;
     forge: (opOb: OperationObject, counter: number, protocol: string) => Promise<ForgedBytes>;
     op: (opArg: ConstructedOperation, protocol: string) => string;
     endorsement: (opArg: ConstructedOperation) => string;
+    endorsementWithSlot: (opArg: ConstructedOperation) => string;
+    inlinedEndorsement: (inlined: InlinedEndorsement) => string;
+    blockHeader: (header: BlockHeader) => string;
     seedNonceRevelation: (opArg: ConstructedOperation) => string;
-    doubleEndorsementEvidence: () => string;
-    doubleBakingEvidence: () => string;
+    doubleEndorsementEvidence: (opArg: ConstructedOperation, protocol: string) => string;
+    doubleBakingEvidence: (opArg: ConstructedOperation) => string;
     activateAccount: (opArg: ConstructedOperation) => string;
-    proposals: () => string;
+    proposals: (opArg: ConstructedOperation) => string;
     ballot: (opArg: ConstructedOperation) => string;
     reveal: (opArg: ConstructedOperation) => string;
     transaction: (opArg: ConstructedOperation, protocol: string) => string;
     origination: (opArg: ConstructedOperation, protocol: string) => string;
     delegation: (opArg: ConstructedOperation) => string;
+    registerGlobalConstant: (opArg: ConstructedOperation) => string;
+    setDepositsLimit: (opArg: ConstructedOperation) => string;
+    increasePaidStorage: (opArg: ConstructedOperation) => string;
+    transferTicket: (opArg: ConstructedOperation) => string;
+    updateConsensusKey: (opArg: ConstructedOperation) => string;
+    drainDelegate: (opArg: ConstructedOperation) => string;
     parameters: (parameter: any, protocol: string) => string;
     publicKey: (pk: string) => string;
     publicKeyHash: (pkh: string) => string;
     zarith: (n: string) => string;
+    signedZarith: (n: string) => string;
     bool: (boolArg: boolean) => string;
     script: (scriptArg: {
         code: Micheline;
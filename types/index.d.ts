@@ -1,8 +1,41 @@
 export { Sotez } from './sotez';
 export { Key } from './key';
+export { FetchTransport } from './transport';
+export type { Transport, TransportRequest, TransportResponse, } from './transport';
+export { ProviderPool } from './providerPool';
+export type { PoolStrategy, ProviderNode, ProviderPoolOptions, } from './providerPool';
+export { Subscription, ndjsonParser } from './monitor';
+export type { MonitorOptions } from './monitor';
+export type { MempoolClassification, MempoolFilter, MempoolOperationContent, PendingOperation, PendingOperations, } from './mempool';
+export { ConsoleLogger, silentLogger, redact } from './logger';
+export type { Logger, LogFields, LogLevel } from './logger';
+export { composeMiddleware } from './middleware';
+export type { Middleware, MiddlewareNext, MiddlewareRequest, } from './middleware';
+export { RecordingTransport, ReplayTransport, fixturePath, normalizeBody, } from './replay';
+export type { Fixture } from './replay';
+export { signEnvelope, validateEnvelope, ENVELOPE_VERSION } from './envelope';
+export type { UnsignedEnvelope, SignedEnvelope } from './envelope';
+export { DEFAULT_FEE_PARAMETERS, minimalFee, estimateFee, operationFee, parseFeeParameters, feeStrategyName, } from './fees';
+export type { FeeParameters, FeeStrategy, FeeCallback, FeeEstimate, FeeBreakdown, OperationFee, } from './fees';
+export { MockNode } from './mockNode';
+export type { MockAccount, MockNodeOptions } from './mockNode';
+export { registerProtocol, getProtocol, isKnownProtocol } from './protocols';
+export type { ProtocolDefinition } from './protocols';
+export { LRUCache } from './cache';
+export type { Cache, CacheOptions } from './cache';
+export { CounterManager, MemoryCounterStore } from './counters';
+export type { CounterStore } from './counters';
+export { parseReceipt, parseOperationReceipt, parseOperationResult, parseBalanceUpdate, parseBigMapDiff, } from './receipts';
+export type { Receipt, OperationReceipt, OperationResult, InternalOperationReceipt, OperationStatus, BalanceUpdate, BigMapDiff, } from './receipts';
+export { OperationQueue, MemoryQueueStore } from './queue';
+export type { JobState, QueueJob, QueueStore, OperationQueueOptions, } from './queue';
+export { resolveBlock } from './tez-core';
+export type { BlockOptions, QueryOptions, RetryOptions } from './tez-core';
+export { SotezError, RequestAbortedError, RequestTimeoutError, TransportError, RpcError, TezosRpcError, CounterInThePastError, CounterInTheFutureError, BalanceTooLowError, ScriptRejectedError, GasExhaustedError, UnrevealedKeyError, UnrecordedRequestError, InvalidEnvelopeError, EnvelopeExpiredError, InvalidSignatureError, FeeCapExceededError, parseRpcError, shortErrorId, } from './errors';
+export type { RpcErrorObject } from './errors';
 export { default as cryptoUtils, extractKeys, generateKeys, checkAddress, generateMnemonic, sign, verify, } from './cryptoUtils';
-export { address, decodeRawBytes, encodeRawBytes, forge, op, endorsement, seedNonceRevelation, doubleEndorsementEvidence, doubleBakingEvidence, activateAccount, proposals, ballot, reveal, transaction, origination, delegation, parameters, publicKey, publicKeyHash, zarith, bool, script, toBytesInt32, toBytesInt32Hex, } from './forge';
-export { default as utility, textEncode, textDecode, b582int, totez, mutez, b58cencode, b58cdecode, buf2hex, hex2buf, hexNonce, mergebuf, sexp2mic, mic2arr, ml2mic, ml2tzjson, tzjson2arr, mlraw2json, mintotz, tztomin, } from './utility';
+export { address, decodeRawBytes, encodeRawBytes, forge, unforge, op, endorsement, endorsementWithSlot, inlinedEndorsement, blockHeader, seedNonceRevelation, doubleEndorsementEvidence, doubleBakingEvidence, activateAccount, proposals, ballot, reveal, transaction, origination, delegation, registerGlobalConstant, setDepositsLimit, increasePaidStorage, transferTicket, updateConsensusKey, drainDelegate, parameters, publicKey, publicKeyHash, zarith, signedZarith, bool, script, toBytesInt32, toBytesInt32Hex, } from './forge';
+export { default as utility, textEncode, textDecode, b582int, totez, mutez, b58cencode, b58cdecode, buf2hex, hex2buf, hexNonce, mergebuf, operationHash, sexp2mic, mic2arr, ml2mic, ml2tzjson, tzjson2arr, mlraw2json, mintotz, tztomin, } from './utility';
 export { default as ledger, getAddress, signOperation, getVersion, } from './ledger';
 export { default as constants, prefix, magicBytes, forgeMappings, protocols, } from './constants';
 export { MANAGER_LAMBDA } from './lambdas';
@@ -0,0 +1,43 @@
+export declare type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export interface LogFields {
+    [key: string]: any;
+}
+/**
+ * @description The interface of the loggers receiving the activity of Sotez. Any implementation
+ *   (pino, winston, a JSON log pipeline) can be provided through the `logger` module option.
+ *   The fields are redacted before being passed to the logger.
+ */
+export interface Logger {
+    debug: (message: string, fields?: LogFields) => void;
+    info: (message: string, fields?: LogFields) => void;
+    warn: (message: string, fields?: LogFields) => void;
+    error: (message: string, fields?: LogFields) => void;
+}
+export declare const REDACTED = "[REDACTED]";
+/**
+ * @description Redacts the secret material and signed bytes of log fields
+ * @param {*} value The log fields, or any value within
+ * @returns {*} A copy of the value with the sensitive fields replaced
+ */
+export declare const redact: (value: any) => any;
+/**
+ * @description A logger printing to the console, used when `debugMode` is enabled
+ * @param {string} [level='debug'] The minimum level to print
+ * @example
+ * const tezos = new Sotez('https://127.0.0.1:8732', 'main', {
+ *   logger: new ConsoleLogger('info'),
+ * });
+ */
+export declare class ConsoleLogger implements Logger {
+    level: LogLevel;
+    constructor(level?: LogLevel);
+    debug: (message: string, fields?: LogFields | undefined) => void;
+    info: (message: string, fields?: LogFields | undefined) => void;
+    warn: (message: string, fields?: LogFields | undefined) => void;
+    error: (message: string, fields?: LogFields | undefined) => void;
+    private _log;
+}
+/**
+ * @description A logger discarding every message, used by default
+ */
+export declare const silentLogger: Logger;
@@ -0,0 +1,55 @@
+import { RpcErrorObject, TezosRpcError, RpcError } from './errors';
+export declare type MempoolClassification = 'applied' | 'refused' | 'outdated' | 'branch_refused' | 'branch_delayed' | 'unprocessed';
+export interface MempoolOperationContent {
+    kind: string;
+    source?: string;
+    destination?: string;
+    fee?: string;
+    counter?: string;
+    gas_limit?: string;
+    storage_limit?: string;
+    amount?: string;
+    [key: string]: any;
+}
+export interface PendingOperation {
+    hash: string;
+    classification: MempoolClassification;
+    protocol?: string;
+    branch: string;
+    contents: MempoolOperationContent[];
+    signature?: string;
+    error?: RpcErrorObject[];
+    reason?: TezosRpcError | RpcError;
+}
+export declare type PendingOperations = {
+    [classification in MempoolClassification]: PendingOperation[];
+};
+export interface MempoolFilter {
+    source?: string;
+    destination?: string;
+    hash?: string;
+    classifications?: MempoolClassification[];
+}
+export declare const MEMPOOL_CLASSIFICATIONS: MempoolClassification[];
+export declare const MONITORED_CLASSIFICATIONS: MempoolClassification[];
+/**
+ * @description Normalizes an operation returned by the mempool rpcs, either as an object or as
+ *   a [hash, operation] tuple
+ * @param {Object|Array} entry The operation returned by the node
+ * @param {string} classification The classification of the operation in the mempool
+ * @returns {Object} The pending operation, with the parsed error for non applied operations
+ */
+export declare const toPendingOperation: (entry: any, classification: MempoolClassification) => PendingOperation;
+/**
+ * @description Whether a pending operation matches a filter
+ * @param {Object} operation The pending operation
+ * @param {Object} [filter] The source, destination or hash to match
+ * @returns {boolean} Whether the operation matches every criteria of the filter
+ */
+export declare const matchesMempoolFilter: (operation: PendingOperation, filter?: MempoolFilter) => boolean;
+/**
+ * @description Builds the query of the mempool monitor streaming a single classification
+ * @param {string} classification The classification to stream
+ * @returns {string} The query string
+ */
+export declare const monitorOperationsQuery: (classification: MempoolClassification) => string;
@@ -0,0 +1,102 @@
+import { Transport, TransportRequest, TransportResponse } from './transport';
+export interface MockAccount {
+    balance: string;
+    counter: number;
+    manager?: string;
+    delegate?: string;
+    script?: {
+        code: any[];
+        storage: any;
+    };
+}
+export interface MockNodeOptions {
+    chain?: string;
+    chainId?: string;
+    protocol?: string;
+    accounts?: {
+        [address: string]: Partial<Omit<MockAccount, 'balance'>> & {
+            balance: number | string;
+        };
+    };
+    bigMaps?: {
+        [id: string]: {
+            [expr: string]: any;
+        };
+    };
+    autoBake?: boolean;
+}
+interface MockOperation {
+    hash: string;
+    protocol: string;
+    chain_id: string;
+    branch: string;
+    contents: any[];
+    signature?: string;
+}
+interface MockBlock {
+    hash: string;
+    level: number;
+    predecessor: string;
+    timestamp: string;
+    operations: MockOperation[][];
+}
+/**
+ * @description An in-process stand-in for a Tezos node, implemented as a transport. It serves the
+ *   rpcs used by Sotez from an in-memory ledger: manager operations change the balances, counters,
+ *   keys and delegates of the accounts, and injected operations are baked into new blocks.
+ *   Signatures are not verified and contract code is not executed.
+ * @param {Object} [options] The mock node options
+ * @param {Object} [options.accounts] The initial accounts, by address
+ * @param {Object} [options.bigMaps] The values of the big maps, by id and script expression hash
+ * @param {boolean} [options.autoBake=true] Bake a new block as soon as an operation is injected
+ * @example
+ * const node = new MockNode({
+ *   accounts: { tz1...: { balance: 1000000000 } },
+ * });
+ * const tezos = new Sotez('http://mock', 'main', { transport: node });
+ */
+export declare class MockNode implements Transport {
+    chain: string;
+    chainId: string;
+    protocol: string;
+    autoBake: boolean;
+    accounts: {
+        [address: string]: MockAccount;
+    };
+    bigMaps: {
+        [id: string]: {
+            [expr: string]: any;
+        };
+    };
+    blocks: MockBlock[];
+    mempool: MockOperation[];
+    private _headListeners;
+    constructor({ chain, chainId, protocol, accounts, bigMaps, autoBake, }?: MockNodeOptions);
+    get head(): MockBlock;
+    /**
+     * @description Bakes the operations of the mempool into a new block
+     * @returns {Object} The new block
+     */
+    bake: () => MockBlock;
+    request: ({ url, method, body, }: TransportRequest) => Promise<TransportResponse>;
+    stream: ({ url, signal }: TransportRequest, onChunk: (chunk: string) => void) => Promise<TransportResponse>;
+    private _route;
+    private _resource;
+    private _contract;
+    private _helper;
+    private _inject;
+    /**
+     * @description Applies manager operations to a copy of the accounts
+     * @param {Array} operations The contents of an operation
+     * @param {Object} accounts The accounts to apply the operations to
+     * @param {boolean} [strict=false] Throw the errors of failed operations
+     * @returns {Object} The contents with their receipts, and the new state of the accounts
+     */
+    private _apply;
+    private _block;
+    private _addBlock;
+    private _header;
+    private _metadata;
+    private _fullBlock;
+}
+export {};
@@ -0,0 +1,46 @@
+export interface MonitorOptions {
+    reconnectDelay?: number;
+}
+declare type SubscriptionEvent = 'data' | 'error' | 'close';
+declare type Listener = (value?: any) => void;
+/**
+ * @description Splits a stream of chunks into newline-delimited JSON values
+ * @param {Function} onValue Called with each parsed value
+ * @returns {Function} The function to call with each chunk of the stream
+ */
+export declare const ndjsonParser: (onValue: (value: any) => void) => (chunk: string) => void;
+/**
+ * @description A subscription to a stream of values, which reconnects automatically until closed,
+ *   whether the stream fails (emitting the error) or ends. Values sent again by the node after
+ *   reconnecting are emitted again.
+ * @class Subscription
+ * @param {Function} connect Opens the stream, calling `onValue` with each value, and resolves
+ *   once the stream ends
+ * @param {Object} [options] The monitor options
+ * @param {number} [options.reconnectDelay=1000] The delay before reconnecting (in ms)
+ * @example
+ * const subscription = sotez.monitorHeads();
+ * subscription.on('data', (head) => console.log(head.level));
+ * subscription.on('error', (e) => console.error(e));
+ * // Later
+ * subscription.close();
+ */
+export declare class Subscription<T> {
+    private connect;
+    private _listeners;
+    private _controller;
+    private _reconnectHandle?;
+    private _closed;
+    private _reconnectDelay;
+    constructor(connect: (onValue: (value: T) => void, signal?: AbortSignal) => Promise<void>, { reconnectDelay }?: MonitorOptions);
+    get closed(): boolean;
+    on: (event: SubscriptionEvent, listener: Listener) => Subscription<T>;
+    off: (event: SubscriptionEvent, listener: Listener) => Subscription<T>;
+    /**
+     * @description Closes the stream and stops reconnecting
+     */
+    close: () => void;
+    private _emit;
+    private _open;
+}
+export {};
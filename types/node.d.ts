@@ -0,0 +1,37 @@
+import { Fixture } from './replay';
+import { QueueJob, QueueStore } from './queue';
+/**
+ * @description Writes recorded fixtures to a JSON file
+ * @param {string} file The path of the file
+ * @param {Array} fixtures The fixtures, ie. of a `RecordingTransport`
+ * @example
+ * saveFixtures('./fixtures/transfer.json', recorder.fixtures);
+ */
+export declare const saveFixtures: (file: string, fixtures: Fixture[]) => void;
+/**
+ * @description Reads the fixtures of a JSON file, to be served by a `ReplayTransport`
+ * @param {string} file The path of the file
+ * @returns {Array} The fixtures
+ * @example
+ * const transport = new ReplayTransport(loadFixtures('./fixtures/transfer.json'));
+ */
+export declare const loadFixtures: (file: string) => Fixture[];
+/**
+ * @description A queue store appending every change of a job as a line of JSON to a file. The
+ *   last line of a job holds its state. A line cut short when the process stopped is ignored.
+ * @param {string} file The path of the file
+ * @example
+ * const queue = new OperationQueue(tezos, {
+ *   store: new JsonFileQueueStore('./payouts.jsonl'),
+ * });
+ */
+export declare class JsonFileQueueStore implements QueueStore {
+    file: string;
+    constructor(file: string);
+    load: () => QueueJob[];
+    save: (job: QueueJob) => void;
+    /**
+     * @description Rewrites the file with the last state of each job
+     */
+    compact: () => void;
+}
@@ -0,0 +1,95 @@
+import { BytesReader, Micheline } from './encoding';
+interface ConstructedOperation {
+    kind: string;
+    level: number;
+    nonce: string;
+    pkh: string;
+    hash: string;
+    secret: string;
+    source: string;
+    period: number;
+    proposal: string;
+    ballot: string;
+    fee: string;
+    counter: string;
+    gas_limit: string;
+    storage_limit: string;
+    parameters: string;
+    balance: string;
+    spendable: boolean;
+    delegatable: boolean;
+    delegate: string;
+    amount: string;
+    destination: string;
+    public_key: string;
+    script: {
+        code: Micheline;
+        storage: Micheline;
+    };
+    manager_pubkey: string;
+    managerPubkey: string;
+}
+/**
+ * @description Everything that differs between protocols when constructing and forging operations
+ * @example
+ * registerProtocol({
+ *   ...getProtocol(protocols['015']),
+ *   hash: 'PtNextProtocolHash...',
+ *   version: '016',
+ * });
+ */
+export interface ProtocolDefinition {
+    /** The protocol hash */
+    hash: string;
+    /** The protocol number, as used in the ids of its errors */
+    version: string;
+    /** The tags of the operation kinds */
+    opTags: {
+        [kind: string]: number;
+    };
+    codecs: {
+        /** Forges and decodes the parameters of a transaction */
+        parameters: {
+            forge: (parameters: any) => string;
+            unforge: (reader: BytesReader) => any;
+        };
+        /** Forges and decodes the fields of an origination following its manager fields */
+        origination: {
+            forge: (op: ConstructedOperation, forgedOp: string[]) => string;
+            unforge: (reader: BytesReader) => Partial<ConstructedOperation>;
+        };
+    };
+    /** Extracts the public key from a `manager_key` response */
+    managerKey: (manager: any) => string | null;
+    /** Removes the fields of an operation the protocol does not accept */
+    conformOperation: <T extends {
+        kind: string;
+    }>(op: T) => T;
+}
+/**
+ * @description Registers the definition of a protocol, replacing any definition with the same
+ *   hash. The protocol registered last is used for unknown protocols.
+ * @param {Object} definition The protocol definition
+ * @example
+ * registerProtocol({
+ *   ...getProtocol(protocols['015']),
+ *   hash: 'PtNextProtocolHash...',
+ *   version: '016',
+ *   opTags: { ...getProtocol(protocols['015']).opTags, smart_rollup_originate: 200 },
+ * });
+ */
+export declare const registerProtocol: (definition: ProtocolDefinition) => void;
+/**
+ * @description Finds the definition of a protocol. Unknown protocols are assumed to be newer than
+ *   the registered ones and fall back to the latest definition.
+ * @param {string} protocol The protocol hash
+ * @returns {Object} The protocol definition
+ */
+export declare const getProtocol: (protocol: string) => ProtocolDefinition;
+/**
+ * @description Checks whether a definition is registered for a protocol
+ * @param {string} protocol The protocol hash
+ * @returns {boolean} Whether the protocol is known
+ */
+export declare const isKnownProtocol: (protocol: string) => boolean;
+export {};
@@ -0,0 +1,59 @@
+export declare type PoolStrategy = 'priority' | 'round-robin';
+export interface ProviderPoolOptions {
+    strategy?: PoolStrategy;
+    cooldown?: number;
+    healthCheckInterval?: number;
+    broadcastInjection?: boolean;
+}
+export interface ProviderNode {
+    url: string;
+    healthy: boolean;
+    unhealthySince?: number;
+    lastError?: any;
+}
+/**
+ * @description Keeps track of a list of node providers and their health. Providers are listed in
+ *   order of priority.
+ * @class ProviderPool
+ * @param {string | Array} providers The provider or list of providers
+ * @param {Object} [options] The pool options
+ * @param {string} [options.strategy='priority'] Either 'priority' or 'round-robin'
+ * @param {number} [options.cooldown=30000] The time (in ms) before an unhealthy provider is used again
+ * @param {number} [options.healthCheckInterval=0] The interval (in ms) between health checks, disabled when 0
+ * @param {boolean} [options.broadcastInjection=false] Whether to inject operations through every healthy provider
+ * @example
+ * const pool = new ProviderPool(['https://node1:8732', 'https://node2:8732'], {
+ *   strategy: 'round-robin',
+ * });
+ */
+export declare class ProviderPool {
+    _nodes: ProviderNode[];
+    _options: Required<ProviderPoolOptions>;
+    _next: number;
+    constructor(providers: string | string[], options?: ProviderPoolOptions);
+    get nodes(): ProviderNode[];
+    get providers(): string[];
+    get options(): Required<ProviderPoolOptions>;
+    /**
+     * @description Returns the healthy providers, in order of priority
+     * @returns {Array} The healthy providers
+     */
+    healthy: () => string[];
+    /**
+     * @description Returns the providers in the order they should be tried for the next request.
+     *   Unhealthy providers are kept as a last resort.
+     * @returns {Array} The ordered providers
+     */
+    candidates: () => string[];
+    /**
+     * @description Marks a provider as healthy
+     * @param {string} url The provider
+     */
+    markHealthy: (url: string) => void;
+    /**
+     * @description Marks a provider as unhealthy
+     * @param {string} url The provider
+     * @param {*} [error] The error which caused the provider to be marked as unhealthy
+     */
+    markUnhealthy: (url: string, error?: any) => void;
+}
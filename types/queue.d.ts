@@ -0,0 +1,139 @@
+import { Sotez } from './sotez';
+/**
+ * @description The states of a job of an operation queue:
+ *   - `pending`: waiting to be sent
+ *   - `forged`: forged, but not signed yet
+ *   - `signed`: signed, with its hash, and about to be injected
+ *   - `injected`: accepted by the node, waiting to be included
+ *   - `included`: included in a block
+ *   - `failed`: rejected by the node
+ */
+export declare type JobState = 'pending' | 'forged' | 'signed' | 'injected' | 'included' | 'failed';
+export interface QueueJob {
+    id: string;
+    state: JobState;
+    /** The operation, or the batch of operations, as given to `sendOperation` */
+    operation: any;
+    source?: string;
+    /** The hash of the signed operation */
+    hash?: string;
+    /** The signed operation bytes, injected again on resume when the operation was not seen */
+    sopbytes?: string;
+    /** The hash of the block the operation is branched on */
+    branch?: string;
+    /** The block and the level the operation was included at */
+    block?: string;
+    level?: number;
+    /** The reason of the failure */
+    error?: string;
+    updatedAt: number;
+}
+/**
+ * @description The interface of the stores persisting the jobs of an operation queue. `save` is
+ *   called with a copy of a job on every change of its state, and must persist it before
+ *   resolving so that a job is never signed without its state being saved first.
+ */
+export interface QueueStore {
+    load: () => QueueJob[] | Promise<QueueJob[]>;
+    save: (job: QueueJob) => void | Promise<void>;
+}
+export interface OperationQueueOptions {
+    store?: QueueStore;
+    interval?: number;
+    timeout?: number;
+}
+/**
+ * @description A queue store keeping the jobs in memory, which do not survive a restart
+ */
+export declare class MemoryQueueStore implements QueueStore {
+    private jobs;
+    private order;
+    load: () => QueueJob[];
+    save: (job: QueueJob) => void;
+}
+/**
+ * @description A queue of operations persisting the state of each operation, so that a process
+ *   stopped midway can resume without sending any operation twice. The hash and the signed bytes
+ *   of an operation are saved before it is injected: on resume, an operation which was signed is
+ *   looked for in the blocks of its branch and in the mempool, injected again with the same bytes
+ *   while its branch is valid, and only sent again once its branch has expired without it being
+ *   included.
+ * @param {Object} tezos The Sotez instance sending the operations
+ * @param {Object} [options] The options
+ * @param {Object} [options.store] The store of the jobs (an in-memory store by default)
+ * @param {number} [options.interval=10] The interval to check for the inclusion of operations (in seconds)
+ * @param {number} [options.timeout=180] The time to wait for the inclusion of an operation (in seconds)
+ * @example
+ * const queue = new OperationQueue(tezos, {
+ *   store: new JsonFileQueueStore('./payouts.jsonl'),
+ * });
+ * await Promise.all(
+ *   payouts.map(({ id, to, amount }) =>
+ *     queue.add({ kind: 'transaction', destination: to, amount }, { id }),
+ *   ),
+ * );
+ * await queue.process();
+ * await queue.confirm();
+ */
+export declare class OperationQueue {
+    tezos: Sotez;
+    store: QueueStore;
+    interval: number;
+    timeout: number;
+    private _jobs;
+    private _loaded?;
+    constructor(tezos: Sotez, { store, interval, timeout }?: OperationQueueOptions);
+    get jobs(): QueueJob[];
+    /**
+     * @description Loads the jobs of the store, once
+     * @returns {Promise} Resolves once the jobs are loaded
+     */
+    load: () => Promise<void>;
+    /**
+     * @description Adds an operation to the queue. Adding a job with the id of a job already in the
+     *   queue, ie. when a stopped process adds its operations again, returns the existing job.
+     * @param {Object|Array} operation The operation, or the batch of operations, to send
+     * @param {Object} [options] The options
+     * @param {string} [options.id] The id of the job
+     * @param {string} [options.source] The source address of the operation
+     * @returns {Promise} The job
+     */
+    add: (operation: any, { id, source }?: {
+        id?: string | undefined;
+        source?: string | undefined;
+    }) => Promise<QueueJob>;
+    /**
+     * @description Settles the jobs left forged, signed or injected by a stopped process, by looking
+     *   for their operations in the chain. Jobs whose branch is unknown to the node are left as they are.
+     * @param {Object} [options] The options
+     * @param {AbortSignal} [options.signal] A signal used to abort the checks
+     * @returns {Promise} The jobs
+     */
+    resume: ({ signal }?: {
+        signal?: AbortSignal | undefined;
+    }) => Promise<QueueJob[]>;
+    /**
+     * @description Sends the pending jobs one at a time, in the order they were added, after
+     *   settling the jobs left by a stopped process
+     * @param {Object} [options] The options
+     * @param {AbortSignal} [options.signal] A signal used to stop sending jobs
+     * @returns {Promise} The jobs
+     */
+    process: ({ signal }?: {
+        signal?: AbortSignal | undefined;
+    }) => Promise<QueueJob[]>;
+    /**
+     * @description Waits for the inclusion of the injected jobs. Jobs which are not included before
+     *   the timeout stay injected.
+     * @param {Object} [options] The options
+     * @param {AbortSignal} [options.signal] A signal used to stop waiting
+     * @returns {Promise} The jobs
+     */
+    confirm: ({ signal }?: {
+        signal?: AbortSignal | undefined;
+    }) => Promise<QueueJob[]>;
+    private _update;
+    private _awaitInclusion;
+    private _send;
+    private _reconcile;
+}
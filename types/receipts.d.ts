@@ -0,0 +1,120 @@
+import { RpcErrorObject } from './errors';
+export declare type OperationStatus = 'applied' | 'failed' | 'skipped' | 'backtracked';
+/**
+ * @description A change of balance. `kind` is `contract` for the balance of an account,
+ *   `freezer` for the deposits, rewards and fees frozen by a baker, and `accumulator`, `minted`,
+ *   `burned` or `commitment` for the other balances of recent protocols, `category` telling which
+ *   one (ie. `fees`, `block fees` or `storage fees`).
+ */
+export interface BalanceUpdate {
+    kind: string;
+    category?: string;
+    contract?: string;
+    delegate?: string;
+    cycle?: number;
+    level?: number;
+    /** The change of the balance, in mutez */
+    change: string;
+    origin?: string;
+}
+/**
+ * @description A change of a big map. `update` and `remove` change a key of `bigMap`, `copy`
+ *   copies `sourceBigMap` into `bigMap` and `alloc` allocates `bigMap`.
+ */
+export interface BigMapDiff {
+    action: 'update' | 'remove' | 'copy' | 'alloc';
+    bigMap?: string;
+    sourceBigMap?: string;
+    keyHash?: string;
+    key?: any;
+    value?: any;
+    keyType?: any;
+    valueType?: any;
+}
+export interface OperationResult {
+    status: OperationStatus;
+    consumedGas: string;
+    consumedMilligas: string;
+    storageSize: string;
+    /** The number of bytes of storage paid for by the operation */
+    paidStorageSizeDiff: string;
+    balanceUpdates: BalanceUpdate[];
+    originatedContracts: string[];
+    bigMapDiff: BigMapDiff[];
+    errors: RpcErrorObject[];
+}
+export interface InternalOperationReceipt extends OperationResult {
+    kind: string;
+    source: string;
+    nonce: number;
+    destination?: string;
+    amount?: string;
+    entrypoint?: string;
+    parameters?: any;
+}
+export interface OperationReceipt extends OperationResult {
+    kind: string;
+    source?: string;
+    destination?: string;
+    counter?: string;
+    /** The fee of the operation, in mutez */
+    fee: string;
+    /** The payment of the fee */
+    feeBalanceUpdates: BalanceUpdate[];
+    internalOperations: InternalOperationReceipt[];
+    /** The operation, as returned by the node */
+    operation: any;
+}
+/**
+ * @description The receipt of an operation, with the totals of its operations and of their
+ *   internal operations
+ */
+export interface Receipt {
+    hash?: string;
+    /** `applied` when every operation was applied, otherwise `failed` */
+    status: 'applied' | 'failed';
+    consumedGas: string;
+    consumedMilligas: string;
+    paidStorageSizeDiff: string;
+    fee: string;
+    originatedContracts: string[];
+    errors: RpcErrorObject[];
+    operations: OperationReceipt[];
+}
+/**
+ * @description Normalizes a balance update of any protocol
+ * @param {Object} update The balance update, as returned by the node
+ * @returns {Object} The balance update
+ */
+export declare const parseBalanceUpdate: (update: any) => BalanceUpdate;
+/**
+ * @description Normalizes the big map diffs of a result, given as a `big_map_diff` before Edo
+ *   and as a `lazy_storage_diff` since
+ * @param {Object} result The result of an operation
+ * @returns {Array} The big map diffs
+ */
+export declare const parseBigMapDiff: (result: any) => BigMapDiff[];
+/**
+ * @description Normalizes the result of an operation or of an internal operation. Gas is given
+ *   in gas units before Granada and in milligas since, both are returned.
+ * @param {Object} [result] The `operation_result` or the `result` of an internal operation
+ * @returns {Object} The result
+ */
+export declare const parseOperationResult: (result?: any) => OperationResult;
+/**
+ * @description Parses the receipt of an operation of a batch
+ * @param {Object} content The operation with its metadata, as returned by the node
+ * @returns {Object} The receipt of the operation
+ */
+export declare const parseOperationReceipt: (content: any) => OperationReceipt;
+/**
+ * @description Parses the receipt of an operation, from the contents of an injected, simulated or
+ *   included operation
+ * @param {Array} contents The operations with their metadata, as returned by the node
+ * @param {string} [hash] The hash of the operation
+ * @returns {Object} The receipt
+ * @example
+ * const { receipt } = await sotez.transfer({ to: 'tz1...', amount: 1000000 });
+ * console.log(receipt.status, receipt.consumedGas, receipt.operations[0].balanceUpdates);
+ */
+export declare const parseReceipt: (contents?: any[], hash?: string | undefined) => Receipt;
@@ -0,0 +1,67 @@
+import { Transport, TransportRequest, TransportResponse } from './transport';
+export interface Fixture {
+    method: string;
+    path: string;
+    body?: any;
+    response: {
+        ok: boolean;
+        status: number;
+        body: any;
+    };
+    chunks?: string[];
+}
+/**
+ * @description Strips the provider from the url of a request
+ * @param {string} url The url of the request
+ * @returns {string} The path of the request, with its query string
+ */
+export declare const fixturePath: (url: string) => string;
+/**
+ * @description Parses the body of a request, with its object keys sorted, so that equivalent
+ *   bodies are recorded and matched identically
+ * @param {string} [body] The body of the request
+ * @returns {*} The normalized body
+ */
+export declare const normalizeBody: (body?: string | undefined) => any;
+/**
+ * @description A transport recording every request and response pair sent through another
+ *   transport, to be served back by a `ReplayTransport`. The recorded `fixtures` can be saved as a
+ *   JSON fixture file with `saveFixtures` from `sotez/node`.
+ * @param {Object} [transport] The transport sending the requests (defaults to a `FetchTransport`)
+ * @example
+ * const recorder = new RecordingTransport();
+ * const tezos = new Sotez('https://127.0.0.1:8732', 'main', { transport: recorder });
+ * await tezos.transfer({ to: 'tz1...', amount: 1 });
+ * saveFixtures('./fixtures/transfer.json', recorder.fixtures);
+ */
+export declare class RecordingTransport implements Transport {
+    private transport;
+    fixtures: Fixture[];
+    constructor(transport?: Transport);
+    request: (request: TransportRequest) => Promise<TransportResponse>;
+    stream: (request: TransportRequest, onChunk: (chunk: string) => void) => Promise<TransportResponse>;
+}
+/**
+ * @description A transport serving recorded responses, matched on the method, the path and the
+ *   normalized body of the requests. Identical requests are served the recorded responses in
+ *   order, the last one being served again once all of them have been used. Streams are served
+ *   their recorded chunks and then stay open until aborted, or end when they have no signal.
+ * @param {Array} fixtures The recorded fixtures, ie. loaded with `loadFixtures` from `sotez/node`
+ * @example
+ * const tezos = new Sotez('https://127.0.0.1:8732', 'main', {
+ *   transport: new ReplayTransport(loadFixtures('./fixtures/transfer.json')),
+ * });
+ */
+export declare class ReplayTransport implements Transport {
+    fixtures: Fixture[];
+    private _served;
+    constructor(fixtures: Fixture[]);
+    /**
+     * @description The fixtures which have not been served yet
+     * @returns {Array} The unused fixtures
+     */
+    get unused(): Fixture[];
+    request: (request: TransportRequest) => Promise<TransportResponse>;
+    stream: (request: TransportRequest, onChunk: (chunk: string) => void) => Promise<TransportResponse>;
+    private _match;
+}
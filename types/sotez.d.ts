@@ -1,13 +1,56 @@
-import { AbstractTezModule } from './tez-core';
+import { AbstractTezModule, BlockOptions, QueryOptions, RetryOptions } from './tez-core';
+import { Transport } from './transport';
+import { ProviderPoolOptions } from './providerPool';
+import { CacheOptions } from './cache';
+import { MonitorOptions, Subscription } from './monitor';
+import { Logger } from './logger';
+import { Middleware } from './middleware';
+import { MempoolFilter, PendingOperation, PendingOperations } from './mempool';
 import { Key } from './key';
 import { Contract } from './contract';
+import { CounterManager, CounterStore } from './counters';
+import { Receipt } from './receipts';
+import { FeeBreakdown, FeeParameters, FeeStrategy } from './fees';
+import { SignedEnvelope, UnsignedEnvelope } from './envelope';
 interface ModuleOptions {
     defaultFee?: number;
+    feeMargin?: number;
+    feeStrategy?: FeeStrategy;
+    counterStore?: CounterStore;
     localForge?: boolean;
     validateLocalForge?: boolean;
     debugMode?: boolean;
     useMutez?: boolean;
     dryRunLimiter?: boolean;
+    transport?: Transport;
+    retry?: RetryOptions;
+    pool?: ProviderPoolOptions;
+    timeout?: number;
+    cache?: boolean | CacheOptions;
+    logger?: Logger;
+    middleware?: Middleware[];
+}
+interface InlinedEndorsement {
+    branch: string;
+    operations: {
+        kind: 'endorsement';
+        level: number;
+    };
+    signature?: string;
+}
+interface BlockHeader {
+    level: number;
+    proto: number;
+    predecessor: string;
+    timestamp: string;
+    validation_pass: number;
+    operations_hash: string;
+    fitness: string[];
+    context: string;
+    priority: number;
+    proof_of_work_nonce: string;
+    seed_nonce_hash?: string;
+    signature: string;
 }
 interface Operation {
     kind: string;
@@ -38,6 +81,22 @@ interface Operation {
     };
     manager_pubkey?: string;
     managerPubkey?: string;
+    proposals?: string[];
+    slot?: number;
+    endorsement?: InlinedEndorsement;
+    op1?: InlinedEndorsement;
+    op2?: InlinedEndorsement;
+    bh1?: BlockHeader;
+    bh2?: BlockHeader;
+    value?: Micheline;
+    limit?: number | string;
+    ticket_contents?: Micheline;
+    ticket_ty?: Micheline;
+    ticket_ticketer?: string;
+    ticket_amount?: number | string;
+    entrypoint?: string;
+    pk?: string;
+    consensus_key?: string;
 }
 interface Head {
     protocol: string;
@@ -63,6 +122,20 @@ interface Header {
     proof_of_work_nonce: string;
     signature: string;
 }
+interface Inclusion {
+    block: string;
+    level: number;
+    operation: any;
+    receipt: Receipt;
+    confirmations: number;
+}
+interface AwaitOperationOptions {
+    signal?: AbortSignal;
+    monitor?: boolean;
+    confirmations?: number;
+    fromLevel?: number;
+    onReorg?: (inclusion: Inclusion) => void;
+}
 interface Baker {
     balance: string;
     frozen_balance: string;
@@ -113,6 +186,22 @@ interface ConstructedOperation {
     };
     manager_pubkey: string;
     managerPubkey: string;
+    proposals: string[];
+    slot: number;
+    endorsement: InlinedEndorsement;
+    op1: InlinedEndorsement;
+    op2: InlinedEndorsement;
+    bh1: BlockHeader;
+    bh2: BlockHeader;
+    value: Micheline;
+    limit?: string;
+    ticket_contents: Micheline;
+    ticket_ty: Micheline;
+    ticket_ticketer: string;
+    ticket_amount: string;
+    entrypoint: string;
+    pk: string;
+    consensus_key: string;
 }
 declare type Micheline = {
     entrypoint: string;
@@ -172,6 +261,7 @@ interface RpcParams {
     amount: number;
     init?: string;
     fee?: number;
+    feeStrategy?: FeeStrategy;
     parameters?: string | Micheline;
     gasLimit?: number;
     storageLimit?: number;
@@ -186,16 +276,30 @@ interface AccountParams {
     delegatable?: boolean;
     delegate?: string;
     fee?: number;
+    feeStrategy?: FeeStrategy;
     gasLimit?: number;
     storageLimit?: number;
 }
 interface OperationParams {
     operation: Operation | Operation[];
     source?: string;
+    feeStrategy?: FeeStrategy;
+    signal?: AbortSignal;
     skipPrevalidation?: boolean;
     skipSignature?: boolean;
     skipCounter?: boolean;
     skipEstimate?: boolean;
+    onForged?: (forged: ForgedBytes) => void | Promise<void>;
+    onSigned?: (signed: SignedOperation) => void | Promise<void>;
+}
+interface SignedOperation {
+    hash: string;
+    sopbytes: string;
+    branch: string;
+}
+interface InjectSignedOptions {
+    skipPrevalidation?: boolean;
+    signal?: AbortSignal;
 }
 interface ContractParams {
     balance: number;
@@ -203,6 +307,7 @@ interface ContractParams {
     delegatable?: boolean;
     delegate?: string;
     fee?: number;
+    feeStrategy?: FeeStrategy;
     gasLimit?: number;
     init: string | Micheline;
     micheline?: boolean;
@@ -214,6 +319,7 @@ interface ForgedBytes {
     opOb: OperationObject;
     counter: number;
     chainId: string;
+    fees: FeeBreakdown;
 }
 /**
  * Main Sotez Library
@@ -231,19 +337,25 @@ export declare class Sotez extends AbstractTezModule {
     _localForge: boolean;
     _validateLocalForge: boolean;
     _defaultFee: number;
-    _counters: {
-        [key: string]: number;
-    };
+    _flatFee: boolean;
+    _feeMargin: number;
+    _feeStrategy: FeeStrategy;
+    _counterManager: CounterManager;
     _useMutez: boolean;
     _dryRunLimiter: boolean;
     key: Key;
-    constructor(provider?: string, chain?: string, options?: ModuleOptions);
+    constructor(provider?: string | string[], chain?: string, options?: ModuleOptions);
     get defaultFee(): number;
     set defaultFee(fee: number);
+    get feeMargin(): number;
+    set feeMargin(margin: number);
+    get feeStrategy(): FeeStrategy;
+    set feeStrategy(strategy: FeeStrategy);
     get localForge(): boolean;
     set localForge(value: boolean);
     get validateLocalForge(): boolean;
     set validateLocalForge(value: boolean);
+    get counterManager(): CounterManager;
     get counters(): {
         [key: string]: number;
     };
@@ -256,7 +368,6 @@ export declare class Sotez extends AbstractTezModule {
     set useMutez(t: boolean);
     get dryRunLimiter(): boolean;
     set dryRunLimiter(t: boolean);
-    setProvider(provider: string, chain?: string): void;
     /**
      * @description Import a secret key
      * @param {string} key The secret key
@@ -283,7 +394,8 @@ export declare class Sotez extends AbstractTezModule {
      * @param {boolean} [paramObject.spendable] Whether the keyholder can spend the balance from the new account
      * @param {boolean} [paramObject.delegatable] Whether the new account is delegatable
      * @param {string} [paramObject.delegate] The delegate for the new account
-     * @param {number} [paramObject.fee=1420] The fee to set for the transaction
+     * @param {number} [paramObject.fee] The fee to set for the transaction (computed from its size and gas limit by default)
+     * @param {string|Object|Function} [paramObject.feeStrategy] The fee strategy of the operation, overriding the one of the instance
      * @param {number} [paramObject.gasLimit=10600] The gas limit to set for the transaction
      * @param {number} [paramObject.storageLimit=257] The storage limit to set for the transaction
      * @returns {Promise} Object containing the injected operation hash
@@ -293,51 +405,71 @@ export declare class Sotez extends AbstractTezModule {
      *   spendable: true,
      *   delegatable: true,
      *   delegate: 'tz1fXdNLZ4jrkjtgJWMcfeNpFDK9mbCBsaV4',
-     * }).then(res => console.log(res.operations[0].metadata.operation_result.originated_contracts[0]));
+     * }).then(res => console.log(res.receipt.originatedContracts[0]));
      */
-    account: ({ balance, spendable, delegatable, delegate, fee, gasLimit, storageLimit, }: AccountParams) => Promise<any>;
+    account: ({ balance, spendable, delegatable, delegate, fee, feeStrategy, gasLimit, storageLimit, }: AccountParams) => Promise<any>;
     /**
      * @description Get the balance for a contract
      * @param {string} address The contract for which to retrieve the balance
+     * @param {Object} [options] The query options
+     * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
      * @returns {Promise} The balance of the contract
      * @example
      * sotez.getBalance('tz1fXdNLZ4jrkjtgJWMcfeNpFDK9mbCBsaV4')
      *   .then(balance => console.log(balance));
      */
-    getBalance: (address: string) => Promise<string>;
+    getBalance: (address: string, options?: BlockOptions) => Promise<string>;
     /**
      * @description Get the delegate for a contract
      * @param {string} address The contract for which to retrieve the delegate
+     * @param {Object} [options] The query options
+     * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
      * @returns {Promise} The delegate of a contract, if any
      * @example
      * sotez.getDelegate('tz1fXdNLZ4jrkjtgJWMcfeNpFDK9mbCBsaV4')
      *   .then(delegate => console.log(delegate));
      */
-    getDelegate: (address: string) => Promise<string>;
+    getDelegate: (address: string, options?: BlockOptions) => Promise<string>;
     /**
      * @description Get the manager for a contract
      * @param {string} address The contract for which to retrieve the manager
+     * @param {Object} [options] The query options
+     * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
      * @returns {Promise} The manager of a contract
      * @example
      * sotez.getManager('tz1fXdNLZ4jrkjtgJWMcfeNpFDK9mbCBsaV4')
      *   .then(({ manager, key }) => console.log(manager, key));
      */
-    getManager: (address: string) => Promise<{
+    getManager: (address: string, options?: BlockOptions) => Promise<{
         manager: string;
         key: string;
     }>;
     /**
      * @description Get the counter for an contract
      * @param {string} address The contract for which to retrieve the counter
+     * @param {Object} [options] The query options
+     * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
      * @returns {Promise} The counter of a contract, if any
      * @example
      * sotez.getCounter('tz1fXdNLZ4jrkjtgJWMcfeNpFDK9mbCBsaV4')
      *   .then(counter => console.log(counter));
      */
-    getCounter: (address: string) => Promise<string>;
+    getCounter: (address: string, options?: BlockOptions) => Promise<string>;
+    /**
+     * @description Get the minimal fee parameters of the mempool of the node. Nodes which do not
+     *   expose their mempool filter are assumed to use the default parameters.
+     * @param {Object} [options] The query options
+     * @returns {Promise} The base fee in mutez, and the prices of a byte and of a gas unit in nanotez
+     * @example
+     * sotez.getFeeParameters()
+     *   .then(({ minimalFees, nanotezPerByte, nanotezPerGasUnit }) => console.log(minimalFees));
+     */
+    getFeeParameters: (options?: QueryOptions) => Promise<FeeParameters>;
     /**
      * @description Get the baker information for an address
      * @param {string} address The contract for which to retrieve the baker information
+     * @param {Object} [options] The query options
+     * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
      * @returns {Promise} The information of the delegate address
      * @example
      * sotez.getBaker('tz1fXdNLZ4jrkjtgJWMcfeNpFDK9mbCBsaV4')
@@ -361,44 +493,56 @@ export declare class Sotez extends AbstractTezModule {
      *     grace_period,
      *   ));
      */
-    getBaker: (address: string) => Promise<Baker>;
+    getBaker: (address: string, options?: BlockOptions) => Promise<Baker>;
     /**
-     * @description Get the header of the current head
+     * @description Get the header of a block, the current head by default
+     * @param {Object} [options] The query options
+     * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
      * @returns {Promise} The whole block header
      * @example
      * sotez.getHeader().then(header => console.log(header));
      */
-    getHeader: () => Promise<Header>;
+    getHeader: (options?: BlockOptions) => Promise<Header>;
     /**
-     * @description Get the metadata of the current head
-     * @returns {Promise} The head block metadata
+     * @description Get the metadata of a block, the current head by default
+     * @param {Object} [options] The query options
+     * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
+     * @returns {Promise} The block metadata
      * @example
      * sotez.getHeadMetadata().then(metadata => console.log(metadata));
      */
-    getHeadMetadata: () => Promise<Header>;
+    getHeadMetadata: (options?: BlockOptions) => Promise<Header>;
     /**
-     * @description Get the current head block of the chain
-     * @returns {Promise} The current head block
+     * @description Get a block of the chain, the current head by default
+     * @param {Object} [options] The query options
+     * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
+     * @returns {Promise} The block
      * @example
      * sotez.getHead().then(head => console.log(head));
      */
-    getHead: () => Promise<Head>;
+    getHead: (options?: BlockOptions) => Promise<Head>;
     /**
-     * @description Get the current head block hash of the chain
+     * @description Get the hash of a block, the current head by default
+     * @param {Object} [options] The query options
+     * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
      * @returns {Promise} The block's hash, its unique identifier
      * @example
      * sotez.getHeadHash().then(headHash => console.log(headHash))
      */
-    getHeadHash: () => Promise<string>;
+    getHeadHash: (options?: BlockOptions) => Promise<string>;
     /**
      * @description Ballots casted so far during a voting period
+     * @param {Object} [options] The query options
+     * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
      * @returns {Promise} Ballots casted so far during a voting period
      * @example
      * sotez.getBallotList().then(ballotList => console.log(ballotList));
      */
-    getBallotList: () => Promise<any[]>;
+    getBallotList: (options?: BlockOptions) => Promise<any[]>;
     /**
      * @description List of proposals with number of supporters
+     * @param {Object} [options] The query options
+     * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
      * @returns {Promise} List of proposals with number of supporters
      * @example
      * sotez.getProposals().then(proposals => {
@@ -406,63 +550,141 @@ export declare class Sotez extends AbstractTezModule {
      *   console.log(proposals[1][0], proposals[1][1])
      * );
      */
-    getProposals: () => Promise<any[]>;
+    getProposals: (options?: BlockOptions) => Promise<any[]>;
     /**
      * @description Sum of ballots casted so far during a voting period
+     * @param {Object} [options] The query options
+     * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
      * @returns {Promise} Sum of ballots casted so far during a voting period
      * @example
      * sotez.getBallots().then(({ yay, nay, pass }) => console.log(yay, nay, pass));
      */
-    getBallots: () => Promise<{
+    getBallots: (options?: BlockOptions) => Promise<{
         yay: number;
         nay: number;
         pass: number;
     }>;
     /**
      * @description List of delegates with their voting weight, in number of rolls
+     * @param {Object} [options] The query options
+     * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
      * @returns {Promise} The ballots of the current voting period
      * @example
      * sotez.getListings().then(listings => console.log(listings));
      */
-    getListings: () => Promise<any[]>;
+    getListings: (options?: BlockOptions) => Promise<any[]>;
     /**
      * @description Current proposal under evaluation
+     * @param {Object} [options] The query options
+     * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
      * @returns {Promise} Current proposal under evaluation
      * @example
      * sotez.getCurrentProposal().then(currentProposal => console.log(currentProposal));
      */
-    getCurrentProposal: () => Promise<string>;
+    getCurrentProposal: (options?: BlockOptions) => Promise<string>;
     /**
      * @description Current period kind
+     * @param {Object} [options] The query options
+     * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
      * @returns {Promise} Current period kind
      * @example
      * sotez.getCurrentPeriod().then(currentPeriod => console.log(currentPeriod));
      */
-    getCurrentPeriod: () => Promise<any>;
+    getCurrentPeriod: (options?: BlockOptions) => Promise<string>;
     /**
      * @description Current expected quorum
+     * @param {Object} [options] The query options
+     * @param {string|number} [options.block='head'] The block to query, as a hash, a level, a relative reference (ie. 'head~10') or 'finalized'
      * @returns {Promise} Current expected quorum
      * @example
      * sotez.getCurrentQuorum().then(currentQuorum => console.log(currentQuorum));
      */
-    getCurrentQuorum: () => Promise<number>;
+    getCurrentQuorum: (options?: BlockOptions) => Promise<number>;
     /**
-     * @description Check for the inclusion of an operation in new blocks
+     * @description Subscribe to the new heads of the chain, as they are validated by the node
+     * @param {Object} [options] The monitor options
+     * @param {number} [options.reconnectDelay=1000] The delay before reconnecting (in ms)
+     * @returns {Object} A subscription emitting the header of each new head
+     * @example
+     * const subscription = sotez.monitorHeads();
+     * subscription.on('data', (head) => console.log(head.level, head.hash));
+     * // Later
+     * subscription.close();
+     */
+    monitorHeads: (options?: MonitorOptions) => Subscription<Header>;
+    /**
+     * @description Get the operations of the mempool of the node, grouped by classification
+     * @param {Object} [filter] The operations to include
+     * @param {string} [filter.source] Only include operations with a content from this source
+     * @param {string} [filter.destination] Only include operations with a content to this destination
+     * @param {string} [filter.hash] Only include the operation with this hash
+     * @param {Array} [filter.classifications] Only include operations with these classifications
+     * @param {Object} [options] The query options
+     * @returns {Promise} The pending operations, grouped as applied, refused, outdated,
+     *   branch_refused, branch_delayed and unprocessed
+     * @example
+     * sotez.getPendingOperations({ source: 'tz1fXdNLZ4jrkjtgJWMcfeNpFDK9mbCBsaV4' })
+     *   .then(({ applied, refused }) => {
+     *     applied.forEach(({ hash }) => console.log(hash));
+     *     refused.forEach(({ hash, reason }) => console.log(hash, reason.message));
+     *   });
+     */
+    getPendingOperations: (filter?: MempoolFilter, options?: QueryOptions) => Promise<PendingOperations>;
+    /**
+     * @description Subscribe to the operations entering the mempool of the node. The node ends the
+     *   stream at each new block, the current operations of the mempool are emitted again then.
+     * @param {Object} [filter] The operations to emit
+     * @param {string} [filter.source] Only emit operations with a content from this source
+     * @param {string} [filter.destination] Only emit operations with a content to this destination
+     * @param {string} [filter.hash] Only emit the operation with this hash
+     * @param {Array} [filter.classifications] The classifications to monitor (defaults to applied,
+     *   refused, branch_refused and branch_delayed)
+     * @param {Object} [options] The monitor options
+     * @param {number} [options.reconnectDelay=1000] The delay before reconnecting (in ms)
+     * @returns {Object} A subscription emitting each pending operation
+     * @example
+     * const { hash } = await sotez.silentInject(sopbytes);
+     * const subscription = sotez.monitorMempool({ hash });
+     * subscription.on('data', ({ classification, reason }) => {
+     *   console.log(classification, reason);
+     * });
+     */
+    monitorMempool: (filter?: MempoolFilter, options?: MonitorOptions) => Subscription<PendingOperation>;
+    /**
+     * @description Check for the inclusion of an operation in new blocks. Every block from the level
+     *   at which waiting began is scanned, and the including block is tracked until it reaches the
+     *   expected number of confirmations. When the including block is dropped from the chain, the
+     *   reorg is reported and the following blocks are scanned again. A check failing with a
+     *   timeout or a server error is tried again with the next head, any other failure rejects.
      * @param {string} hash The operation hash to check
      * @param {number} [interval=10] The interval to check new blocks (in seconds)
      * @param {number} [timeout=180] The time before the operation times out (in seconds)
-     * @returns {Promise} The hash of the block in which the operation was included
+     * @param {Object} [options] The options
+     * @param {AbortSignal} [options.signal] A signal used to stop waiting for the operation
+     * @param {boolean} [options.monitor=false] Subscribe to new heads instead of polling the
+     *   head every interval, `interval` is then ignored
+     * @param {number} [options.confirmations=1] The number of blocks, including the block of the
+     *   operation, required before resolving
+     * @param {number} [options.fromLevel] The level to start scanning from (defaults to the level of
+     *   the head when waiting begins)
+     * @param {Function} [options.onReorg] Called with the inclusion which was dropped from the chain
+     * @returns {Promise} The hash and level of the block in which the operation was included, the
+     *   operation with its receipt and the number of confirmations
      * @example
-     * sotez.awaitOperation('ooYf5iK6EdTx3XfBusgDqS6znACTq5469D1zQSDFNrs5KdTuUGi')
-     *  .then((hash) => console.log(hash));
+     * sotez.awaitOperation('ooYf5iK6EdTx3XfBusgDqS6znACTq5469D1zQSDFNrs5KdTuUGi', 10, 180, {
+     *   confirmations: 3,
+     *   onReorg: ({ block }) => console.log(`Block ${block} was dropped`),
+     * }).then(({ block, level, operation }) => console.log(block, level, operation));
      */
-    awaitOperation: (hash: string, interval?: number, timeout?: number) => Promise<string>;
+    awaitOperation: (hash: string, interval?: number, timeout?: number, { signal, monitor, confirmations, fromLevel, onReorg, }?: AwaitOperationOptions) => Promise<Inclusion>;
     /**
      * @description Prepares an operation
      * @param {Object} paramObject The parameters for the operation
      * @param {string} [paramObject.source] The source address of the operation
      * @param {boolean} paramObject.skipCounter Skip incrementing the counter within sotez
      * @param {boolean} paramObject.skipEstimate Skip the estimator if enabled
+     * @param {string|Object|Function} [paramObject.feeStrategy] The fee strategy of the operation, overriding the one of the instance
+     * @param {AbortSignal} [paramObject.signal] A signal used to abort the preparation
      * @param {Object | Array} paramObject.operation The operation to include in the transaction
      * @returns {Promise} Object containing the prepared operation
      * @example
@@ -477,14 +699,15 @@ export declare class Sotez extends AbstractTezModule {
      *   }
      * }).then(({ opbytes, opOb, counter }) => console.log(opbytes, opOb, counter));
      */
-    prepareOperation: ({ operation, source, skipCounter, skipEstimate, }: OperationParams) => Promise<ForgedBytes>;
+    prepareOperation: ({ operation, source, skipCounter, skipEstimate, feeStrategy, signal, }: OperationParams) => Promise<ForgedBytes>;
     /**
      * @description Simulate an operation
      * @param {Object} paramObject The parameters for the operation
      * @param {Object|Array} paramObject.operation The operation to include in the transaction
      * @param {string} [paramObject.source] The source address of the operation
      * @param {boolean} [paramObject.skipEstimate] The operation to include in the transaction
-     * @returns {Promise} The simulated operation result
+     * @param {AbortSignal} [paramObject.signal] A signal used to abort the simulation
+     * @returns {Promise} The simulated operation result, with its receipt
      * @example
      * sotez.simulateOperation({
      *   operation: {
@@ -497,15 +720,24 @@ export declare class Sotez extends AbstractTezModule {
      *   },
      * }).then(result => console.log(result));
      */
-    simulateOperation: ({ operation, source, skipEstimate, }: OperationParams) => Promise<any>;
+    simulateOperation: ({ operation, source, skipEstimate, signal, }: OperationParams) => Promise<any>;
     /**
-     * @description Send an operation
+     * @description Send an operation. Operations of the same source are sent one at a time, and
+     *   an operation rejected because of its counter is prepared again with the counter of the chain
+     *   and sent once more.
      * @param {Object} paramObject The parameters for the operation
      * @param {Object|Array} paramObject.operation The operation to include in the transaction
      * @param {string} [paramObject.source] The source address of the operation
      * @param {boolean} [paramObject.skipSignature=false] Use default signature for specific transactions
      * @param {boolean} [paramObject.skipPrevalidation=false] Skip prevalidation before injecting operation
-     * @returns {Promise} Object containing the injected operation hash
+     * @param {string|Object|Function} [paramObject.feeStrategy] The fee strategy of the operation, overriding the one of the instance
+     * @param {AbortSignal} [paramObject.signal] A signal used to abort the operation before its injection
+     * @param {Function} [paramObject.onForged] Called with the forged operation before it is signed
+     * @param {Function} [paramObject.onSigned] Called with the hash, the signed bytes and the branch of
+     *   the operation before it is injected
+     * @returns {Promise} Object containing the operation hash and the fees of the operation, with
+     *   `ambiguous` set when the injection timed out and the operation may or may not have reached
+     *   the node
      * @example
      * const operation = {
      *   kind: 'transaction',
@@ -520,30 +752,75 @@ export declare class Sotez extends AbstractTezModule {
      *
      * sotez.sendOperation({ operation: [operation, operation] }).then(result => console.log(result));
      */
-    sendOperation: ({ operation, source, skipPrevalidation, skipSignature, }: OperationParams) => Promise<any>;
+    sendOperation: (paramObject: OperationParams) => Promise<any>;
     /**
      * @description Inject an operation
      * @param {Object} opOb The operation object
      * @param {string} sopbytes The signed operation bytes
-     * @returns {Promise} Object containing the injected operation hash
+     * @param {Object} [options] The query options
+     * @returns {Promise} Object containing the injected operation hash, the preapplied operations
+     *   and their receipt
      */
-    inject: (opOb: OperationObject, sopbytes: string) => Promise<any>;
+    inject: (opOb: OperationObject, sopbytes: string, options?: QueryOptions) => Promise<any>;
     /**
-     * @description Inject an operation without prevalidation
+     * @description Inject an operation without prevalidation. When the injection request times out,
+     *   is aborted or fails on the network or at a gateway, the node may or may not have received
+     *   the operation: the locally computed hash is then returned with `ambiguous` set, to be
+     *   looked up with `awaitOperation`.
      * @param {string} sopbytes The signed operation bytes
+     * @param {Object} [options] The query options
+     * @returns {Promise} Object containing the injected operation hash
+     */
+    silentInject: (sopbytes: string, options?: QueryOptions) => Promise<{
+        hash: string;
+        ambiguous?: boolean;
+    }>;
+    /**
+     * @description Prepare an operation to be signed offline. The envelope can be saved as JSON,
+     *   signed with `signEnvelope` on a machine without network access and injected later with
+     *   `injectSigned`, until the branch of the operation expires.
+     * @param {Object} paramObject The parameters for the operation
+     * @param {Object|Array} paramObject.operation The operation to include in the transaction
+     * @param {string} [paramObject.source] The source address of the operation
+     * @param {string|Object|Function} [paramObject.feeStrategy] The fee strategy of the operation, overriding the one of the instance
+     * @param {AbortSignal} [paramObject.signal] A signal used to abort the preparation
+     * @returns {Promise} The unsigned envelope
+     * @example
+     * const envelope = await sotez.exportUnsigned({
+     *   operation: { kind: 'transaction', amount: 1000, destination: 'tz1...' },
+     *   source: 'tz1...',
+     * });
+     * writeFileSync('./unsigned.json', JSON.stringify(envelope));
+     */
+    exportUnsigned: ({ operation, source, feeStrategy, signal, }: OperationParams) => Promise<UnsignedEnvelope>;
+    /**
+     * @description Inject an envelope signed with `signEnvelope`. The envelope is rejected when it
+     *   is meant for another chain, when its branch has expired, when its bytes are not the forged
+     *   operation object, or when the signature was not made by the key of its source, revealed or
+     *   revealed by the operation itself.
+     * @param {Object} envelope The signed envelope
+     * @param {Object} [options] The injection options
+     * @param {boolean} [options.skipPrevalidation=false] Skip prevalidation before injecting operation
+     * @param {AbortSignal} [options.signal] A signal used to abort the injection
      * @returns {Promise} Object containing the injected operation hash
+     * @example
+     * const signed = JSON.parse(readFileSync('./signed.json', 'utf8'));
+     * const { hash } = await sotez.injectSigned(signed);
      */
-    silentInject: (sopbytes: string) => Promise<any>;
+    injectSigned: (envelope: SignedEnvelope, { skipPrevalidation, signal }?: InjectSignedOptions) => Promise<any>;
     /**
      * @description Transfer operation
      * @param {Object|Array} transferParams The parameters for the operation
      * @param {string} transferParams.to The address of the recipient
      * @param {number} transferParams.amount The amount in tez to transfer for the initial balance
      * @param {string} [transferParams.source] The source address of the transfer
-     * @param {number} [transferParams.fee=1420] The fee to set for the transaction
+     * @param {number} [transferParams.fee] The fee to set for the transaction (computed from its size and gas limit by default)
+     * @param {string|Object|Function} [transferParams.feeStrategy] The fee strategy of the batch, overriding the one of the instance
      * @param {string} [transferParams.parameters] The parameter for the transaction
      * @param {number} [transferParams.gasLimit=10600] The gas limit to set for the transaction
      * @param {number} [transferParams.storageLimit=300] The storage limit to set for the transaction
+     * @param {Object} [options] The options
+     * @param {AbortSignal} [options.signal] A signal used to abort the transfer before its injection
      * @returns {Promise} Object containing the injected operation hash
      * @example
      * sotez.transfer({
@@ -552,7 +829,9 @@ export declare class Sotez extends AbstractTezModule {
      *   fee: 1420,
      * }).then(result => console.log(result));
      */
-    transfer: (transferParams: RpcParams | RpcParams[]) => Promise<any>;
+    transfer: (transferParams: RpcParams | RpcParams[], { signal }?: {
+        signal?: AbortSignal | undefined;
+    }) => Promise<any>;
     /**
      * @description Activate an account
      * @param {Object} pkh The public key hash of the account
@@ -572,39 +851,44 @@ export declare class Sotez extends AbstractTezModule {
      * @param {boolean} [paramObject.spendable=false] Whether the keyholder can spend the balance from the new account
      * @param {boolean} [paramObject.delegatable=false] Whether the new account is delegatable
      * @param {string} [paramObject.delegate] The delegate for the new account
-     * @param {number} [paramObject.fee=1420] The fee to set for the transaction
+     * @param {number} [paramObject.fee] The fee to set for the transaction (computed from its size and gas limit by default)
+     * @param {string|Object|Function} [paramObject.feeStrategy] The fee strategy of the operation, overriding the one of the instance
      * @param {number} [paramObject.gasLimit=10600] The gas limit to set for the transaction
      * @param {number} [paramObject.storageLimit=257] The storage limit to set for the transaction
      * @returns {Promise} Object containing the injected operation hash
      */
-    originate: ({ balance, code, init, spendable, delegatable, delegate, fee, gasLimit, storageLimit, }: ContractParams) => Promise<any>;
+    originate: ({ balance, code, init, spendable, delegatable, delegate, fee, feeStrategy, gasLimit, storageLimit, }: ContractParams) => Promise<any>;
     /**
      * @description Set a delegate for an account
      * @param {Object} paramObject The parameters for the operation
      * @param {string} [paramObject.delegate] The delegate for the new account
-     * @param {number} [paramObject.fee=1420] The fee to set for the transaction
+     * @param {number} [paramObject.fee] The fee to set for the transaction (computed from its size and gas limit by default)
+     * @param {string|Object|Function} [paramObject.feeStrategy] The fee strategy of the operation, overriding the one of the instance
      * @param {number} [paramObject.gasLimit=10600] The gas limit to set for the transaction
      * @param {string} [paramObject.source] The source address of the operation
      * @param {number} [paramObject.storageLimit=0] The storage limit to set for the transaction
      * @returns {Promise} Object containing the injected operation hash
      */
-    setDelegate: ({ delegate, source, fee, gasLimit, storageLimit, }: {
+    setDelegate: ({ delegate, source, fee, feeStrategy, gasLimit, storageLimit, }: {
         delegate: string;
         source?: string | undefined;
         fee?: number | undefined;
+        feeStrategy?: FeeStrategy | undefined;
         gasLimit?: number | undefined;
         storageLimit?: number | undefined;
     }) => Promise<any>;
     /**
      * @description Register an account as a delegate
      * @param {Object} paramObject The parameters for the operation
-     * @param {number} [paramObject.fee=1420] The fee to set for the transaction
+     * @param {number} [paramObject.fee] The fee to set for the transaction (computed from its size and gas limit by default)
+     * @param {string|Object|Function} [paramObject.feeStrategy] The fee strategy of the operation, overriding the one of the instance
      * @param {number} [paramObject.gasLimit=10600] The gas limit to set for the transaction
      * @param {number} [paramObject.storageLimit=0] The storage limit to set for the transaction
      * @returns {Promise} Object containing the injected operation hash
      */
-    registerDelegate: ({ fee, gasLimit, storageLimit, }?: {
+    registerDelegate: ({ fee, feeStrategy, gasLimit, storageLimit, }?: {
         fee?: number | undefined;
+        feeStrategy?: FeeStrategy | undefined;
         gasLimit?: number | undefined;
         storageLimit?: number | undefined;
     }) => Promise<any>;
@@ -612,23 +896,26 @@ export declare class Sotez extends AbstractTezModule {
      * @description Typechecks the provided code
      * @param {string | Micheline} code The code to typecheck
      * @param {number} gas The the gas limit
+     * @param {Object} [options] The query options
      * @returns {Promise} Typecheck result
      */
-    typecheckCode: (code: string | Micheline, gas?: number) => Promise<any>;
+    typecheckCode: (code: string | Micheline, gas?: number, options?: QueryOptions) => Promise<any>;
     /**
      * @description Serializes a piece of data to a binary representation
      * @param {string | Micheline} data The data
      * @param {string | Micheline} type The data type
+     * @param {Object} [options] The query options
      * @returns {Promise} Serialized data
      */
-    packData: (data: string | Micheline, type: string | Micheline) => Promise<any>;
+    packData: (data: string | Micheline, type: string | Micheline, options?: QueryOptions) => Promise<any>;
     /**
      * @description Typechecks data against a type
      * @param {string | Micheline} data The data
      * @param {string | Micheline} type The data type
+     * @param {Object} [options] The query options
      * @returns {Promise} Typecheck result
      */
-    typecheckData: (data: string | Micheline, type: string | Micheline) => Promise<any>;
+    typecheckData: (data: string | Micheline, type: string | Micheline, options?: QueryOptions) => Promise<any>;
     /**
      * @description Runs or traces code against an input and storage
      * @param {string | Micheline} code Code to run
@@ -636,9 +923,10 @@ export declare class Sotez extends AbstractTezModule {
      * @param {string | Micheline} input Input to run though code
      * @param {string | Micheline} storage State of storage
      * @param {boolean} [trace=false] Whether to trace
+     * @param {Object} [options] The query options
      * @returns {Promise} Run results
      */
-    runCode: (code: string | Micheline, amount: number, input: string | Micheline, storage: string | Micheline, trace?: boolean) => Promise<any>;
+    runCode: (code: string | Micheline, amount: number, input: string | Micheline, storage: string | Micheline, trace?: boolean, options?: QueryOptions) => Promise<any>;
     /**
      * @description Get the mananger key from the protocol dependent query
      * @param {Object|string} manager The manager key query response
@@ -646,6 +934,22 @@ export declare class Sotez extends AbstractTezModule {
      * @returns {string} If manager exists, returns the manager key
      */
     getManagerKey: (manager: any, protocol: string) => string | null;
+    /**
+     * @description Prepares, signs and injects an operation, see `sendOperation`
+     * @param {Object} paramObject The parameters for the operation
+     * @returns {Promise} Object containing the operation hash and the fees of the operation
+     */
+    private _sendOperation;
+    /**
+     * @description Computes the fees of the manager operations of a batch given without a fee
+     * @param {Array} contents The constructed operations
+     * @param {Array} operations The operations as given
+     * @param {string} protocol The protocol the operations are forged for
+     * @param {string|Object|Function} [feeStrategy] The fee strategy of the call
+     * @param {AbortSignal} [signal] A signal used to abort the request of the fee parameters
+     * @returns {Promise} The fees of the batch
+     */
+    private _applyFees;
     /**
      * @description Conforms the operation to a specific protocol
      * @param {Object} constructedOp The operation object
@@ -657,12 +961,15 @@ export declare class Sotez extends AbstractTezModule {
      * @description Given operation objects, return the operations with their estimated limits
      * @param {Object|Array} operation The operation object or list of objects
      * @param {string} [source] The source of the operation
+     * @param {Object} [options] The query options
      * @returns {Promise} The operations with populated limits
      */
-    estimateLimits: (operation: Operation | Operation[], source?: string | undefined) => Promise<Operation[]>;
+    estimateLimits: (operation: Operation | Operation[], source?: string | undefined, options?: QueryOptions) => Promise<Operation[]>;
     /**
      * @description Looks up a contract and returns an initialized contract
      * @param {Object} address The contract address
+     * @param {Object} [options] The query options
+     * @param {string|number} [options.block='head'] The block to load the contract at
      * @returns {Promise} An initialized contract class
      * @example
      * // Load contract
@@ -682,6 +989,6 @@ export declare class Sotez extends AbstractTezModule {
      *   storageLimit: '60000',
      * });
      */
-    loadContract: (address: string) => Promise<Contract>;
+    loadContract: (address: string, options?: BlockOptions) => Promise<Contract>;
 }
 export {};
@@ -1,25 +1,219 @@
-import 'isomorphic-fetch';
+import { Transport } from './transport';
+import { ProviderPool, ProviderPoolOptions, ProviderNode } from './providerPool';
+import { Cache, CacheOptions } from './cache';
+import { MonitorOptions, Subscription } from './monitor';
+import { Middleware } from './middleware';
+import { LogFields, LogLevel, Logger } from './logger';
+export interface RetryOptions {
+    maxAttempts?: number;
+    baseDelay?: number;
+    maxDelay?: number;
+    retryInjection?: boolean;
+}
+export interface QueryOptions {
+    signal?: AbortSignal;
+    timeout?: number;
+}
+export interface BlockOptions extends QueryOptions {
+    block?: string | number;
+}
+export interface CoreOptions {
+    debugMode?: boolean;
+    timeout?: number;
+    transport?: Transport;
+    retry?: RetryOptions;
+    pool?: ProviderPoolOptions;
+    cache?: boolean | CacheOptions;
+    logger?: Logger;
+    middleware?: Middleware[];
+}
+/**
+ * @description Resolves a block reference to the identifier used in RPC paths
+ * @param {string | number} [block='head'] A block hash, a level, a relative reference (ie. 'head~10') or an alias ('finalized')
+ * @returns {string} The block identifier
+ * @example
+ * resolveBlock(1400000); // '1400000'
+ * resolveBlock('finalized'); // 'head~2'
+ */
+export declare const resolveBlock: (block?: string | number) => string;
 export declare class AbstractTezModule {
-    _provider: string;
+    _pool: ProviderPool;
+    _healthCheckHandle?: ReturnType<typeof setInterval>;
     _chain: string;
     _debugMode: boolean;
-    constructor(provider: string, chain: string, debugMode?: boolean);
+    _transport: Transport;
+    _retry: Required<RetryOptions>;
+    _timeout: number;
+    _cache?: Required<CacheOptions>;
+    _pending: {
+        [path: string]: Promise<any>;
+    };
+    _logger?: Logger;
+    _requestId: number;
+    _middleware: Middleware[];
+    constructor(provider: string | string[], chain: string, options?: CoreOptions);
     get provider(): string;
     set provider(provider: string);
+    get providers(): string[];
+    get pool(): ProviderPool;
     get chain(): string;
     set chain(value: string);
     get debugMode(): boolean;
     set debugMode(value: boolean);
-    setProvider(provider: string, chain?: string): void;
+    get transport(): Transport;
+    set transport(value: Transport);
+    get timeout(): number;
+    set timeout(value: number);
+    get retry(): Required<RetryOptions>;
+    set retry(value: Required<RetryOptions>);
+    /**
+     * @description The logger receiving the activity of the instance. Unless a logger is provided,
+     *   messages are printed to the console in debug mode and discarded otherwise.
+     * @returns {Object} The logger
+     */
+    get logger(): Logger;
+    set logger(value: Logger);
+    get cache(): Cache | undefined;
+    setProvider(provider: string | string[], chain?: string): void;
+    /**
+     * @description Checks whether each provider of the pool is bootstrapped and synced, marking
+     *   the providers which are not as unhealthy
+     * @returns {Promise} The providers of the pool with their health
+     * @example
+     * sotez.checkHealth()
+     *   .then(nodes => nodes.forEach(({ url, healthy }) => console.log(url, healthy)));
+     */
+    checkHealth: () => Promise<ProviderNode[]>;
+    /**
+     * @description Periodically checks the health of the providers
+     * @param {number} [interval] The interval between health checks (in ms)
+     */
+    startHealthChecks: (interval?: number) => void;
+    /**
+     * @description Stops the periodic health checks
+     */
+    stopHealthChecks: () => void;
+    /**
+     * @description Adds a middleware to the chain wrapping every request sent to a node, including
+     *   the retried requests, the health checks and the monitored streams
+     * @param {Function} middleware The middleware, called with the request and the next handler
+     * @returns {Object} The instance, to chain calls
+     * @example
+     * sotez
+     *   .use((request, next) => next({
+     *     ...request,
+     *     headers: { ...request.headers, 'X-Api-Key': apiKey },
+     *   }))
+     *   .use((request, next) => next({ ...request, path: `/tezos${request.path}` }));
+     */
+    use: (middleware: Middleware) => this;
     /**
      * @description Queries a node given a path and payload
      * @param {string} path The RPC path to query
      * @param {string} [payload] The payload of the query
      * @param {string} [method] The request method. Either 'GET' or 'POST'
+     * @param {Object} [options] The request options
+     * @param {AbortSignal} [options.signal] A signal used to abort the request
+     * @param {number} [options.timeout] The timeout of the request (in ms), 0 to disable
      * @returns {Promise} The response of the query
      * @example
      * sotez.query(`/chains/main/blocks/head`)
      *  .then(head => console.log(head));
      */
-    query: (path: string, payload?: any, method?: string | undefined) => Promise<any>;
+    query: (path: string, payload?: any, method?: string | undefined, { signal, timeout }?: QueryOptions) => Promise<any>;
+    /**
+     * @description Subscribes to a streamed RPC, such as the `/monitor` endpoints. The stream is
+     *   reopened, on the next healthy provider, whenever it fails or ends.
+     * @param {string} path The RPC path to monitor
+     * @param {Object} [options] The monitor options
+     * @param {number} [options.reconnectDelay=1000] The delay before reconnecting (in ms)
+     * @returns {Object} The subscription to the values of the stream
+     * @example
+     * const subscription = sotez.monitor('/monitor/valid_blocks');
+     * subscription.on('data', (block) => console.log(block.hash));
+     */
+    monitor: <T = any>(path: string, options?: MonitorOptions) => Subscription<T>;
+    /**
+     * @description Opens a stream of newline-delimited JSON values
+     * @param {string} path The RPC path of the stream
+     * @param {Function} onValue Called with each value of the stream
+     * @param {AbortSignal} [signal] A signal used to close the stream
+     * @returns {Promise} Resolves once the stream ends
+     */
+    protected _stream: (path: string, onValue: (value: any) => void, signal?: AbortSignal | undefined) => Promise<void>;
+    /**
+     * @description Answers a GET request from the cache when possible. Identical concurrent
+     *   requests share a single in-flight request, aborting one of them only stops waiting for it.
+     * @param {string} path The RPC path of the request
+     * @param {Object} request The transport request, without its url
+     * @param {Object} options The request options
+     * @param {AbortSignal} [options.signal] A signal used to stop waiting for the request
+     * @param {number} [options.timeout] The timeout of the request (in ms), 0 to disable
+     * @returns {Promise} The response of the query
+     */
+    private _cachedQuery;
+    /**
+     * @description Sends a request, rejecting when it is aborted or times out
+     * @param {string} path The RPC path of the request
+     * @param {Object} request The transport request, without its url
+     * @param {Object} options The request options
+     * @param {AbortSignal} [options.signal] A signal used to abort the request
+     * @param {number} [options.timeout] The timeout of the request (in ms), 0 to disable
+     * @returns {Promise} The response of the query
+     */
+    private _query;
+    /**
+     * @description Sends a request to a provider through the middleware chain
+     * @param {Object} request The request, with its provider and path
+     * @param {Function} [handler] The handler sending the request, through the transport by default
+     * @returns {Promise} The transport response
+     */
+    private _dispatch;
+    /**
+     * @description Sends a message to the logger, with its fields redacted
+     * @param {string} level The level of the message
+     * @param {string} message The message
+     * @param {Object} [fields] The structured fields of the message
+     */
+    protected _log: (level: LogLevel, message: string, fields?: LogFields) => void;
+    /**
+     * @description Whether a request can be safely sent more than once
+     * @param {string} path The RPC path of the request
+     * @param {string} method The request method
+     * @returns {boolean} Whether the request may be retried
+     */
+    private _isRetryable;
+    /**
+     * @description Sends a request through the provider pool, retrying transient failures with an
+     *   exponential backoff
+     * @param {string} path The RPC path of the request
+     * @param {Object} request The transport request, without its url
+     * @param {boolean} retryable Whether the request may be retried
+     * @param {number} [requestId] The id of the request, for logging
+     * @returns {Promise} The transport response
+     */
+    private _request;
+    /**
+     * @description Sends a request to the providers of the pool, failing over to the next provider
+     *   when a provider is unreachable or unavailable
+     * @param {string} path The RPC path of the request
+     * @param {Object} request The transport request, without its url
+     * @param {boolean} retryable Whether the request may be sent to more than one provider
+     * @returns {Promise} The transport response
+     */
+    private _send;
+    /**
+     * @description Sends a request to every healthy provider of the pool, resolving with the first
+     *   successful response
+     * @param {string} path The RPC path of the request
+     * @param {Object} request The transport request, without its url
+     * @returns {Promise} The transport response
+     */
+    private _broadcast;
+    /**
+     * @description Calculates the delay before the next attempt, using exponential backoff with jitter
+     * @param {number} attempt The number of the failed attempt
+     * @returns {number} The delay in milliseconds
+     */
+    private _backoff;
 }
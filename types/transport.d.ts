@@ -0,0 +1,37 @@
+import 'isomorphic-fetch';
+export interface TransportRequest {
+    url: string;
+    method: string;
+    headers: {
+        [key: string]: string;
+    };
+    body?: string;
+    signal?: AbortSignal;
+}
+export interface TransportResponse {
+    ok: boolean;
+    status: number;
+    body: any;
+}
+/**
+ * @description The interface used by Sotez to communicate with a node. Any implementation
+ *   (a custom http client, a proxy, an in-process mock, an ipc bridge) can be provided
+ *   through the `transport` module option. `stream` is only required by the monitoring
+ *   methods: it passes the chunks of the response body to `onChunk` as they are received,
+ *   and resolves once the stream ends (with the body of the response when it failed).
+ */
+export interface Transport {
+    request: (request: TransportRequest) => Promise<TransportResponse>;
+    stream?: (request: TransportRequest, onChunk: (chunk: string) => void) => Promise<TransportResponse>;
+}
+/**
+ * @description The default transport, backed by the global fetch
+ * @example
+ * const tezos = new Sotez('https://127.0.0.1:8732', 'main', {
+ *   transport: new FetchTransport(),
+ * });
+ */
+export declare class FetchTransport implements Transport {
+    request: ({ url, method, headers, body, signal, }: TransportRequest) => Promise<TransportResponse>;
+    stream: ({ url, method, headers, body, signal }: TransportRequest, onChunk: (chunk: string) => void) => Promise<TransportResponse>;
+}
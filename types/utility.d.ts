@@ -85,6 +85,15 @@ export declare const mergebuf: (b1: Uint8Array, b2: Uint8Array) => Uint8Array;
  * @returns {string} The base58 encoded expression
  */
 export declare const encodeExpr: (value: string) => string;
+/**
+ * @description Computes the hash of an operation from its signed bytes, as returned by a node on
+ *   injection
+ * @param {string} sopbytes The signed operation bytes
+ * @returns {string} The base58 encoded operation hash
+ * @example
+ * const hash = operationHash(sopbytes); // 'oo...'
+ */
+export declare const operationHash: (sopbytes: string) => string;
 export declare const sexp2mic: (mi: string) => Micheline;
 export declare const mic2arr: (s: any) => any;
 export declare const ml2mic: (mi: string) => Micheline;
@@ -106,6 +115,7 @@ declare const _default: {
     hexNonce: (length: number) => string;
     mergebuf: (b1: Uint8Array, b2: Uint8Array) => Uint8Array;
     encodeExpr: (value: string) => string;
+    operationHash: (sopbytes: string) => string;
     sexp2mic: (mi: string) => Micheline;
     mic2arr: (s: any) => any;
     ml2mic: (mi: string) => Micheline;